@@ -1,12 +1,14 @@
-import { useState } from 'react';
-import { type Project, supabase } from '../lib/supabase';
-import { Target, TrendingUp, CircleAlert as AlertCircle, Calendar } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { type McpOperation, type Project, supabase } from '../lib/supabase';
+import { Target, TrendingUp, CircleAlert as AlertCircle, Calendar, PlayCircle, Loader2 } from 'lucide-react';
 import DefinePhase from './phases/DefinePhase';
 import MeasurePhase from './phases/MeasurePhase';
 import AnalyzePhase from './phases/AnalyzePhase';
 import ImprovePhase from './phases/ImprovePhase';
 import ControlPhase from './phases/ControlPhase';
 import CommentSection from './collaboration/CommentSection';
+import { formatDistanceToNow } from 'date-fns';
 
 interface ProjectDetailsProps {
   project: Project;
@@ -33,6 +35,74 @@ export default function ProjectDetails({ project, onUpdate }: ProjectDetailsProp
     }
   };
 
+  const [running, setRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+  const [runProgress, setRunProgress] = useState<number | null>(null);
+  const runChannel = useRef<RealtimeChannel | null>(null);
+
+  useEffect(() => () => {
+    runChannel.current?.unsubscribe();
+  }, []);
+
+  // Queues the current phase's analysis for the same DMAIC engine as the MCP server's phase tools and follows it until it ends
+  const runPhase = async () => {
+    setRunning(true);
+    setRunMessage(null);
+    const { data, error } = await supabase.functions.invoke('execute-mcp-operation', {
+      body: { project_id: project.id, operation_type: `${project.current_phase.toLowerCase()}_phase` }
+    });
+
+    if (error || !data?.success) {
+      setRunning(false);
+      setRunMessage(`Analysis failed: ${data?.error ?? error?.message ?? 'unknown error'}`);
+      return;
+    }
+    setRunProgress(0);
+    setRunMessage('Queued');
+
+    const operationId: string = data.operation_id;
+    runChannel.current = supabase
+      .channel(`mcp-operation-${operationId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'mcp_operations', filter: `id=eq.${operationId}` },
+        (payload) => followOperation(payload.new as McpOperation)
+      )
+      .subscribe();
+
+    // The operation may have moved on before the subscription started
+    const { data: operation } = await supabase.from('mcp_operations').select('*').eq('id', operationId).single();
+    if (operation) followOperation(operation);
+  };
+
+  const followOperation = (operation: McpOperation) => {
+    if (!runChannel.current) return;
+
+    if (operation.status === 'pending' || operation.status === 'running') {
+      setRunProgress(Number(operation.progress));
+      setRunMessage(operation.status === 'pending' && operation.attempts > 0
+        ? `Attempt ${operation.attempts} failed: ${operation.error_message}. Retrying ${formatDistanceToNow(new Date(operation.run_after), { addSuffix: true })}.`
+        : operation.progress_message ?? (operation.status === 'pending' ? 'Queued' : 'Starting'));
+      return;
+    }
+
+    runChannel.current.unsubscribe();
+    runChannel.current = null;
+    setRunning(false);
+    setRunProgress(null);
+    if (operation.status !== 'completed') {
+      setRunMessage(operation.status === 'cancelled'
+        ? 'Analysis cancelled.'
+        : `Analysis failed: ${operation.error_message ?? 'unknown error'}`);
+      return;
+    }
+    const gate = operation.output_data.quality_gate;
+    setRunMessage(gate.passed
+      ? `Quality gate passed. Phase moved to ${operation.output_data.next_phase}.`
+      : `Quality gate failed. Missing: ${gate.missing_items.join(', ')}`);
+    onUpdate();
+  };
+
   const getPhaseStatus = (phaseIndex: number) => {
     if (phaseIndex < currentPhaseIndex) return 'completed';
     if (phaseIndex === currentPhaseIndex) return 'active';
@@ -161,7 +231,30 @@ export default function ProjectDetails({ project, onUpdate }: ProjectDetailsProp
       {activeTab === 'phases' && (
         <div className="space-y-6">
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h3 className="text-lg font-semibold text-slate-900 mb-4">DMAIC Progress</h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-slate-900">DMAIC Progress</h3>
+              {project.current_phase !== 'COMPLETED' && (
+                <button
+                  onClick={runPhase}
+                  disabled={running}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {running ? <Loader2 size={18} className="animate-spin" /> : <PlayCircle size={18} />}
+                  Run {project.current_phase} Analysis
+                </button>
+              )}
+            </div>
+            {runProgress !== null && (
+              <div className="w-full bg-slate-200 rounded-full h-2 mb-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${runProgress}%` }}
+                />
+              </div>
+            )}
+            {runMessage && (
+              <p className="text-sm text-slate-600 mb-4">{runMessage}</p>
+            )}
             <div className="flex items-center justify-between mb-2">
               {phases.map((phase, index) => {
                 const status = getPhaseStatus(index);
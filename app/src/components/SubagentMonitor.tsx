@@ -10,6 +10,9 @@ import {
   Loader2,
   ChevronDown,
   ChevronRight,
+  Ban,
+  RotateCcw,
+  Archive,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -23,6 +26,12 @@ interface MCPOperation {
   completed_at: string | null;
   error_message: string | null;
   created_at: string;
+  progress: number;
+  progress_message: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  cancel_requested: boolean;
   project: {
     name: string;
   };
@@ -132,6 +141,24 @@ export default function SubagentMonitor({ projectId }: Props) {
     setLoading(false);
   };
 
+  // Pending operations are cancelled at once; running ones stop before their next agent
+  const cancelOperation = async (opId: string) => {
+    const { error } = await supabase.rpc('cancel_mcp_operation', { p_id: opId });
+    if (error) {
+      console.error('Error cancelling operation:', error);
+    }
+  };
+
+  // Retried through the edge function so a worker picks the operation up right away
+  const retryOperation = async (opId: string) => {
+    const { data, error } = await supabase.functions.invoke('execute-mcp-operation', {
+      body: { retry_operation_id: opId },
+    });
+    if (error || !data?.success) {
+      console.error('Error retrying operation:', data?.error ?? error);
+    }
+  };
+
   const toggleExpanded = (opId: string) => {
     const newExpanded = new Set(expandedOps);
     if (newExpanded.has(opId)) {
@@ -148,6 +175,10 @@ export default function SubagentMonitor({ projectId }: Props) {
         return <CheckCircle size={20} className="text-green-600" />;
       case 'failed':
         return <XCircle size={20} className="text-red-600" />;
+      case 'dead_letter':
+        return <Archive size={20} className="text-red-600" />;
+      case 'cancelled':
+        return <Ban size={20} className="text-slate-500" />;
       case 'running':
         return <Loader2 size={20} className="text-blue-600 animate-spin" />;
       case 'pending':
@@ -162,6 +193,7 @@ export default function SubagentMonitor({ projectId }: Props) {
     const styles: Record<string, string> = {
       completed: 'bg-green-100 text-green-700',
       failed: 'bg-red-100 text-red-700',
+      dead_letter: 'bg-red-200 text-red-800',
       running: 'bg-blue-100 text-blue-700',
       pending: 'bg-yellow-100 text-yellow-700',
       queued: 'bg-yellow-100 text-yellow-700',
@@ -260,7 +292,7 @@ export default function SubagentMonitor({ projectId }: Props) {
                                 op.status
                               )}`}
                             >
-                              {op.status}
+                              {op.status.replace(/_/g, ' ')}
                             </span>
                             {op.phase && (
                               <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-700">
@@ -295,7 +327,38 @@ export default function SubagentMonitor({ projectId }: Props) {
                                 {relatedSubagents.length} subagents
                               </span>
                             )}
+                            {op.attempts > 1 && (
+                              <span>
+                                Attempt {op.attempts} of {op.max_attempts}
+                              </span>
+                            )}
                           </div>
+                          {op.status === 'running' && (
+                            <div className="mt-3">
+                              <div className="flex items-center justify-between text-xs text-slate-600 mb-1">
+                                <span>
+                                  {op.cancel_requested
+                                    ? 'Cancelling...'
+                                    : op.progress_message || 'Starting'}
+                                </span>
+                                <span>{Number(op.progress).toFixed(0)}%</span>
+                              </div>
+                              <div className="w-full bg-slate-200 rounded-full h-2">
+                                <div
+                                  className="bg-blue-600 h-2 rounded-full transition-all"
+                                  style={{ width: `${op.progress}%` }}
+                                />
+                              </div>
+                            </div>
+                          )}
+                          {op.status === 'pending' && op.attempts > 0 && (
+                            <p className="mt-2 text-xs text-yellow-700">
+                              Retrying{' '}
+                              {formatDistanceToNow(new Date(op.run_after), {
+                                addSuffix: true,
+                              })}
+                            </p>
+                          )}
                           {op.error_message && (
                             <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
                               {op.error_message}
@@ -303,18 +366,38 @@ export default function SubagentMonitor({ projectId }: Props) {
                           )}
                         </div>
                       </div>
-                      {relatedSubagents.length > 0 && (
-                        <button
-                          onClick={() => toggleExpanded(op.id)}
-                          className="p-2 hover:bg-slate-100 rounded transition-colors"
-                        >
-                          {isExpanded ? (
-                            <ChevronDown size={20} className="text-slate-600" />
-                          ) : (
-                            <ChevronRight size={20} className="text-slate-600" />
-                          )}
-                        </button>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {(op.status === 'pending' || op.status === 'running') && !op.cancel_requested && (
+                          <button
+                            onClick={() => cancelOperation(op.id)}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-colors"
+                          >
+                            <Ban size={14} />
+                            Cancel
+                          </button>
+                        )}
+                        {(op.status === 'failed' || op.status === 'dead_letter') && (
+                          <button
+                            onClick={() => retryOperation(op.id)}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+                          >
+                            <RotateCcw size={14} />
+                            Retry
+                          </button>
+                        )}
+                        {relatedSubagents.length > 0 && (
+                          <button
+                            onClick={() => toggleExpanded(op.id)}
+                            className="p-2 hover:bg-slate-100 rounded transition-colors"
+                          >
+                            {isExpanded ? (
+                              <ChevronDown size={20} className="text-slate-600" />
+                            ) : (
+                              <ChevronRight size={20} className="text-slate-600" />
+                            )}
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
 
@@ -24,6 +24,25 @@ export interface Project {
   updated_at: string;
 }
 
+export interface McpOperation {
+  id: string;
+  project_id: string;
+  operation_type: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'dead_letter';
+  progress: number;
+  progress_message: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  error_message: string | null;
+  // Filled in once the operation completes
+  output_data: {
+    quality_gate: { passed: boolean; missing_items: string[] };
+    next_phase: Project['current_phase'];
+  };
+  created_at: string;
+}
+
 export interface Requirement {
   id: string;
   project_id: string;
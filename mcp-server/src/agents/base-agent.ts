@@ -1,7 +1,7 @@
 // Base Agent class for Six Sigma MCP agents
 
-import { SharedResourceManager } from '../shared/resource-manager.js';
-import { ProjectState } from '../types/index.js';
+import { SharedResourceManager } from '../shared/resource-manager.ts';
+import { ProjectState } from '../types/index.ts';
 
 export abstract class BaseAgent {
   protected resourceManager: SharedResourceManager;
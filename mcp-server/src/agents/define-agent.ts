@@ -1,8 +1,8 @@
 // Define Agent - Handles DMAIC Define Phase
 // Responsible for VOC analysis, CTQ tree generation, and constraint documentation
 
-import { BaseAgent } from './base-agent.js';
-import { SharedResourceManager } from '../shared/resource-manager.js';
+import { BaseAgent } from './base-agent.ts';
+import { SharedResourceManager } from '../shared/resource-manager.ts';
 import { 
   ProjectState,
   DefineArtifacts,
@@ -12,7 +12,7 @@ import {
   SIPOCDiagram,
   ProjectCharter,
   CTQMetric
-} from '../types/index.js';
+} from '../types/index.ts';
 
 export class DefineAgent extends BaseAgent {
   constructor(resourceManager: SharedResourceManager) {
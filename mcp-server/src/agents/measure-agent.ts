@@ -1,8 +1,8 @@
 // Measure Agent - Handles DMAIC Measure Phase
 // Responsible for KPI definition, baseline establishment, and measurement planning
 
-import { BaseAgent } from './base-agent.js';
-import { SharedResourceManager } from '../shared/resource-manager.js';
+import { BaseAgent } from './base-agent.ts';
+import { SharedResourceManager } from '../shared/resource-manager.ts';
 import { 
   ProjectState,
   MeasureArtifacts,
@@ -12,7 +12,7 @@ import {
   DataCollectionPlan,
   CTQTree,
   CTQMetric
-} from '../types/index.js';
+} from '../types/index.ts';
 
 export class MeasureAgent extends BaseAgent {
   constructor(resourceManager: SharedResourceManager) {
@@ -0,0 +1,337 @@
+// Code Metrics for Six Sigma MCP
+// Cyclomatic complexity, Halstead metrics, maintainability index and LOC for TypeScript/JavaScript sources
+
+import ts from 'typescript';
+
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  cyclomatic_complexity: number;
+  source_loc: number;
+  parameters: number;
+  documented: boolean; // has a leading comment or JSDoc
+}
+
+export interface HalsteadMetrics {
+  distinct_operators: number;
+  distinct_operands: number;
+  total_operators: number;
+  total_operands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+  estimated_bugs: number;
+}
+
+export interface LineCounts {
+  physical: number;
+  source: number;  // lines containing code
+  comment: number; // lines containing only comments
+  blank: number;
+}
+
+export interface FileMetrics {
+  path: string;
+  loc: LineCounts;
+  functions: FunctionMetrics[];
+  cyclomatic_complexity: { total: number; max: number; average: number };
+  halstead: HalsteadMetrics;
+  // Visual Studio scale: 0-100, where 20 and above is maintainable
+  maintainability_index: number;
+}
+
+export interface CodeMetricsReport {
+  files: FileMetrics[];
+  skipped: string[]; // files that are not TypeScript or JavaScript
+  source_loc: number;
+  functions: number;
+  max_complexity: number;
+  average_complexity: number;
+  maintainability_index: number; // source-LOC weighted across files
+  documentation_coverage: number; // percentage of functions with a leading comment
+}
+
+export interface CodeThresholds {
+  max_function_complexity: number;
+  min_maintainability_index: number;
+  max_function_loc: number;
+}
+
+export const DEFAULT_CODE_THRESHOLDS: CodeThresholds = {
+  max_function_complexity: 10,
+  min_maintainability_index: 20,
+  max_function_loc: 60
+};
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX
+};
+
+// Tokens counted as operands; every other token except closing brackets is an operator
+const OPERAND_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.Identifier,
+  ts.SyntaxKind.PrivateIdentifier,
+  ts.SyntaxKind.NumericLiteral,
+  ts.SyntaxKind.BigIntLiteral,
+  ts.SyntaxKind.StringLiteral,
+  ts.SyntaxKind.RegularExpressionLiteral,
+  ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+  ts.SyntaxKind.TemplateHead,
+  ts.SyntaxKind.TemplateMiddle,
+  ts.SyntaxKind.TemplateTail,
+  ts.SyntaxKind.JsxText,
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+  ts.SyntaxKind.ThisKeyword
+]);
+
+// The closing half of a bracket pair is counted with its opening half
+const CLOSING_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.CloseBraceToken
+]);
+
+// Short-circuit operators add a path just like a branch statement
+const DECISION_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+export function isAnalyzable(filePath: string): boolean {
+  return extension(filePath) in SCRIPT_KINDS;
+}
+
+export function analyzeSource(filePath: string, content: string): FileMetrics {
+  const kind = SCRIPT_KINDS[extension(filePath)];
+  if (kind === undefined) {
+    throw new Error(`Cannot analyze ${filePath}: not a TypeScript or JavaScript file`);
+  }
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, kind);
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line;
+
+  // Leaf tokens drive both Halstead counts and which lines hold code
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+  const codeLines = new Set<number>();
+  const commentRanges = new Map<number, ts.CommentRange>();
+  const collectComments = (ranges: ts.CommentRange[] | undefined) => ranges?.forEach(range => commentRanges.set(range.pos, range));
+
+  const visitTokens = (node: ts.Node) => {
+    if (ts.isJSDoc(node)) return;
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0 && node.kind !== ts.SyntaxKind.JsxText) {
+      children.forEach(visitTokens);
+      return;
+    }
+    collectComments(ts.getLeadingCommentRanges(content, node.pos));
+    collectComments(ts.getTrailingCommentRanges(content, node.end));
+    if (node.kind === ts.SyntaxKind.EndOfFileToken) return;
+    if (node.kind === ts.SyntaxKind.JsxText && node.getText(sourceFile).trim() === '') return;
+    for (let line = lineOf(node.getStart(sourceFile)); line <= lineOf(node.end); line++) codeLines.add(line);
+    if (CLOSING_KINDS.has(node.kind)) return;
+
+    const counts = OPERAND_KINDS.has(node.kind) ? operands : operators;
+    const key = node.getText(sourceFile);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+  visitTokens(sourceFile);
+
+  const lines = content.split(/\r?\n/);
+  const commentLines = new Set<number>();
+  commentRanges.forEach(range => {
+    for (let line = lineOf(range.pos); line <= lineOf(range.end); line++) {
+      if (!codeLines.has(line)) commentLines.add(line);
+    }
+  });
+  const loc: LineCounts = {
+    physical: lines.length,
+    source: codeLines.size,
+    comment: commentLines.size,
+    blank: lines.filter((line, i) => line.trim() === '' && !codeLines.has(i) && !commentLines.has(i)).length
+  };
+
+  const functions: FunctionMetrics[] = [];
+  const visitFunctions = (node: ts.Node) => {
+    if (isFunctionLike(node)) {
+      const start = node.getStart(sourceFile);
+      let sourceLoc = 0;
+      for (let line = lineOf(start); line <= lineOf(node.end); line++) {
+        if (codeLines.has(line)) sourceLoc++;
+      }
+      functions.push({
+        name: functionName(node, sourceFile),
+        line: lineOf(start) + 1,
+        cyclomatic_complexity: 1 + decisionPoints(node),
+        source_loc: sourceLoc,
+        parameters: node.parameters.length,
+        documented: (ts.getLeadingCommentRanges(content, documentationAnchor(node).getFullStart()) ?? []).length > 0
+      });
+    }
+    ts.forEachChild(node, visitFunctions);
+  };
+  visitFunctions(sourceFile);
+
+  const complexities = functions.map(f => f.cyclomatic_complexity);
+  const totalComplexity = complexities.reduce((sum, c) => sum + c, 0);
+  const halstead = halsteadMetrics(operators, operands);
+
+  return {
+    path: filePath,
+    loc,
+    functions,
+    cyclomatic_complexity: {
+      total: totalComplexity,
+      max: complexities.length > 0 ? Math.max(...complexities) : 0,
+      average: complexities.length > 0 ? totalComplexity / complexities.length : 0
+    },
+    halstead,
+    maintainability_index: maintainabilityIndex(halstead.volume, Math.max(totalComplexity, 1), loc.source)
+  };
+}
+
+export function analyzeFiles(files: { path: string; content: string }[]): CodeMetricsReport {
+  const analyzed = files.filter(file => isAnalyzable(file.path)).map(file => analyzeSource(file.path, file.content));
+  const functions = analyzed.flatMap(file => file.functions);
+  const sourceLoc = analyzed.reduce((sum, file) => sum + file.loc.source, 0);
+
+  return {
+    files: analyzed,
+    skipped: files.filter(file => !isAnalyzable(file.path)).map(file => file.path),
+    source_loc: sourceLoc,
+    functions: functions.length,
+    max_complexity: functions.reduce((max, f) => Math.max(max, f.cyclomatic_complexity), 0),
+    average_complexity: functions.length > 0
+      ? functions.reduce((sum, f) => sum + f.cyclomatic_complexity, 0) / functions.length
+      : 0,
+    maintainability_index: sourceLoc > 0
+      ? analyzed.reduce((sum, file) => sum + file.maintainability_index * file.loc.source, 0) / sourceLoc
+      : 100,
+    documentation_coverage: functions.length > 0 ? functions.filter(f => f.documented).length / functions.length * 100 : 100
+  };
+}
+
+// One entry per threshold: true when every function or file meets it
+export function checkThresholds(report: CodeMetricsReport, thresholds: CodeThresholds = DEFAULT_CODE_THRESHOLDS): Record<string, boolean> {
+  const functions = report.files.flatMap(file => file.functions);
+  return {
+    [`cyclomatic_complexity_max_${thresholds.max_function_complexity}`]:
+      functions.every(f => f.cyclomatic_complexity <= thresholds.max_function_complexity),
+    [`maintainability_index_min_${thresholds.min_maintainability_index}`]:
+      report.files.every(file => file.maintainability_index >= thresholds.min_maintainability_index),
+    [`function_loc_max_${thresholds.max_function_loc}`]:
+      functions.every(f => f.source_loc <= thresholds.max_function_loc)
+  };
+}
+
+function halsteadMetrics(operators: Map<string, number>, operands: Map<string, number>): HalsteadMetrics {
+  const total = (counts: Map<string, number>) => Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+  const n1 = operators.size;
+  const n2 = operands.size;
+  const N1 = total(operators);
+  const N2 = total(operands);
+  const vocabulary = n1 + n2;
+  const length = N1 + N2;
+  const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+  const difficulty = n2 > 0 ? (n1 / 2) * (N2 / n2) : 0;
+
+  return {
+    distinct_operators: n1,
+    distinct_operands: n2,
+    total_operators: N1,
+    total_operands: N2,
+    vocabulary,
+    length,
+    volume,
+    difficulty,
+    effort: difficulty * volume,
+    estimated_bugs: volume / 3000
+  };
+}
+
+// Oman & Hagemeister's index, rescaled to 0-100 as in Visual Studio
+function maintainabilityIndex(volume: number, complexity: number, sourceLoc: number): number {
+  if (sourceLoc === 0) return 100;
+  const raw = 171 - 5.2 * Math.log(Math.max(volume, 1)) - 0.23 * complexity - 16.2 * Math.log(sourceLoc);
+  return Math.min(100, Math.max(0, raw * 100 / 171));
+}
+
+type FunctionLike = ts.FunctionDeclaration | ts.MethodDeclaration | ts.ArrowFunction | ts.FunctionExpression
+  | ts.ConstructorDeclaration | ts.GetAccessorDeclaration | ts.SetAccessorDeclaration;
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isArrowFunction(node)
+    || ts.isFunctionExpression(node) || ts.isConstructorDeclaration(node)
+    || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node))
+    && node.body !== undefined;
+}
+
+// Branches within the function's own body; nested functions are measured separately
+function decisionPoints(fn: FunctionLike): number {
+  let count = 0;
+  const visit = (node: ts.Node) => {
+    if (node !== fn && isFunctionLike(node)) return;
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        count++;
+        break;
+      case ts.SyntaxKind.BinaryExpression:
+        if (DECISION_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind)) count++;
+        break;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(fn);
+  return count;
+}
+
+function functionName(node: FunctionLike, sourceFile: ts.SourceFile): string {
+  const container = node.parent && ts.isPropertyDeclaration(node.parent) ? node.parent.parent : node.parent;
+  const owner = container && ts.isClassLike(container) && container.name ? `${container.name.text}.` : '';
+  if (ts.isConstructorDeclaration(node)) return `${owner}constructor`;
+  if (node.name) return `${owner}${node.name.getText(sourceFile)}`;
+
+  const parent = node.parent;
+  if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))) {
+    return `${owner}${parent.name.getText(sourceFile)}`;
+  }
+  return '<anonymous>';
+}
+
+// Comments documenting `const handler = () => ...` sit before the variable statement
+function documentationAnchor(node: ts.Node): ts.Node {
+  let anchor = node;
+  while (anchor.parent && (ts.isVariableDeclaration(anchor.parent) || ts.isVariableDeclarationList(anchor.parent)
+    || ts.isVariableStatement(anchor.parent) || ts.isPropertyAssignment(anchor.parent) || ts.isPropertyDeclaration(anchor.parent)
+    || ts.isExportAssignment(anchor.parent))) {
+    anchor = anchor.parent;
+  }
+  return anchor;
+}
+
+function extension(filePath: string): string {
+  const match = /\.[^./\\]+$/.exec(filePath);
+  return match ? match[0].toLowerCase() : '';
+}
@@ -0,0 +1,360 @@
+// LLM Providers for Six Sigma MCP
+// One completion interface over the Anthropic API, OpenAI-compatible endpoints, MCP sampling and recorded fixtures
+
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+
+export type LLMProviderKind = 'anthropic' | 'openai' | 'sampling' | 'fixture';
+
+export const LLM_PROVIDERS: LLMProviderKind[] = ['anthropic', 'openai', 'sampling', 'fixture'];
+
+export interface CompletionRequest {
+  purpose: string; // what the text is for, e.g. 'code_generation'; also selects replay fixtures
+  prompt: string;
+  system?: string;
+  max_tokens: number;
+  temperature?: number;
+}
+
+export interface Completion {
+  text: string;
+  provider: LLMProviderKind;
+  model: string;
+  stop_reason?: string;
+  truncated: boolean; // generation stopped at max_tokens
+  fallback_reason?: string; // why sampling was not used when the configured provider answered instead
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  isAvailable(): boolean;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  model?: string;         // required for anthropic and openai; a preference hint for sampling
+  api_key?: string;
+  base_url?: string;      // OpenAI-compatible API root including the version, e.g. http://localhost:11434/v1
+  fixtures_path?: string; // JSON fixture file for the fixture provider
+  timeout_ms: number;
+}
+
+// The parts of the MCP server needed to ask the connected client for a completion, as in sampling/createMessage
+export interface SamplingHost {
+  getClientCapabilities(): { sampling?: object } | undefined;
+  createMessage(params: SamplingRequest, options?: { signal?: AbortSignal }): Promise<SamplingResult>;
+}
+
+// A type literal rather than an interface so it satisfies the SDK's open (passthrough) parameter objects
+export type SamplingRequest = {
+  messages: { role: 'user' | 'assistant'; content: { type: 'text'; text: string } }[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  modelPreferences?: { hints?: { name?: string }[] };
+};
+
+export interface SamplingResult {
+  model: string;
+  stopReason?: string;
+  content: { type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string };
+}
+
+// Used when SIX_SIGMA_LLM_MODEL is unset; an alias rather than a dated snapshot so it is not retired under the
+// server. Pin a snapshot with SIX_SIGMA_LLM_MODEL for reproducible output.
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+
+export interface CompletionFixture {
+  purpose?: string;
+  prompt_hash?: string;    // fixtureKey() of one exact request
+  prompt_contains?: string;
+  response: string;
+  model?: string;
+}
+
+// Configuration from SIX_SIGMA_LLM_* variables; an ANTHROPIC_API_KEY alone selects the Anthropic provider
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig | undefined {
+  const provider = env.SIX_SIGMA_LLM_PROVIDER?.trim().toLowerCase() || (env.ANTHROPIC_API_KEY ? 'anthropic' : 'none');
+  if (provider === 'none') {
+    return undefined;
+  }
+  if (!LLM_PROVIDERS.includes(provider as LLMProviderKind)) {
+    throw new Error(`Unknown SIX_SIGMA_LLM_PROVIDER "${provider}"; expected one of ${LLM_PROVIDERS.join(', ')} or none`);
+  }
+  const timeout = Number(env.SIX_SIGMA_LLM_TIMEOUT_MS ?? 120_000);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error(`SIX_SIGMA_LLM_TIMEOUT_MS must be a positive number of milliseconds, got ${env.SIX_SIGMA_LLM_TIMEOUT_MS}`);
+  }
+
+  return {
+    provider: provider as LLMProviderKind,
+    model: env.SIX_SIGMA_LLM_MODEL || (provider === 'anthropic' ? DEFAULT_ANTHROPIC_MODEL : undefined),
+    api_key: provider === 'anthropic' ? env.ANTHROPIC_API_KEY : env.SIX_SIGMA_LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+    base_url: env.SIX_SIGMA_LLM_BASE_URL || env.OPENAI_BASE_URL || undefined,
+    fixtures_path: env.SIX_SIGMA_LLM_FIXTURES || undefined,
+    timeout_ms: timeout
+  };
+}
+
+export function createLLMProvider(config: LLMConfig, host?: SamplingHost): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      if (!config.api_key) throw new Error('The anthropic provider requires ANTHROPIC_API_KEY');
+      return new AnthropicProvider(config.api_key, requireModel(config), config.timeout_ms);
+    case 'openai':
+      if (!config.base_url) throw new Error('The openai provider requires SIX_SIGMA_LLM_BASE_URL, e.g. http://localhost:11434/v1');
+      return new OpenAICompatibleProvider(config.base_url, requireModel(config), config.timeout_ms, config.api_key);
+    case 'sampling':
+      if (!host) throw new Error('The sampling provider requires an MCP server connection');
+      return new SamplingProvider(host, config.timeout_ms, config.model);
+    case 'fixture':
+      if (!config.fixtures_path) throw new Error('The fixture provider requires SIX_SIGMA_LLM_FIXTURES');
+      return FixtureProvider.fromFile(config.fixtures_path);
+  }
+}
+
+// Generate with the connected client's model when it supports sampling, otherwise (or when sampling fails)
+// with the configured provider; SIX_SIGMA_LLM_SAMPLING=off uses the configured provider only
+export function preferSampling(
+  host: SamplingHost,
+  configured: LLMProvider | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): LLMProvider | undefined {
+  if (configured?.kind === 'sampling' || env.SIX_SIGMA_LLM_SAMPLING?.toLowerCase() === 'off') {
+    return configured;
+  }
+  const timeout = Number(env.SIX_SIGMA_LLM_TIMEOUT_MS ?? 120_000);
+  const sampling = new SamplingProvider(host, timeout > 0 ? timeout : 120_000, env.SIX_SIGMA_LLM_MODEL || undefined);
+  return new SamplingWithFallback(sampling, configured);
+}
+
+// Stable identifier of a request, used to record and replay exact fixtures
+export function fixtureKey(request: CompletionRequest): string {
+  return createHash('sha256')
+    .update(`${request.purpose}\u0000${request.system ?? ''}\u0000${request.prompt}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly kind = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string, private model: string, timeoutMs: number) {
+    this.client = new Anthropic({ apiKey, timeout: timeoutMs });
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    let response;
+    try {
+      response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }]
+      });
+    } catch (error) {
+      if (error instanceof Anthropic.NotFoundError) {
+        throw new Error(`${this.kind} provider failed to generate ${request.purpose}: model "${this.model}" is not available; set SIX_SIGMA_LLM_MODEL to a current model`);
+      }
+      throw providerError(this.kind, request, error);
+    }
+    const text = response.content.flatMap(block => block.type === 'text' ? [block.text] : []).join('');
+    if (!text) {
+      throw new Error(`anthropic provider returned no text for ${request.purpose} (stop reason ${response.stop_reason})`);
+    }
+    return {
+      text,
+      provider: this.kind,
+      model: response.model,
+      stop_reason: response.stop_reason ?? undefined,
+      truncated: response.stop_reason === 'max_tokens'
+    };
+  }
+}
+
+// Chat completions API as served by OpenAI, vLLM, Ollama, LM Studio and llama.cpp
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(private baseUrl: string, private model: string, private timeoutMs: number, private apiKey?: string) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    let body: any;
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.max_tokens,
+          temperature: request.temperature,
+          messages: [
+            ...(request.system ? [{ role: 'system', content: request.system }] : []),
+            { role: 'user', content: request.prompt }
+          ]
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}: ${(await response.text()).slice(0, 500)}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      throw providerError(this.kind, request, error);
+    }
+
+    const choice = body?.choices?.[0];
+    const text = choice?.message?.content;
+    if (typeof text !== 'string' || text === '') {
+      throw new Error(`openai provider returned no message content for ${request.purpose}`);
+    }
+    return {
+      text,
+      provider: this.kind,
+      model: body.model ?? this.model,
+      stop_reason: choice.finish_reason ?? undefined,
+      truncated: choice.finish_reason === 'length'
+    };
+  }
+}
+
+// sampling/createMessage: the connected MCP client generates with its own model
+export class SamplingProvider implements LLMProvider {
+  readonly kind = 'sampling' as const;
+
+  constructor(private host: SamplingHost, private timeoutMs: number, private modelHint?: string) {}
+
+  // Only known after the client has initialized and declared the sampling capability
+  isAvailable(): boolean {
+    return Boolean(this.host.getClientCapabilities()?.sampling);
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (!this.isAvailable()) {
+      throw new Error(`sampling provider cannot generate ${request.purpose}: the connected MCP client does not support sampling`);
+    }
+    let result;
+    try {
+      result = await this.host.createMessage({
+        messages: [{ role: 'user', content: { type: 'text', text: request.prompt } }],
+        systemPrompt: request.system,
+        maxTokens: request.max_tokens,
+        temperature: request.temperature,
+        includeContext: 'none',
+        modelPreferences: this.modelHint ? { hints: [{ name: this.modelHint }] } : undefined
+      }, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      throw providerError(this.kind, request, error);
+    }
+    if (result.content.type !== 'text') {
+      throw new Error(`sampling provider returned ${result.content.type} content for ${request.purpose}; expected text`);
+    }
+    return {
+      text: result.content.text,
+      provider: this.kind,
+      model: result.model,
+      stop_reason: result.stopReason,
+      truncated: result.stopReason === 'maxTokens'
+    };
+  }
+}
+
+class SamplingWithFallback implements LLMProvider {
+  readonly kind = 'sampling' as const;
+
+  constructor(private sampling: SamplingProvider, private fallback?: LLMProvider) {}
+
+  isAvailable(): boolean {
+    return this.sampling.isAvailable() || Boolean(this.fallback?.isAvailable());
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (!this.fallback) {
+      return this.sampling.complete(request);
+    }
+    let reason = 'the connected MCP client does not support sampling';
+    if (this.sampling.isAvailable()) {
+      try {
+        return await this.sampling.complete(request);
+      } catch (error) {
+        reason = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return { ...await this.fallback.complete(request), fallback_reason: reason };
+  }
+}
+
+// Deterministic replay: an exact prompt_hash match first, then the first fixture for the purpose whose text matches
+export class FixtureProvider implements LLMProvider {
+  readonly kind = 'fixture' as const;
+
+  constructor(private fixtures: CompletionFixture[], private source = 'fixtures') {
+    fixtures.forEach((fixture, i) => {
+      if (typeof fixture?.response !== 'string') {
+        throw new Error(`Fixture ${i} in ${source} has no response string`);
+      }
+      if (!fixture.purpose && !fixture.prompt_hash) {
+        throw new Error(`Fixture ${i} in ${source} needs a purpose or a prompt_hash`);
+      }
+    });
+  }
+
+  static fromFile(filePath: string): FixtureProvider {
+    let body: any;
+    try {
+      body = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot load LLM fixtures from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const fixtures = Array.isArray(body) ? body : body?.fixtures;
+    if (!Array.isArray(fixtures)) {
+      throw new Error(`LLM fixtures in ${filePath} must be an array or { "fixtures": [...] }`);
+    }
+    return new FixtureProvider(fixtures, filePath);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const key = fixtureKey(request);
+    const fixture = this.fixtures.find(f => f.prompt_hash === key)
+      ?? this.fixtures.find(f => !f.prompt_hash && f.purpose === request.purpose
+        && (!f.prompt_contains || request.prompt.includes(f.prompt_contains)));
+    if (!fixture) {
+      throw new Error(`No fixture for ${request.purpose} (prompt_hash ${key}) in ${this.source}`);
+    }
+    return { text: fixture.response, provider: this.kind, model: fixture.model ?? 'fixture', truncated: false };
+  }
+}
+
+function requireModel(config: LLMConfig): string {
+  if (!config.model) {
+    throw new Error(`The ${config.provider} provider requires SIX_SIGMA_LLM_MODEL`);
+  }
+  return config.model;
+}
+
+function providerError(kind: LLMProviderKind, request: CompletionRequest, error: unknown): Error {
+  const message = error instanceof Error
+    ? (error.name === 'TimeoutError' || error.name === 'AbortError' ? 'request timed out' : error.message)
+    : String(error);
+  return new Error(`${kind} provider failed to generate ${request.purpose}: ${message}`);
+}
@@ -0,0 +1,144 @@
+// LLM Response Parsing for Six Sigma MCP
+// Extracts every fenced code block annotated with a file path, keeping its language and rejecting unsafe paths,
+// and JSON answers to structured prompts
+
+import * as path from 'path';
+
+export interface ExtractedFile {
+  path: string;
+  language: string;
+  content: string;
+}
+
+export interface CodeBlock {
+  language: string;
+  content: string;
+  line: number; // 1-based line of the opening fence
+}
+
+export interface ExtractionResult {
+  files: ExtractedFile[];
+  unnamed_blocks: CodeBlock[]; // blocks without a file path, e.g. shell commands
+  rejected: { path: string; reason: string }[];
+}
+
+// Info-string attributes that name the file: ```ts title="src/x.ts"
+const PATH_ATTRIBUTE = /\b(?:title|file|filename|path)=(?:"([^"]+)"|'([^']+)'|(\S+))/i;
+// A path comment as the first line of the block or the line before the fence
+const PATH_COMMENT = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:path|file|filename)\s*:\s*(\S+?)\s*(?:\*\/|-->)?\s*$/i;
+// A line naming the file just before the fence: **src/x.ts**, ### src/x.ts or `src/x.ts`:
+const PATH_HEADING = /^\s*(?:#{1,6}\s+|\*\*|__)?(?:File:\s*)?`?([\w@.\-/]+\.[A-Za-z0-9]+)`?(?:\*\*|__)?:?\s*$/;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', rb: 'ruby', rs: 'rust', go: 'go', java: 'java', kt: 'kotlin', cs: 'csharp',
+  sh: 'shell', bash: 'shell', zsh: 'shell', yml: 'yaml', yaml: 'yaml', json: 'json', jsonc: 'json',
+  md: 'markdown', html: 'html', css: 'css', scss: 'scss', sql: 'sql', toml: 'toml', xml: 'xml',
+  dockerfile: 'dockerfile', env: 'dotenv'
+};
+
+export function extractCodeFiles(response: string): ExtractionResult {
+  const lines = response.split(/\r?\n/);
+  const files = new Map<string, ExtractedFile>();
+  const unnamed: CodeBlock[] = [];
+  const rejected: { path: string; reason: string }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = /^\s*(`{3,}|~{3,})\s*(.*)$/.exec(lines[i]);
+    if (!open) continue;
+
+    // Closed by a bare fence of the same character, at least as long as the opening one
+    const fence = open[1];
+    const closing = new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`);
+    const offset = lines.slice(i + 1).findIndex(line => closing.test(line));
+    // An unterminated fence runs to the end of the response (truncated generations)
+    const end = offset >= 0 ? i + 1 + offset : lines.length;
+    const info = open[2].trim();
+    let body = lines.slice(i + 1, end);
+
+    // ```ts:src/x.ts is a common shorthand for a language plus a path
+    const [languageToken = '', inlinePath] = (info.split(/\s+/)[0] ?? '').split(':');
+    const attribute = PATH_ATTRIBUTE.exec(info);
+    let filePath = attribute ? attribute[1] ?? attribute[2] ?? attribute[3] : inlinePath;
+
+    if (!filePath && body.length > 0 && PATH_COMMENT.test(body[0])) {
+      filePath = PATH_COMMENT.exec(body[0])![1];
+      body = body.slice(1);
+    }
+    if (!filePath) {
+      const previous = lines.slice(0, i).reverse().find(line => line.trim() !== '');
+      const match = previous !== undefined ? PATH_COMMENT.exec(previous) ?? PATH_HEADING.exec(previous) : null;
+      if (match) filePath = match[1];
+    }
+
+    const content = body.join('\n') + (body.length > 0 ? '\n' : '');
+    const language = normalizeLanguage(languageToken.includes('=') ? '' : languageToken, filePath);
+    if (!filePath) {
+      unnamed.push({ language, content, line: i + 1 });
+    } else {
+      const safe = safeRelativePath(filePath);
+      if (typeof safe === 'string') {
+        // A later block for the same path is a revision of the earlier one
+        files.set(safe, { path: safe, language, content });
+      } else {
+        rejected.push({ path: filePath, reason: safe.reason });
+      }
+    }
+    i = end;
+  }
+
+  return { files: Array.from(files.values()), unnamed_blocks: unnamed, rejected };
+}
+
+// The JSON value in a model reply: a ```json block, the whole reply, or the outermost {...} or [...] span
+export function extractJSON(response: string): unknown {
+  const fenced = /^\s*(`{3,}|~{3,})\s*json\b[^\n]*\n([\s\S]*?)\n\s*\1/im.exec(response);
+  const candidates = [fenced?.[2], response.trim()];
+  const start = response.search(/[[{]/);
+  if (start >= 0) {
+    const close = response[start] === '{' ? '}' : ']';
+    candidates.push(response.slice(start, response.lastIndexOf(close) + 1));
+  }
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Response contains no valid JSON');
+}
+
+// Relative, normalized POSIX path inside the project, or the reason it is unsafe
+export function safeRelativePath(filePath: string): string | { reason: string } {
+  if (filePath.includes('\0')) {
+    return { reason: 'contains a null byte' };
+  }
+  const posix = filePath.replace(/\\/g, '/');
+  if (posix.startsWith('/') || /^[A-Za-z]:/.test(posix) || posix.startsWith('~')) {
+    return { reason: 'absolute paths are not allowed' };
+  }
+  const normalized = path.posix.normalize(posix);
+  if (normalized === '..' || normalized.startsWith('../')) {
+    return { reason: 'path escapes the project directory' };
+  }
+  if (normalized === '.' || normalized.endsWith('/')) {
+    return { reason: 'not a file path' };
+  }
+  if (normalized.split('/').includes('.git')) {
+    return { reason: 'writes into .git are not allowed' };
+  }
+  return normalized;
+}
+
+function normalizeLanguage(token: string, filePath?: string): string {
+  const fromToken = token.trim().toLowerCase();
+  if (fromToken) return LANGUAGE_ALIASES[fromToken] ?? fromToken;
+  if (!filePath) return 'text';
+  const base = path.posix.basename(filePath.replace(/\\/g, '/')).toLowerCase();
+  if (base === 'dockerfile') return 'dockerfile';
+  const extension = base.includes('.') ? base.slice(base.lastIndexOf('.') + 1) : '';
+  return LANGUAGE_ALIASES[extension] ?? (extension || 'text');
+}
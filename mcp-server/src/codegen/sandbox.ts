@@ -0,0 +1,373 @@
+// Sandboxed Workspace for Six Sigma MCP
+// Writes generated files to a per-project directory and runs type-checking and tests in limited child processes.
+// On Linux each step runs in its own user, mount, PID and network namespaces (util-linux unshare), inside a root
+// holding only the system directories, Node and TypeScript read-only and the workspace read-write. Where that is
+// unavailable, generated code would run with the server's access to files and network, so it is refused unless
+// explicitly allowed.
+
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { safeRelativePath } from './response-parser.ts';
+
+export type SandboxStep = 'install' | 'typecheck' | 'test';
+
+export interface SandboxLimits {
+  timeout_ms: number;     // wall clock per step; the whole process group is killed when exceeded
+  cpu_seconds: number;    // RLIMIT_CPU on POSIX systems
+  max_memory_mb: number;  // V8 heap limit for Node-based tools; every process's address space gets 1 GB more
+  max_output_bytes: number; // tail of stdout/stderr kept per step
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeout_ms: 120_000,
+  cpu_seconds: 120,
+  max_memory_mb: 512,
+  max_output_bytes: 16_384
+};
+
+export interface SandboxOptions {
+  install_dependencies?: boolean; // npm install --ignore-scripts when package.json is present
+  test_command?: string[];        // overrides test detection, e.g. ["npx", "vitest", "run"]
+  limits?: Partial<SandboxLimits>;
+  allow_unisolated?: boolean;     // run without namespace isolation where it is unavailable
+}
+
+export interface StepResult {
+  step: SandboxStep;
+  command: string;
+  exit_code: number | null;
+  signal: string | null;
+  timed_out: boolean;
+  duration_ms: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface SandboxRun {
+  workspace: string;
+  files_written: number;
+  started_at: string;
+  steps: StepResult[];
+  typecheck?: { passed: boolean; errors: number };
+  tests?: { passed: boolean; total?: number; passed_count?: number; failed_count?: number };
+  succeeded: boolean; // every step exited cleanly and at least one test ran
+}
+
+const BUILD_DIR = '.sandbox-build';
+const TS_EXTENSIONS = /\.(ts|tsx|mts|cts)$/;
+const TEST_FILE = /(^|\/)(test|tests|__tests__)\/.*\.(m|c)?js$|\.(test|spec)\.(m|c)?js$/;
+const NPM_DEFAULT_TEST = 'echo "Error: no test specified" && exit 1';
+
+// Address space beyond the heap that Node needs for code and reservations
+const ADDRESS_SPACE_OVERHEAD_MB = 1024;
+
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64'];
+// Only the install step keeps network access, for the registry; it never runs package scripts
+const NETWORK_PATHS = ['/etc/resolv.conf', '/etc/hosts', '/etc/nsswitch.conf', '/etc/ssl', '/etc/ca-certificates'];
+
+// Runs inside the new namespaces: builds a root from read-only binds of the given paths, a tmpfs /tmp and the
+// workspace, then changes into it. Arguments: root, workspace, number of paths, the paths, then the command.
+const ISOLATE_SCRIPT = `set -e
+PATH="$PATH:/usr/sbin:/sbin"
+root=$1; workspace=$2; count=$3; shift 3
+mount -t tmpfs -o mode=755 sandbox "$root"
+while [ "$count" -gt 0 ]; do
+  source=$1; target=$root$1; shift; count=$((count - 1))
+  if [ -L "$source" ]; then
+    mkdir -p "$(dirname "$target")"; ln -s "$(readlink "$source")" "$target"
+  elif [ -d "$source" ]; then
+    mkdir -p "$target"; mount --rbind "$source" "$target"; mount -o remount,bind,ro "$target"
+  elif [ -e "$source" ]; then
+    mkdir -p "$(dirname "$target")"; touch "$target"; mount --bind "$source" "$target"; mount -o remount,bind,ro "$target"
+  fi
+done
+mkdir -p "$root/dev" "$root/proc" "$root/tmp"
+mount --rbind /dev "$root/dev"
+mount -t proc proc "$root/proc"
+mount -t tmpfs tmpfs "$root/tmp"
+mkdir -p "$root$workspace"
+mount --bind "$workspace" "$root$workspace"
+exec chroot "$root" /bin/sh -c 'cd "$0" && exec "$@"' "$workspace" "$@"`;
+
+interface Isolation {
+  network: boolean;
+  read_only: string[];
+}
+
+// The fields of a generated package.json the sandbox relies on, with non-string entries dropped
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+// Replace the project's workspace with exactly the given files
+export async function prepareWorkspace(
+  root: string,
+  projectId: string,
+  files: { path: string; content: string }[]
+): Promise<string> {
+  const workspace = path.resolve(root, projectId.replace(/[^\w-]/g, '_'));
+  await fs.rm(workspace, { recursive: true, force: true });
+  await fs.mkdir(workspace, { recursive: true });
+
+  for (const file of files) {
+    const relative = safeRelativePath(file.path);
+    if (typeof relative !== 'string') {
+      throw new Error(`Refusing to write ${file.path}: ${relative.reason}`);
+    }
+    const target = path.resolve(workspace, relative);
+    if (path.relative(workspace, target).startsWith('..')) {
+      throw new Error(`Refusing to write ${file.path}: path escapes the workspace`);
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, 'utf-8');
+  }
+  return workspace;
+}
+
+export async function runInSandbox(
+  root: string,
+  projectId: string,
+  files: { path: string; content: string }[],
+  options: SandboxOptions = {}
+): Promise<SandboxRun> {
+  const limits = { ...DEFAULT_SANDBOX_LIMITS, ...options.limits };
+  const isolated = await namespacesAvailable();
+  if (!isolated && !options.allow_unisolated) {
+    throw new Error('Building generated code needs Linux user and network namespaces (util-linux unshare), which are unavailable here. '
+      + 'Set SIX_SIGMA_ALLOW_UNISOLATED_BUILDS=1 to run it anyway with the server\'s access to files and network.');
+  }
+  const toolPaths = [path.dirname(path.dirname(process.execPath)), path.dirname(path.dirname(tscPath()))];
+  const isolation = (network: boolean): Isolation | undefined => isolated
+    ? { network, read_only: [...SYSTEM_PATHS, ...toolPaths, ...(network ? NETWORK_PATHS : [])] }
+    : undefined;
+
+  const startedAt = new Date().toISOString();
+  const workspace = await prepareWorkspace(root, projectId, files);
+  const paths = files.map(file => safeRelativePath(file.path) as string);
+  const steps: StepResult[] = [];
+  const packageJson = await readPackageJson(workspace);
+
+  if (options.install_dependencies && packageJson) {
+    steps.push(await runStep('install', npm(), ['install', '--ignore-scripts', '--no-audit', '--no-fund'], workspace, limits, isolation(true)));
+  }
+
+  // Type-check with the server's TypeScript, emitting JavaScript so compiled tests can run
+  let typecheck: SandboxRun['typecheck'];
+  const tsFiles = paths.filter(p => TS_EXTENSIONS.test(p) && !p.endsWith('.d.ts'));
+  if (tsFiles.length > 0) {
+    const compilerArgs = paths.includes('tsconfig.json')
+      ? ['-p', '.', '--noEmit', 'false', '--outDir', BUILD_DIR]
+      : ['--strict', '--skipLibCheck', '--esModuleInterop', '--target', 'ES2022', '--module', 'Node16',
+         '--moduleResolution', 'Node16', '--outDir', BUILD_DIR, ...tsFiles];
+    const result = await runStep('typecheck', process.execPath, [tscPath(), '--pretty', 'false', ...compilerArgs], workspace, limits, isolation(false));
+    steps.push(result);
+    const errors = (result.stdout.match(/error TS\d+:/g) ?? []).length;
+    typecheck = { passed: result.exit_code === 0 && !result.timed_out, errors };
+  }
+
+  let tests: SandboxRun['tests'];
+  const testCommand = options.test_command
+    ?? (typeof packageJson?.scripts?.test === 'string' && packageJson.scripts.test !== NPM_DEFAULT_TEST ? [npm(), 'test'] : undefined)
+    ?? await nodeTestCommand(workspace, paths);
+  if (testCommand) {
+    const result = await runStep('test', testCommand[0], testCommand.slice(1), workspace, limits, isolation(false));
+    steps.push(result);
+    tests = { passed: result.exit_code === 0 && !result.timed_out, ...testCounts(`${result.stdout}\n${result.stderr}`) };
+  }
+
+  return {
+    workspace,
+    files_written: files.length,
+    started_at: startedAt,
+    steps,
+    typecheck,
+    tests,
+    succeeded: tests !== undefined && steps.every(step => step.exit_code === 0 && !step.timed_out)
+  };
+}
+
+// Plain or compiled JavaScript test files run with Node's built-in test runner
+async function nodeTestCommand(workspace: string, paths: string[]): Promise<string[] | undefined> {
+  const compiled = await listFiles(path.join(workspace, BUILD_DIR));
+  const testFiles = [
+    ...paths.filter(p => TEST_FILE.test(p)),
+    ...compiled.map(p => `${BUILD_DIR}/${p}`).filter(p => TEST_FILE.test(p))
+  ];
+  return testFiles.length > 0 ? [process.execPath, '--test', '--test-reporter=tap', ...testFiles] : undefined;
+}
+
+async function runStep(
+  step: SandboxStep,
+  command: string,
+  args: string[],
+  cwd: string,
+  limits: SandboxLimits,
+  isolation?: Isolation
+): Promise<StepResult> {
+  // The isolated root is a tmpfs mounted over this directory inside the step's mount namespace
+  const root = isolation ? await fs.mkdtemp(path.join(os.tmpdir(), 'six-sigma-sandbox-')) : undefined;
+  try {
+    return await spawnStep(step, command, args, cwd, limits, isolation && root
+      ? ['unshare', '--user', '--map-root-user', '--mount', '--pid', '--fork', '--kill-child',
+         ...(isolation.network ? [] : ['--net']),
+         '/bin/sh', '-c', ISOLATE_SCRIPT, 'sandbox', root, cwd, String(isolation.read_only.length), ...isolation.read_only]
+      : []);
+  } finally {
+    if (root) await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+function spawnStep(step: SandboxStep, command: string, args: string[], cwd: string, limits: SandboxLimits, wrapper: string[]): Promise<StepResult> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    const posix = process.platform !== 'win32';
+    // POSIX: cap CPU time and address space with ulimit and run in its own process group so a timeout kills
+    // every descendant
+    const addressSpaceKb = (limits.max_memory_mb + ADDRESS_SPACE_OVERHEAD_MB) * 1024;
+    const [file, argv] = posix
+      ? ['/bin/sh', ['-c', `ulimit -t ${limits.cpu_seconds}; ulimit -v ${addressSpaceKb}; exec "$0" "$@"`, ...wrapper, command, ...args]]
+      : [command, args];
+    const child = spawn(file, argv, { cwd, env: sandboxEnv(cwd, limits), detached: posix, stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+    const tail = (buffer: string, chunk: Buffer) => (buffer + chunk.toString('utf-8')).slice(-limits.max_output_bytes);
+    child.stdout.on('data', chunk => { stdout = tail(stdout, chunk); });
+    child.stderr.on('data', chunk => { stderr = tail(stderr, chunk); });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (posix && child.pid) process.kill(-child.pid, 'SIGKILL');
+        else child.kill('SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }, limits.timeout_ms);
+
+    const finish = (exitCode: number | null, signal: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({
+        step,
+        command: [command, ...args].map(part => path.isAbsolute(part) ? path.basename(part) : part).join(' '),
+        exit_code: exitCode,
+        signal,
+        timed_out: timedOut,
+        duration_ms: Date.now() - started,
+        stdout,
+        stderr
+      });
+    };
+    child.on('error', error => {
+      stderr = tail(stderr, Buffer.from(error.message));
+      finish(null, null);
+    });
+    child.on('close', (code, signal) => finish(code, signal));
+  });
+}
+
+// Only what build tools need; server secrets such as API keys are not inherited
+function sandboxEnv(workspace: string, limits: SandboxLimits): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH,
+    HOME: workspace,
+    TMPDIR: workspace,
+    LANG: process.env.LANG ?? 'C.UTF-8',
+    CI: 'true',
+    NODE_ENV: 'test',
+    NODE_OPTIONS: [
+      `--max-old-space-size=${limits.max_memory_mb}`,
+      // WebAssembly (which fetch uses) otherwise reserves guard regions far beyond the address space limit
+      ...(process.allowedNodeEnvironmentFlags.has('--disable-wasm-trap-handler') ? ['--disable-wasm-trap-handler'] : [])
+    ].join(' '),
+    ...(process.platform === 'win32' ? { SystemRoot: process.env.SystemRoot, TEMP: workspace } : {})
+  };
+}
+
+let namespaceCheck: Promise<boolean> | undefined;
+
+// Whether this process may create the namespaces the steps run in; unprivileged user namespaces can be disabled
+function namespacesAvailable(): Promise<boolean> {
+  if (process.platform !== 'linux') {
+    return Promise.resolve(false);
+  }
+  namespaceCheck ??= new Promise(resolve => {
+    const child = spawn('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--fork', '--net', 'true'], { stdio: 'ignore' });
+    child.on('error', () => resolve(false));
+    child.on('close', code => resolve(code === 0));
+  });
+  return namespaceCheck;
+}
+
+// Summary lines from the node:test TAP reporter, Jest and Vitest
+function testCounts(output: string): { total?: number; passed_count?: number; failed_count?: number } {
+  const tap = { pass: /^# pass (\d+)/m.exec(output), fail: /^# fail (\d+)/m.exec(output), total: /^# tests (\d+)/m.exec(output) };
+  if (tap.pass && tap.fail) {
+    const passed = Number(tap.pass[1]);
+    const failed = Number(tap.fail[1]);
+    return { total: tap.total ? Number(tap.total[1]) : passed + failed, passed_count: passed, failed_count: failed };
+  }
+  const jest = /Tests:\s+(?:(\d+) failed, )?(?:\d+ skipped, )?(?:(\d+) passed, )?(\d+) total/.exec(output);
+  if (jest) {
+    return { total: Number(jest[3]), passed_count: Number(jest[2] ?? 0), failed_count: Number(jest[1] ?? 0) };
+  }
+  const vitest = /Tests\s+(?:(\d+) failed \| )?(\d+) passed(?: \| \d+ skipped)? \((\d+)\)/.exec(output);
+  if (vitest) {
+    return { total: Number(vitest[3]), passed_count: Number(vitest[2]), failed_count: Number(vitest[1] ?? 0) };
+  }
+  return {};
+}
+
+// The TypeScript compiler bundled with the server, resolved from its entry point
+function tscPath(): string {
+  const require = createRequire(process.argv[1] ? path.resolve(process.argv[1]) : path.join(process.cwd(), 'index.js'));
+  return require.resolve('typescript/bin/tsc');
+}
+
+function npm(): string {
+  return process.platform === 'win32' ? 'npm.cmd' : 'npm';
+}
+
+// Missing, unparsable or non-object manifests are treated as absent
+async function readPackageJson(workspace: string): Promise<PackageJson | undefined> {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(workspace, 'package.json'), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return undefined;
+  }
+  const { scripts, dependencies, devDependencies } = manifest as Record<string, unknown>;
+  return { scripts: stringMap(scripts), dependencies: stringMap(dependencies), devDependencies: stringMap(devDependencies) };
+}
+
+function stringMap(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const nested = await Promise.all(entries.map(entry => entry.isDirectory()
+    ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+    : Promise.resolve([`${prefix}${entry.name}`])));
+  return nested.flat();
+}
@@ -0,0 +1,319 @@
+// DMAIC Artifact Types for Six Sigma MCP
+// Project state and phase artifacts read and produced by the DMAIC engine, shared by the MCP server and the edge function
+
+import { CapabilityAssessment } from '../statistics/capability.ts';
+import { CorrelationMatrix, CorrelationMethod } from '../statistics/correlation.ts';
+import { GageRRResult } from '../statistics/gage-rr.ts';
+import { HypothesisTestResult } from '../statistics/hypothesis-tests.ts';
+import { NelsonRule } from '../statistics/nelson-rules.ts';
+import { RegressionResult } from '../statistics/regression.ts';
+import { ChartType, ControlChart } from '../statistics/spc.ts';
+
+export enum DMAICPhase {
+  NONE = "NONE",
+  DEFINE = "DEFINE",
+  MEASURE = "MEASURE",
+  ANALYZE = "ANALYZE",
+  IMPROVE = "IMPROVE", 
+  CONTROL = "CONTROL"
+}
+
+export interface DefineArtifacts {
+  voc_analysis: VOCAnalysis;
+  ctq_tree: CTQTree;
+  constraints: Constraints;
+  sipoc_diagram: SIPOCDiagram;
+}
+
+export interface VOCAnalysis {
+  functional_requirements: string[];
+  non_functional_requirements: string[];
+  priority_matrix: {
+    must_have: string[];
+    should_have: string[];
+    nice_to_have: string[];
+  };
+  stakeholder_needs: Record<string, string[]>;
+  classified_by: string; // LLM provider and model, or 'keyword rules'
+  draft_error?: string; // why the LLM classification was not used
+}
+
+export interface RequirementClassification {
+  type: 'functional' | 'non_functional';
+  priority: 'must_have' | 'should_have' | 'nice_to_have';
+}
+
+export interface CTQTree {
+  performance: Record<string, { target: number; usl: number; lsl?: number }>;
+  reliability: Record<string, { target: number; usl: number; lsl?: number }>;
+  usability: Record<string, { target: number; usl: number; lsl?: number }>;
+  security: Record<string, { target: number; usl: number; lsl?: number }>;
+}
+
+export interface Constraints {
+  deployment: string;
+  budget: number;
+  technical: {
+    framework?: string;
+    language?: string;
+    platform?: string;
+  };
+  timeline: {
+    deadline?: string;
+    milestones?: Record<string, string>;
+  };
+}
+export interface SIPOCDiagram {
+  suppliers: string[];
+  inputs: string[];
+  process_steps: string[];
+  outputs: string[];
+  customers: string[];
+}
+
+export interface MeasureArtifacts {
+  kpis: KPI[];
+  baselines: Record<string, Baseline>;
+  measurement_system_analysis?: MSAResults;
+  data_collection_plan: DataCollectionPlan;
+}
+
+export interface KPI {
+  name: string;
+  description: string;
+  unit: string;
+  target: number;
+  current_value?: number;
+  measurement_frequency: string;
+  ctq_metric?: string; // CTQ tree key the KPI was derived from
+  spec_limits?: { target: number; usl?: number; lsl?: number };
+}
+
+export interface Baseline {
+  metric_name: string;
+  baseline_value: number;
+  measurement_date: string;
+  sample_size: number; // observations behind the baseline; 0 when estimated without data
+  required_sample_size?: number; // for the requested confidence and margin of error
+  confidence_level?: number;
+  confidence_interval?: [number, number];
+}
+
+export interface MSAResults extends GageRRResult {
+  metric?: string; // KPI the gage study measured
+}
+
+export interface DataCollectionPlan {
+  metrics: string[];
+  collection_methods: Record<string, string>;
+  frequency: Record<string, string>;
+  responsible_parties: Record<string, string>;
+}
+export interface AnalyzeArtifacts {
+  root_cause_analysis: RootCauseAnalysis;
+  fmea: FMEA[];
+  statistical_analysis: StatisticalAnalysis;
+  process_capability: ProcessCapability;
+}
+
+export interface RootCauseAnalysis {
+  fishbone_categories: Record<string, string[]>;
+  five_whys: Record<string, string[]>;
+  pareto_analysis: { issue: string; frequency: number; impact: number }[];
+  critical_xs: string[]; // Critical input variables
+  drafted_by: string; // LLM provider and model for fishbone causes and five whys, or 'templates'
+  draft_error?: string;
+}
+
+export interface FMEA {
+  failure_mode: string;
+  effects: string[];
+  severity: number;
+  causes: string[];
+  occurrence: number;
+  current_controls: string[];
+  detection: number;
+  rpn: number; // Risk Priority Number
+  recommended_actions: string[];
+}
+
+export interface StatisticalAnalysis {
+  hypothesis_tests: Record<string, HypothesisTestResult>;
+  correlation_analysis?: CorrelationMatrix;
+  regression_results?: RegressionResult;
+}
+
+export interface RegressionRequest {
+  response: string; // KPI (Y) column
+  predictors?: string[]; // candidate X columns; defaults to every other column
+  data?: Record<string, number[]>;
+  dataset_id?: string; // use an imported dataset's KPI and X columns instead of data
+  significance_level?: number;
+  correlation_method?: CorrelationMethod;
+}
+export interface DatasetGrouping {
+  dataset_id?: string;
+  column?: string;   // KPI key or X column holding the response
+  group_by?: string; // factor column; groups follow first appearance order
+}
+export interface ProcessCapability {
+  kpis: Record<string, CapabilityAssessment>; // method, normality evidence and indices per KPI
+  unassessed_kpis: Record<string, string>; // KPI name -> reason capability could not be computed
+}
+
+export interface ImproveArtifacts {
+  proposed_solutions: Solution[];
+  solutions_generated_by: string; // LLM provider and model, or 'templates'
+  solutions_draft_error?: string;
+  pilot_results: PilotResults;
+  implementation_plan: ImplementationPlan;
+  claude_generated_code?: GeneratedCodeEvidence;
+}
+
+export interface Solution {
+  id: string;
+  title?: string; // set when the solution was edited in the dashboard
+  description: string;
+  status?: 'proposed' | 'approved' | 'implemented';
+  impact_analysis: {
+    expected_improvement: Record<string, number>;
+    cost: number;
+    implementation_time: string;
+    risks: string[];
+  };
+  poka_yoke_mechanisms: string[]; // Error-proofing mechanisms
+}
+
+export interface PilotResults {
+  solution_id: string;
+  method: 'observed' | 'load_test' | 'build' | 'projected'; // observed: split of recorded observations at pilot_start
+  pilot_start?: string;
+  build?: BuildEvidence; // generated code written to a workspace, type-checked and tested
+  metrics_before: Record<string, number>;
+  metrics_after: Record<string, number>;
+  p_values?: Record<string, number>; // Welch t-test of before vs after observations
+  success: boolean;
+  lessons_learned: string[];
+}
+
+// What the Improve gate and pilot judge of generated code and its sandboxed build; the MCP server records the full results
+export interface GeneratedCodeEvidence {
+  quality_metrics: { test_coverage?: number };
+  ctq_compliance: Record<string, boolean>;
+}
+
+export interface BuildEvidence {
+  typecheck?: { passed: boolean; errors: number };
+  tests?: { passed: boolean; total?: number; passed_count?: number; failed_count?: number };
+  succeeded: boolean;
+}
+
+export interface ImplementationPlan {
+  phases: { name: string; tasks: string[]; duration: string }[];
+  resources_required: string[];
+  training_plan: string[];
+  rollback_strategy: string[];
+}
+
+export interface ControlArtifacts {
+  control_plan: ControlPlan;
+  monitoring_dashboard: MonitoringDashboard;
+  documentation: Documentation;
+  training_materials: string[];
+  signals: ControlSignal[];
+}
+
+export interface ControlPlan {
+  control_items: ControlItem[];
+  response_plans: Record<string, string[]>;
+  audit_schedule: { frequency: string; scope: string[] }[];
+}
+
+export interface ControlItem {
+  metric: string;
+  specification_limits: { usl?: number; lsl?: number; target: number };
+  control_limits?: { center_line: number; ucl: number | number[]; lcl: number | number[] }; // phase-I limits of the primary chart
+  measurement_method: string;
+  sample_size: number;
+  frequency: string;
+  responsible_party: string;
+  reaction_plan: string[];
+  nelson_rules: NelsonRule[]; // rules evaluated against this metric's chart
+}
+
+export interface ControlSignal {
+  metric: string;
+  rule: NelsonRule;
+  description: string;
+  points: { index: number; value: number }[];
+  source: 'phase_one' | 'monitoring'; // phase-I signals mean the limits may include special causes
+  reaction_plan: string[];
+  detected_at: string;
+}
+export interface MonitoringDashboard {
+  key_metrics: string[];
+  control_charts: { metric: string; type: ChartType; chart?: ControlChart }[];
+  alert_thresholds: Record<string, { warning: number; critical: number }>;
+  reporting_frequency: string;
+}
+
+export interface Documentation {
+  process_documentation: string[];
+  technical_documentation: string[];
+  user_guides: string[];
+  api_documentation?: string[];
+}
+
+export interface QualityGateResults {
+  define?: QualityGateResult;
+  measure?: QualityGateResult;
+  analyze?: QualityGateResult;
+  improve?: QualityGateResult;
+  control?: QualityGateResult;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  criteria_results: Record<string, boolean>;
+  missing_items: string[];
+  recommendations: string[];
+}
+
+// The project fields the engine reads; phase runs write their artifacts, gate result and next phase back into it
+export interface PhaseProject {
+  id: string;
+  name: string;
+  business_case: string;
+  requirements: string[];
+  deployment_target: string;
+  budget_limit: number;
+  current_phase: DMAICPhase;
+  artifacts: PhaseArtifacts;
+  quality_gates: QualityGateResults;
+  datasets: Record<string, DatasetColumns>;
+}
+
+export interface PhaseArtifacts {
+  define?: DefineArtifacts;
+  measure?: MeasureArtifacts;
+  analyze?: AnalyzeArtifacts;
+  improve?: ImproveArtifacts;
+  control?: ControlArtifacts;
+  delivery?: { hotspots: HotspotEvidence[] };
+  load_tests?: { stage: 'baseline' | 'pilot' }[];
+}
+
+// A file's churn from git history analysis, weighted in the Pareto by how often its changes were fixed
+export interface HotspotEvidence {
+  path: string;
+  commits: number;
+  fix_commits: number;
+}
+
+// Numeric and factor columns of an imported dataset
+export interface DatasetColumns {
+  id: string;
+  kpis: Record<string, number[]>;
+  xs: Record<string, number[]>;
+  factors: Record<string, string[]>;
+}
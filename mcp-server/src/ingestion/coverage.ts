@@ -0,0 +1,171 @@
+// Coverage Report Ingestion for Six Sigma MCP
+// Parses lcov tracefiles and Istanbul JSON (coverage-final / coverage-summary) into line and branch coverage
+
+export interface FileCoverage {
+  path: string;
+  lines_found: number;
+  lines_hit: number;
+  branches_found: number;
+  branches_hit: number;
+  functions_found: number;
+  functions_hit: number;
+}
+
+export interface CoverageReport {
+  format: 'lcov' | 'istanbul';
+  files: FileCoverage[];
+  lines_found: number;
+  lines_hit: number;
+  branches_found: number;
+  branches_hit: number;
+  line_coverage: number;   // percentage
+  branch_coverage: number; // percentage; 100 when there are no branches
+}
+
+export function parseLcov(text: string): CoverageReport {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | undefined;
+  // Detail records (DA/BRDA/FNDA) are used when the summary totals (LF/LH/BRF/BRH) are absent
+  let lineHits = new Map<number, number>();
+  let branchHits: number[] = [];
+  let functionHits = new Map<string, number>();
+  let totals: Partial<FileCoverage> = {};
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('TN:')) return;
+    const separator = line.indexOf(':');
+    const key = separator >= 0 ? line.slice(0, separator) : line;
+    const value = separator >= 0 ? line.slice(separator + 1) : '';
+
+    if (key === 'SF') {
+      current = { path: value, lines_found: 0, lines_hit: 0, branches_found: 0, branches_hit: 0, functions_found: 0, functions_hit: 0 };
+      lineHits = new Map();
+      branchHits = [];
+      functionHits = new Map();
+      totals = {};
+      return;
+    }
+    if (!current) {
+      throw new Error(`lcov line ${i + 1}: record outside a source file section`);
+    }
+
+    switch (key) {
+      case 'DA': {
+        const [lineNumber, count] = value.split(',');
+        lineHits.set(Number(lineNumber), Math.max(lineHits.get(Number(lineNumber)) ?? 0, Number(count) || 0));
+        break;
+      }
+      case 'BRDA': {
+        const taken = value.split(',')[3];
+        branchHits.push(taken === '-' ? 0 : Number(taken) || 0);
+        break;
+      }
+      case 'FNDA': {
+        const [count, name] = value.split(',');
+        functionHits.set(name, Math.max(functionHits.get(name) ?? 0, Number(count) || 0));
+        break;
+      }
+      case 'LF': totals.lines_found = Number(value); break;
+      case 'LH': totals.lines_hit = Number(value); break;
+      case 'BRF': totals.branches_found = Number(value); break;
+      case 'BRH': totals.branches_hit = Number(value); break;
+      case 'FNF': totals.functions_found = Number(value); break;
+      case 'FNH': totals.functions_hit = Number(value); break;
+      case 'end_of_record':
+        current.lines_found = totals.lines_found ?? lineHits.size;
+        current.lines_hit = totals.lines_hit ?? countCovered(lineHits.values());
+        current.branches_found = totals.branches_found ?? branchHits.length;
+        current.branches_hit = totals.branches_hit ?? countCovered(branchHits);
+        current.functions_found = totals.functions_found ?? functionHits.size;
+        current.functions_hit = totals.functions_hit ?? countCovered(functionHits.values());
+        files.push(current);
+        current = undefined;
+        break;
+    }
+  });
+
+  if (current) {
+    throw new Error(`lcov section for ${current.path} is missing end_of_record`);
+  }
+  return summarize('lcov', files);
+}
+
+// coverage-final.json (per-file hit maps) or coverage-summary.json (per-file totals)
+export function parseIstanbul(json: string): CoverageReport {
+  let body: Record<string, any>;
+  try {
+    body = JSON.parse(json);
+  } catch {
+    throw new Error('Istanbul coverage is not valid JSON');
+  }
+
+  const files = Object.entries(body)
+    .filter(([key]) => key !== 'total')
+    .map(([key, entry]) => entry.statementMap ? finalFileCoverage(entry.path ?? key, entry) : summaryFileCoverage(key, entry));
+  return summarize('istanbul', files);
+}
+
+function finalFileCoverage(filePath: string, entry: any): FileCoverage {
+  // A line is covered when any statement starting on it executed
+  const lineHits = new Map<number, number>();
+  Object.entries(entry.statementMap as Record<string, any>).forEach(([id, location]) => {
+    const lineNumber = location.start.line;
+    lineHits.set(lineNumber, Math.max(lineHits.get(lineNumber) ?? 0, entry.s?.[id] ?? 0));
+  });
+  const branchHits = Object.values((entry.b ?? {}) as Record<string, number[]>).flat();
+  const functionHits = Object.values((entry.f ?? {}) as Record<string, number>);
+
+  return {
+    path: filePath,
+    lines_found: lineHits.size,
+    lines_hit: countCovered(lineHits.values()),
+    branches_found: branchHits.length,
+    branches_hit: countCovered(branchHits),
+    functions_found: functionHits.length,
+    functions_hit: countCovered(functionHits)
+  };
+}
+
+function summaryFileCoverage(filePath: string, entry: any): FileCoverage {
+  if (!entry?.lines) {
+    throw new Error(`Istanbul entry for ${filePath} has neither statementMap nor a lines summary`);
+  }
+  return {
+    path: filePath,
+    lines_found: entry.lines.total ?? 0,
+    lines_hit: entry.lines.covered ?? 0,
+    branches_found: entry.branches?.total ?? 0,
+    branches_hit: entry.branches?.covered ?? 0,
+    functions_found: entry.functions?.total ?? 0,
+    functions_hit: entry.functions?.covered ?? 0
+  };
+}
+
+function summarize(format: CoverageReport['format'], files: FileCoverage[]): CoverageReport {
+  if (files.length === 0) {
+    throw new Error('Coverage report contains no source files');
+  }
+  const sum = (key: keyof Omit<FileCoverage, 'path'>) => files.reduce((total, file) => total + file[key], 0);
+  const linesFound = sum('lines_found');
+  const branchesFound = sum('branches_found');
+
+  return {
+    format,
+    files,
+    lines_found: linesFound,
+    lines_hit: sum('lines_hit'),
+    branches_found: branchesFound,
+    branches_hit: sum('branches_hit'),
+    line_coverage: linesFound > 0 ? sum('lines_hit') / linesFound * 100 : 0,
+    branch_coverage: branchesFound > 0 ? sum('branches_hit') / branchesFound * 100 : 100
+  };
+}
+
+function countCovered(counts: Iterable<number>): number {
+  let covered = 0;
+  for (const count of counts) {
+    if (count > 0) covered++;
+  }
+  return covered;
+}
@@ -0,0 +1,252 @@
+// Dataset Import for Six Sigma MCP
+// CSV and JSON Lines parsing with column mapping, type checks and unit conversion
+
+export type DatasetFormat = 'csv' | 'jsonl';
+
+export interface ColumnMapping {
+  kpis?: Record<string, string>; // column -> KPI name or CTQ metric
+  xs?: string[];                 // numeric candidate X columns
+  factors?: string[];            // categorical columns, e.g. operator or region
+  subgroup?: string;
+  timestamp?: string;
+  units?: Record<string, string>; // column -> unit the values are recorded in
+}
+
+export interface DatasetOptions {
+  delimiter?: string;
+  // KPI key -> unit the project tracks it in; KPI columns are converted to it
+  target_units?: Record<string, string>;
+}
+
+export interface Dataset {
+  format: DatasetFormat;
+  row_count: number;
+  kpis: Record<string, number[]>;
+  xs: Record<string, number[]>;
+  factors: Record<string, string[]>;
+  subgroups?: string[];
+  timestamps?: string[];
+  units: Record<string, string>; // KPI key or X column -> unit after conversion
+}
+
+// A dataset as stored on a project
+export interface ProjectDataset extends Dataset {
+  id: string;
+  name: string;
+  source: string; // file path, or 'inline'
+  mapping: ColumnMapping;
+  imported_at: string;
+}
+
+type Row = Record<string, unknown>;
+
+const MAX_REPORTED_ERRORS = 10;
+
+// Multiplicative factors to a base unit per dimension
+const UNIT_SCALES: Record<string, { dimension: string; scale: number }> = {
+  us: { dimension: 'time', scale: 1e-6 },
+  ms: { dimension: 'time', scale: 1e-3 },
+  s: { dimension: 'time', scale: 1 },
+  seconds: { dimension: 'time', scale: 1 },
+  min: { dimension: 'time', scale: 60 },
+  minutes: { dimension: 'time', scale: 60 },
+  hours: { dimension: 'time', scale: 3600 },
+  '%': { dimension: 'proportion', scale: 0.01 },
+  ratio: { dimension: 'proportion', scale: 1 },
+  fraction: { dimension: 'proportion', scale: 1 },
+  b: { dimension: 'bytes', scale: 1 },
+  kb: { dimension: 'bytes', scale: 1024 },
+  mb: { dimension: 'bytes', scale: 1024 ** 2 },
+  gb: { dimension: 'bytes', scale: 1024 ** 3 }
+};
+
+export function parseDataset(
+  text: string,
+  format: DatasetFormat,
+  mapping: ColumnMapping,
+  options: DatasetOptions = {}
+): Dataset {
+  const rows = format === 'csv' ? csvRows(text, options.delimiter ?? ',') : jsonLines(text);
+  if (rows.length === 0) {
+    throw new Error('Dataset contains no data rows');
+  }
+
+  const kpiColumns = Object.entries(mapping.kpis ?? {});
+  const xs = mapping.xs ?? [];
+  const factors = mapping.factors ?? [];
+  if (kpiColumns.length === 0 && xs.length === 0) {
+    throw new Error('Column mapping must name at least one KPI or X column');
+  }
+  const mapped = [
+    ...kpiColumns.map(([column]) => column), ...xs, ...factors,
+    ...(mapping.subgroup ? [mapping.subgroup] : []),
+    ...(mapping.timestamp ? [mapping.timestamp] : [])
+  ];
+  const missing = mapped.filter(column => !rows.some(row => column in row));
+  if (missing.length > 0) {
+    throw new Error(`Columns not found in dataset: ${missing.join(', ')}`);
+  }
+
+  const errors: string[] = [];
+  const numeric = (column: string) => rows.map((row, i) => {
+    const value = toNumber(row[column]);
+    if (value === undefined) errors.push(`row ${i + 1}, column "${column}": expected a number, got ${JSON.stringify(row[column] ?? null)}`);
+    return value ?? NaN;
+  });
+
+  const dataset: Dataset = { format, row_count: rows.length, kpis: {}, xs: {}, factors: {}, units: {} };
+
+  kpiColumns.forEach(([column, kpi]) => {
+    const declared = mapping.units?.[column];
+    const target = options.target_units?.[kpi];
+    const values = numeric(column);
+    if (declared && target && normalizeUnit(declared) !== normalizeUnit(target)) {
+      const factor = unitConversionFactor(declared, target);
+      dataset.kpis[kpi] = values.map(v => v * factor);
+    } else {
+      dataset.kpis[kpi] = values;
+    }
+    const unit = target ?? declared;
+    if (unit) dataset.units[kpi] = unit;
+  });
+
+  xs.forEach(column => {
+    dataset.xs[column] = numeric(column);
+    if (mapping.units?.[column]) dataset.units[column] = mapping.units[column];
+  });
+
+  factors.forEach(column => {
+    dataset.factors[column] = rows.map((row, i) => {
+      const value = row[column];
+      if (value === undefined || value === null || value === '') errors.push(`row ${i + 1}, column "${column}": missing value`);
+      return String(value ?? '');
+    });
+  });
+
+  if (mapping.subgroup) {
+    dataset.subgroups = rows.map(row => String(row[mapping.subgroup!] ?? ''));
+  }
+
+  if (mapping.timestamp) {
+    dataset.timestamps = rows.map((row, i) => {
+      const time = toTimestamp(row[mapping.timestamp!]);
+      if (!time) errors.push(`row ${i + 1}, column "${mapping.timestamp}": invalid timestamp ${JSON.stringify(row[mapping.timestamp!] ?? null)}`);
+      return time ?? '';
+    });
+  }
+
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw new Error(`Dataset validation failed: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${more}`);
+  }
+  return dataset;
+}
+
+// Factor that converts a value in `from` units into `to` units
+export function unitConversionFactor(from: string, to: string): number {
+  const source = UNIT_SCALES[normalizeUnit(from)];
+  const target = UNIT_SCALES[normalizeUnit(to)];
+  if (!source || !target || source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  return source.scale / target.scale;
+}
+
+export function inferFormat(pathOrName: string): DatasetFormat | undefined {
+  const lower = pathOrName.toLowerCase();
+  if (lower.endsWith('.csv') || lower.endsWith('.tsv')) return 'csv';
+  if (lower.endsWith('.jsonl') || lower.endsWith('.ndjson')) return 'jsonl';
+  return undefined;
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, newlines and doubled quotes
+function csvRows(text: string, delimiter: string): Row[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+  const header = nonEmpty[0].map(cell => cell.trim().replace(/^\uFEFF/, ''));
+  return nonEmpty.slice(1).map((cells, i) => {
+    if (cells.length !== header.length) {
+      throw new Error(`CSV row ${i + 1} has ${cells.length} fields; header has ${header.length}`);
+    }
+    return Object.fromEntries(header.map((column, c) => [column, cells[c].trim()]));
+  });
+}
+
+function jsonLines(text: string): Row[] {
+  return text.split(/\r?\n/).flatMap((line, i) => {
+    if (line.trim() === '') return [];
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1} is not valid JSON`);
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Line ${i + 1} must be a JSON object`);
+    }
+    return [value as Row];
+  });
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// ISO strings, or epoch seconds / milliseconds
+function toTimestamp(value: unknown): string | undefined {
+  const epoch = toNumber(value);
+  if (epoch !== undefined) {
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch).toISOString();
+  }
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.trim().toLowerCase();
+}
@@ -0,0 +1,241 @@
+// Git History Analysis for Six Sigma MCP
+// DORA delivery metrics (deployment frequency, lead time, change failure rate) and churn hotspots from a local repository
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { median } from '../statistics/descriptive.ts';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitCommit {
+  hash: string;
+  parents: string[];
+  author_time: number; // epoch seconds
+  commit_time: number;
+  subject: string;
+  files: { path: string; added: number; deleted: number }[];
+}
+
+export interface GitTag {
+  name: string;
+  commit: string;
+  time: number; // epoch seconds; tagger date for annotated tags
+}
+
+export interface GitHistoryOptions {
+  since?: string;            // passed to git log --since
+  max_commits?: number;
+  deploy_tag_pattern?: string;     // tags that mark a production deployment
+  release_commit_pattern?: string; // commit subjects that mark a deployment when there are no tags
+  failure_pattern?: string;        // commit subjects that remediate a failed change
+  hotspot_limit?: number;
+}
+
+export interface Deployment {
+  ref: string; // tag name or release commit hash
+  commit: string;
+  deployed_at: string;
+  commits: number;
+  lead_time_hours: number | null; // median commit-to-deploy time of the commits it shipped
+  failed: boolean;                // the next deployment shipped a revert or hotfix
+}
+
+export interface ChurnHotspot {
+  path: string;
+  commits: number;
+  lines_added: number;
+  lines_deleted: number;
+  fix_commits: number; // commits matching the failure pattern that touched the file
+}
+
+export interface GitHistoryAnalysis {
+  repository: string;
+  analyzed_at: string;
+  commit_count: number;
+  deployment_source: 'tags' | 'release_commits' | 'none';
+  deployments: Deployment[];
+  deployment_frequency_per_week: number;
+  weekly_deployments: { week_start: string; deployments: number }[];
+  median_lead_time_hours: number | null;
+  change_failure_rate: number; // percentage of deployments followed by remediation
+  hotspots: ChurnHotspot[];
+}
+
+const DEFAULT_DEPLOY_TAG = '^v?\\d+\\.\\d+(\\.\\d+)?$';
+const DEFAULT_RELEASE_COMMIT = '^(release\\b|chore\\(release\\))';
+const DEFAULT_FAILURE = '^revert\\b|hotfix|^fix\\(prod\\)|rollback';
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const MAX_BUFFER = 64 * 1024 * 1024;
+const GIT_TIMEOUT_MS = 60_000;
+const WEEK_SECONDS = 7 * 24 * 3600;
+
+export async function analyzeGitHistory(repoPath: string, options: GitHistoryOptions = {}): Promise<GitHistoryAnalysis> {
+  const logArgs = [
+    '-C', repoPath, 'log', 'HEAD', '--tags', '--no-renames', '--numstat',
+    `--pretty=format:${RECORD}%H${FIELD}%P${FIELD}%at${FIELD}%ct${FIELD}%s`,
+    '-n', String(options.max_commits ?? 5000)
+  ];
+  if (options.since) logArgs.push(`--since=${options.since}`);
+
+  const [log, tags] = await Promise.all([
+    git(logArgs),
+    git(['-C', repoPath, 'for-each-ref', 'refs/tags',
+      `--format=%(refname:short)${FIELD}%(*objectname)${FIELD}%(objectname)${FIELD}%(creatordate:unix)`])
+  ]);
+
+  return analyzeCommits(repoPath, parseGitLog(log), parseTags(tags), options);
+}
+
+export function parseGitLog(output: string): GitCommit[] {
+  return output.split(RECORD).filter(chunk => chunk.trim() !== '').map(chunk => {
+    const [header, ...statLines] = chunk.split('\n');
+    const [hash, parents, authorTime, commitTime, subject] = header.split(FIELD);
+    return {
+      hash,
+      parents: parents ? parents.split(' ') : [],
+      author_time: Number(authorTime),
+      commit_time: Number(commitTime),
+      subject: subject ?? '',
+      files: statLines.filter(line => line.trim() !== '').map(line => {
+        const [added, deleted, ...pathParts] = line.split('\t');
+        // Binary files report "-" for line counts
+        return { path: pathParts.join('\t'), added: Number(added) || 0, deleted: Number(deleted) || 0 };
+      })
+    };
+  });
+}
+
+export function analyzeCommits(
+  repository: string,
+  commits: GitCommit[],
+  tags: GitTag[],
+  options: GitHistoryOptions = {}
+): GitHistoryAnalysis {
+  const byHash = new Map(commits.map(commit => [commit.hash, commit]));
+  const failure = new RegExp(options.failure_pattern ?? DEFAULT_FAILURE, 'i');
+
+  // Deployments from matching tags, else from release commits
+  const tagPattern = new RegExp(options.deploy_tag_pattern ?? DEFAULT_DEPLOY_TAG);
+  let source: GitHistoryAnalysis['deployment_source'] = 'tags';
+  let markers = tags
+    .filter(tag => tagPattern.test(tag.name) && byHash.has(tag.commit))
+    .map(tag => ({ ref: tag.name, commit: tag.commit, time: tag.time }));
+  if (markers.length === 0) {
+    const release = new RegExp(options.release_commit_pattern ?? DEFAULT_RELEASE_COMMIT, 'i');
+    markers = commits
+      .filter(commit => release.test(commit.subject))
+      .map(commit => ({ ref: commit.hash.slice(0, 12), commit: commit.hash, time: commit.commit_time }));
+    source = markers.length > 0 ? 'release_commits' : 'none';
+  }
+  markers.sort((a, b) => a.time - b.time);
+
+  // Each deployment ships the commits reachable from it that no earlier deployment shipped
+  const shipped = new Set<string>();
+  const shippedBy = markers.map(marker => {
+    const included: GitCommit[] = [];
+    const stack = [marker.commit];
+    while (stack.length > 0) {
+      const hash = stack.pop()!;
+      const commit = byHash.get(hash);
+      if (!commit || shipped.has(hash)) continue;
+      shipped.add(hash);
+      included.push(commit);
+      stack.push(...commit.parents);
+    }
+    return included;
+  });
+
+  const deployments: Deployment[] = markers.map((marker, i) => {
+    const leadTimes = shippedBy[i].map(commit => Math.max(0, marker.time - commit.commit_time) / 3600);
+    return {
+      ref: marker.ref,
+      commit: marker.commit,
+      deployed_at: new Date(marker.time * 1000).toISOString(),
+      commits: shippedBy[i].length,
+      lead_time_hours: leadTimes.length > 0 ? median(leadTimes) : null,
+      failed: i + 1 < markers.length && shippedBy[i + 1].some(commit => failure.test(commit.subject))
+    };
+  });
+
+  // The last deployment cannot be judged until a later one ships
+  const judged = deployments.slice(0, -1);
+  const allLeadTimes = shippedBy.flatMap((included, i) =>
+    included.map(commit => Math.max(0, markers[i].time - commit.commit_time) / 3600));
+
+  return {
+    repository,
+    analyzed_at: new Date().toISOString(),
+    commit_count: commits.length,
+    deployment_source: source,
+    deployments,
+    deployment_frequency_per_week: deploymentFrequency(markers.map(m => m.time)),
+    weekly_deployments: weeklyCounts(markers.map(m => m.time)),
+    median_lead_time_hours: allLeadTimes.length > 0 ? median(allLeadTimes) : null,
+    change_failure_rate: judged.length > 0 ? judged.filter(d => d.failed).length / judged.length * 100 : 0,
+    hotspots: churnHotspots(commits, failure, options.hotspot_limit ?? 10)
+  };
+}
+
+function parseTags(output: string): GitTag[] {
+  return output.split('\n').filter(line => line.trim() !== '').map(line => {
+    // Annotated tags dereference (*objectname) to the commit; lightweight tags point at it directly
+    const [name, peeled, object, time] = line.split(FIELD);
+    return { name, commit: peeled || object, time: Number(time) };
+  });
+}
+
+// Deployments per week over the span from the first deployment to the last
+function deploymentFrequency(times: number[]): number {
+  if (times.length < 2) return times.length;
+  const weeks = Math.max(1, (times[times.length - 1] - times[0]) / WEEK_SECONDS);
+  return times.length / weeks;
+}
+
+// Calendar weeks (starting Monday, UTC) including weeks without deployments
+function weeklyCounts(times: number[]): { week_start: string; deployments: number }[] {
+  if (times.length === 0) return [];
+  const weekOf = (time: number) => {
+    const date = new Date(time * 1000);
+    const day = (date.getUTCDay() + 6) % 7;
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day) / 1000;
+  };
+  const counts = new Map<number, number>();
+  times.forEach(time => counts.set(weekOf(time), (counts.get(weekOf(time)) ?? 0) + 1));
+
+  const weeks: { week_start: string; deployments: number }[] = [];
+  for (let week = weekOf(times[0]); week <= weekOf(times[times.length - 1]); week += WEEK_SECONDS) {
+    weeks.push({ week_start: new Date(week * 1000).toISOString(), deployments: counts.get(week) ?? 0 });
+  }
+  return weeks;
+}
+
+function churnHotspots(commits: GitCommit[], failure: RegExp, limit: number): ChurnHotspot[] {
+  const files = new Map<string, ChurnHotspot>();
+  commits.forEach(commit => {
+    const isFix = failure.test(commit.subject);
+    commit.files.forEach(file => {
+      const hotspot = files.get(file.path) ?? { path: file.path, commits: 0, lines_added: 0, lines_deleted: 0, fix_commits: 0 };
+      hotspot.commits++;
+      hotspot.lines_added += file.added;
+      hotspot.lines_deleted += file.deleted;
+      if (isFix) hotspot.fix_commits++;
+      files.set(file.path, hotspot);
+    });
+  });
+
+  return Array.from(files.values())
+    .sort((a, b) => b.commits - a.commits || (b.lines_added + b.lines_deleted) - (a.lines_added + a.lines_deleted))
+    .slice(0, limit);
+}
+
+async function git(args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { maxBuffer: MAX_BUFFER, timeout: GIT_TIMEOUT_MS });
+    return stdout;
+  } catch (error: any) {
+    // Report git's own diagnostic rather than the command line, which embeds the format separators
+    const message = String(error?.stderr ?? '').trim().split('\n')[0] || (error?.killed ? 'timed out' : error?.message);
+    throw new Error(`git ${args[2]} failed: ${message}`);
+  }
+}
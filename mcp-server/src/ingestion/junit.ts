@@ -0,0 +1,189 @@
+// JUnit Report Ingestion for Six Sigma MCP
+// Parses JUnit XML test reports and summarizes pass rate, flaky candidates and defects per opportunity
+
+export type TestStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface TestCaseResult {
+  id: string; // classname + name, stable across runs
+  suite: string;
+  name: string;
+  status: TestStatus;
+  time_seconds: number;
+  message?: string;
+}
+
+export interface TestRun {
+  suites: string[];
+  cases: TestCaseResult[];
+  timestamp?: string; // from the first suite's timestamp attribute
+}
+
+export interface FlakyCandidate {
+  id: string;
+  passes: number;
+  failures: number;
+}
+
+export interface TestReportSummary {
+  runs: number;
+  executions: number; // test case executions, excluding skipped
+  passed: number;
+  failed: number;     // assertion failures and errors
+  skipped: number;
+  pass_rate: number;  // percentage of executions that passed
+  flaky_candidates: FlakyCandidate[];
+  // Each executed test case is one opportunity; each failing execution one defect
+  defects: number;
+  opportunities: number;
+  defects_per_opportunity: number;
+  defects_per_million: number;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+export function parseJUnitXML(xml: string): TestRun {
+  const root = parseXml(xml);
+  if (root.name !== 'testsuites' && root.name !== 'testsuite') {
+    throw new Error(`Not a JUnit report: root element is <${root.name}>`);
+  }
+  const suites: string[] = [];
+  const cases: TestCaseResult[] = [];
+  let timestamp: string | undefined;
+
+  const visit = (element: XmlElement, suiteName: string) => {
+    if (element.name === 'testsuite') {
+      suiteName = element.attributes.name ?? suiteName;
+      suites.push(suiteName);
+      const time = Date.parse(element.attributes.timestamp ?? '');
+      if (!timestamp && !Number.isNaN(time)) timestamp = new Date(time).toISOString();
+    }
+    if (element.name === 'testcase') {
+      const name = element.attributes.name ?? '';
+      const classname = element.attributes.classname ?? suiteName;
+      const outcome = element.children.find(child => ['failure', 'error', 'skipped'].includes(child.name));
+      cases.push({
+        id: classname ? `${classname}.${name}` : name,
+        suite: suiteName,
+        name,
+        status: outcome ? (outcome.name === 'failure' ? 'failed' : outcome.name as TestStatus) : 'passed',
+        time_seconds: Number(element.attributes.time) || 0,
+        message: outcome?.attributes.message
+      });
+      return;
+    }
+    element.children.forEach(child => visit(child, suiteName));
+  };
+  visit(root, '');
+
+  return { suites, cases, timestamp };
+}
+
+// Summary across repeated runs of the same suite; a test that both passed and failed is a flaky candidate
+export function summarizeTestRuns(runs: TestRun[]): TestReportSummary {
+  if (runs.length === 0) {
+    throw new Error('At least one test run is required');
+  }
+
+  const outcomes = new Map<string, { passes: number; failures: number }>();
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  runs.forEach(run => run.cases.forEach(testCase => {
+    if (testCase.status === 'skipped') {
+      skipped++;
+      return;
+    }
+    const outcome = outcomes.get(testCase.id) ?? { passes: 0, failures: 0 };
+    if (testCase.status === 'passed') {
+      passed++;
+      outcome.passes++;
+    } else {
+      failed++;
+      outcome.failures++;
+    }
+    outcomes.set(testCase.id, outcome);
+  }));
+
+  const executions = passed + failed;
+  const dpo = executions > 0 ? failed / executions : 0;
+  return {
+    runs: runs.length,
+    executions,
+    passed,
+    failed,
+    skipped,
+    pass_rate: executions > 0 ? passed / executions * 100 : 0,
+    flaky_candidates: Array.from(outcomes.entries())
+      .filter(([_, outcome]) => outcome.passes > 0 && outcome.failures > 0)
+      .map(([id, outcome]) => ({ id, ...outcome }))
+      .sort((a, b) => b.failures - a.failures),
+    defects: failed,
+    opportunities: executions,
+    defects_per_opportunity: dpo,
+    defects_per_million: dpo * 1_000_000
+  };
+}
+
+// Minimal XML reader for report files: elements and attributes only, text content is ignored
+function parseXml(xml: string): XmlElement {
+  const cleaned = xml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const tag = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(cleaned)) !== null) {
+    const [, closing, name, attributeText, selfClosing] = match;
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+      continue;
+    }
+    const element: XmlElement = { name, attributes: parseAttributes(attributeText), children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1 || document.children.length !== 1) {
+    throw new Error('Malformed XML: expected a single root element');
+  }
+  return document.children[0];
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+}
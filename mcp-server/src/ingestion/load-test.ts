@@ -0,0 +1,181 @@
+// Load Test Ingestion for Six Sigma MCP
+// Parses k6 summary JSON, JMeter JTL CSV and autocannon JSON into throughput, latency percentiles and error rate
+
+import { parseDataset } from './dataset.ts';
+import { mean, quantile } from '../statistics/descriptive.ts';
+
+export type LoadTestTool = 'k6' | 'jmeter' | 'autocannon';
+
+export interface LatencySummary {
+  mean: number; // all latencies in ms
+  p50: number;
+  p90: number;
+  p95?: number; // not every tool reports every percentile
+  p99?: number;
+  max: number;
+}
+
+export interface LoadTestInterval {
+  start: string;
+  requests: number;
+  throughput_rps: number;
+  error_rate: number; // percentage
+  latency_ms: LatencySummary;
+}
+
+export interface LoadTestResult {
+  tool: LoadTestTool;
+  requests: number;
+  failed_requests: number;
+  duration_seconds: number;
+  throughput_rps: number;
+  error_rate: number; // percentage of requests that failed
+  latency_ms: LatencySummary;
+  started_at?: string;
+  intervals: LoadTestInterval[]; // only for raw sample formats (JTL)
+}
+
+// k6 --summary-export output, or the data object passed to handleSummary()
+export function parseK6Summary(json: string): LoadTestResult {
+  const body = parseJSON(json, 'k6 summary');
+  // handleSummary nests each metric's statistics under `values`; --summary-export does not
+  const metric = (name: string): Record<string, number> | undefined => {
+    const entry = body.metrics?.[name];
+    return entry?.values ?? entry;
+  };
+  const requests = metric('http_reqs');
+  const duration = metric('http_req_duration');
+  if (!requests?.count || !duration) {
+    throw new Error('k6 summary has no http_reqs or http_req_duration metric');
+  }
+
+  const failed = metric('http_req_failed');
+  const durationSeconds = body.state?.testRunDurationMs
+    ? body.state.testRunDurationMs / 1000
+    : requests.count / requests.rate;
+  // http_req_failed is a Rate metric: `passes` counts failed requests
+  const failedRequests = failed?.passes ?? Math.round((failed?.rate ?? failed?.value ?? 0) * requests.count);
+
+  return {
+    tool: 'k6',
+    requests: requests.count,
+    failed_requests: failedRequests,
+    duration_seconds: durationSeconds,
+    throughput_rps: requests.rate ?? requests.count / durationSeconds,
+    error_rate: failedRequests / requests.count * 100,
+    latency_ms: {
+      mean: duration.avg,
+      p50: duration.med ?? duration['p(50)'],
+      p90: duration['p(90)'],
+      p95: duration['p(95)'],
+      p99: duration['p(99)'],
+      max: duration.max
+    },
+    intervals: []
+  };
+}
+
+// JMeter CSV results (JTL) with the default header; one row per sample
+export function parseJMeterJTL(csv: string, intervalSeconds = 10): LoadTestResult {
+  const dataset = parseDataset(csv, 'csv', {
+    kpis: { elapsed: 'elapsed' },
+    factors: ['success'],
+    timestamp: 'timeStamp'
+  });
+  const samples = dataset.kpis.elapsed.map((elapsed, i) => ({
+    start: Date.parse(dataset.timestamps![i]),
+    elapsed,
+    failed: dataset.factors.success[i].toLowerCase() !== 'true'
+  })).sort((a, b) => a.start - b.start);
+
+  const first = samples[0].start;
+  const last = samples.reduce((latest, s) => Math.max(latest, s.start + s.elapsed), first);
+  const durationSeconds = Math.max((last - first) / 1000, 0.001);
+
+  // Fixed-width buckets from the first sample; each becomes one point in the KPI series
+  const buckets = new Map<number, typeof samples>();
+  samples.forEach(sample => {
+    const bucket = Math.floor((sample.start - first) / (intervalSeconds * 1000));
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(sample);
+  });
+  const intervals = Array.from(buckets.entries()).map(([bucket, bucketSamples]) => ({
+    start: new Date(first + bucket * intervalSeconds * 1000).toISOString(),
+    requests: bucketSamples.length,
+    throughput_rps: bucketSamples.length / intervalSeconds,
+    error_rate: bucketSamples.filter(s => s.failed).length / bucketSamples.length * 100,
+    latency_ms: latencySummary(bucketSamples.map(s => s.elapsed))
+  }));
+
+  const failedRequests = samples.filter(s => s.failed).length;
+  return {
+    tool: 'jmeter',
+    requests: samples.length,
+    failed_requests: failedRequests,
+    duration_seconds: durationSeconds,
+    throughput_rps: samples.length / durationSeconds,
+    error_rate: failedRequests / samples.length * 100,
+    latency_ms: latencySummary(samples.map(s => s.elapsed)),
+    started_at: new Date(first).toISOString(),
+    intervals
+  };
+}
+
+// autocannon --json output
+export function parseAutocannon(json: string): LoadTestResult {
+  const body = parseJSON(json, 'autocannon result');
+  if (!body.requests || !body.latency || !body.duration) {
+    throw new Error('autocannon result has no requests, latency or duration');
+  }
+  // `errors` (including timeouts) never received a response, so they are not in requests.total
+  const attempted = body.requests.sent ?? body.requests.total + (body.errors ?? 0);
+  const failedRequests = (body.errors ?? 0) + (body.non2xx ?? 0);
+  const started = Date.parse(body.start ?? '');
+
+  return {
+    tool: 'autocannon',
+    requests: attempted,
+    failed_requests: failedRequests,
+    duration_seconds: body.duration,
+    throughput_rps: body.requests.total / body.duration,
+    error_rate: attempted > 0 ? failedRequests / attempted * 100 : 0,
+    latency_ms: {
+      mean: body.latency.mean ?? body.latency.average,
+      p50: body.latency.p50,
+      p90: body.latency.p90,
+      p95: body.latency.p95,
+      p99: body.latency.p99,
+      max: body.latency.max
+    },
+    started_at: Number.isNaN(started) ? undefined : new Date(started).toISOString(),
+    intervals: []
+  };
+}
+
+export function detectLoadTestTool(text: string): LoadTestTool {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{')) return 'jmeter';
+  const body = parseJSON(trimmed, 'load test result');
+  if (body.metrics) return 'k6';
+  if (body.latency && body.requests) return 'autocannon';
+  throw new Error('Unrecognized load test JSON: expected a k6 summary or autocannon result');
+}
+
+function latencySummary(latencies: number[]): LatencySummary {
+  return {
+    mean: mean(latencies),
+    p50: quantile(latencies, 0.5),
+    p90: quantile(latencies, 0.9),
+    p95: quantile(latencies, 0.95),
+    p99: quantile(latencies, 0.99),
+    max: latencies.reduce((max, latency) => Math.max(max, latency), -Infinity)
+  };
+}
+
+function parseJSON(json: string, what: string): any {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error(`${what} is not valid JSON`);
+  }
+}
@@ -0,0 +1,278 @@
+// Prometheus Ingestion for Six Sigma MCP
+// Parses text exposition / OpenMetrics scrape dumps and range-query JSON, and derives KPI observations
+
+export interface MetricSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+  timestamp: number; // epoch milliseconds
+}
+
+export interface LabelMatcher {
+  label: string;
+  op: '=' | '!=' | '=~' | '!~';
+  value: string;
+}
+
+export interface MetricSelector {
+  name: string;
+  matchers: LabelMatcher[];
+}
+
+export type KPIRule =
+  // Quantile of a histogram over each scrape interval (histogram_quantile over bucket increases)
+  | { kpi: string; type: 'histogram_quantile'; selector: string; quantile: number; scale?: number }
+  // Ratio of counter increases per interval, e.g. failed / total requests
+  | { kpi: string; type: 'ratio'; numerator: string; denominator: string; scale?: number }
+  // Per-second rate of a counter per interval
+  | { kpi: string; type: 'rate'; selector: string; scale?: number }
+  // Sum of matching gauge values at each timestamp
+  | { kpi: string; type: 'gauge'; selector: string; scale?: number };
+
+export interface KPIObservation {
+  kpi: string;
+  value: number;
+  timestamp: string;
+}
+
+// Conventional HTTP server metrics mapped onto the CTQ metrics the Define phase creates
+export const DEFAULT_KPI_RULES: KPIRule[] = [
+  { kpi: 'api_response_time', type: 'histogram_quantile', selector: 'http_request_duration_seconds', quantile: 0.95, scale: 1000 },
+  { kpi: 'error_rate', type: 'ratio', numerator: 'http_requests_total{status=~"5.."}', denominator: 'http_requests_total', scale: 100 }
+];
+
+// Samples from one or more text expositions. OpenMetrics dumps separate scrapes with "# EOF";
+// samples without their own timestamp take the scrape time (scrapes are spaced by intervalMs).
+export function parseExposition(text: string, scrapeTimestamp = Date.now(), intervalMs = 60_000): MetricSample[] {
+  const scrapes = text.split(/^# EOF\s*$/m).filter(chunk => chunk.trim() !== '');
+  const samples: MetricSample[] = [];
+
+  scrapes.forEach((chunk, scrape) => {
+    const defaultTime = scrapeTimestamp - (scrapes.length - 1 - scrape) * intervalMs;
+    chunk.split(/\r?\n/).forEach((line, i) => {
+      const trimmed = line.trim();
+      if (trimmed === '' || trimmed.startsWith('#')) return;
+      const sample = parseSampleLine(trimmed, defaultTime);
+      if (!sample) {
+        throw new Error(`Unparseable exposition line ${i + 1}: ${trimmed.slice(0, 80)}`);
+      }
+      samples.push(sample);
+    });
+  });
+
+  return samples;
+}
+
+// Prometheus HTTP API range (matrix) or instant (vector) query results
+export function parseRangeQuery(json: string): MetricSample[] {
+  let body: any;
+  try {
+    body = JSON.parse(json);
+  } catch {
+    throw new Error('Range query export is not valid JSON');
+  }
+  const data = body?.data ?? body;
+  if (!data || !Array.isArray(data.result)) {
+    throw new Error('Range query export must contain data.result');
+  }
+
+  return data.result.flatMap((series: any) => {
+    const { __name__: name = '', ...labels } = series.metric ?? {};
+    const points: [number, string][] = series.values ?? (series.value ? [series.value] : []);
+    return points.map(([time, value]) => ({
+      name,
+      labels,
+      value: parseValue(String(value)),
+      timestamp: Math.round(Number(time) * 1000)
+    }));
+  });
+}
+
+export function parseSelector(selector: string): MetricSelector {
+  if (typeof selector !== 'string') {
+    throw new Error('Metric selector must be a string');
+  }
+  const match = selector.trim().match(/^([a-zA-Z_:][a-zA-Z0-9_:]*)?\s*(?:\{(.*)\})?$/s);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid metric selector: ${selector}`);
+  }
+  const matchers: LabelMatcher[] = [];
+  const body = match[2] ?? '';
+  const pattern = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*(=~|!~|!=|=)\s*"((?:[^"\\]|\\.)*)"\s*(?:,|$)/gy;
+  let consumed = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(body)) !== null && m[0] !== '') {
+    matchers.push({ label: m[1], op: m[2] as LabelMatcher['op'], value: unescapeLabel(m[3]) });
+    consumed = pattern.lastIndex;
+  }
+  if (body.slice(consumed).trim() !== '') {
+    throw new Error(`Invalid label matchers in selector: ${selector}`);
+  }
+  return { name: match[1] ?? '', matchers };
+}
+
+export function deriveKPIObservations(samples: MetricSample[], rules: KPIRule[] = DEFAULT_KPI_RULES): KPIObservation[] {
+  return rules.flatMap(rule => {
+    const scale = rule.scale ?? 1;
+    let points: [number, number][];
+    switch (rule.type) {
+      case 'histogram_quantile':
+        if (!(rule.quantile > 0 && rule.quantile < 1)) {
+          throw new Error(`Quantile for ${rule.kpi} must be between 0 and 1`);
+        }
+        points = histogramQuantiles(samples, parseSelector(rule.selector), rule.quantile);
+        break;
+      case 'ratio': {
+        const numerator = new Map(increases(select(samples, parseSelector(rule.numerator))));
+        points = increases(select(samples, parseSelector(rule.denominator)))
+          .filter(([time, total]) => total > 0 && numerator.has(time))
+          .map(([time, total]) => [time, numerator.get(time)! / total]);
+        break;
+      }
+      case 'rate':
+        points = increases(select(samples, parseSelector(rule.selector)), true);
+        break;
+      case 'gauge':
+        points = sumByTime(select(samples, parseSelector(rule.selector)));
+        break;
+      default:
+        throw new Error(`Unknown KPI rule type: ${(rule as KPIRule).type}`);
+    }
+    return points.map(([time, value]) => ({ kpi: rule.kpi, value: value * scale, timestamp: new Date(time).toISOString() }));
+  });
+}
+
+function parseSampleLine(line: string, defaultTime: number): MetricSample | undefined {
+  // Drop an OpenMetrics exemplar (" # {labels} value [timestamp]")
+  const withoutExemplar = line.replace(/\s+#\s+\{.*$/, '');
+  const match = withoutExemplar.match(/^([a-zA-Z_:][a-zA-Z0-9_:]*)(\{.*\})?\s+(\S+)(?:\s+(\S+))?$/);
+  if (!match) return undefined;
+
+  const labels = match[2] ? parseLabels(match[2].slice(1, -1)) : {};
+  if (!labels) return undefined;
+
+  // Prometheus text timestamps are milliseconds, OpenMetrics timestamps are (fractional) seconds
+  let timestamp = defaultTime;
+  if (match[4] !== undefined) {
+    const raw = Number(match[4]);
+    if (!Number.isFinite(raw)) return undefined;
+    timestamp = match[4].includes('.') || raw < 1e11 ? Math.round(raw * 1000) : raw;
+  }
+  return { name: match[1], labels, value: parseValue(match[3]), timestamp };
+}
+
+function parseLabels(body: string): Record<string, string> | undefined {
+  const labels: Record<string, string> = {};
+  const pattern = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"\s*(?:,|$)/gy;
+  let consumed = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(body)) !== null && m[0] !== '') {
+    labels[m[1]] = unescapeLabel(m[2]);
+    consumed = pattern.lastIndex;
+  }
+  return body.slice(consumed).trim() === '' ? labels : undefined;
+}
+
+function unescapeLabel(value: string): string {
+  return value.replace(/\\(["\\n])/g, (_, c) => c === 'n' ? '\n' : c);
+}
+
+function parseValue(raw: string): number {
+  if (raw === '+Inf' || raw === 'Inf') return Infinity;
+  if (raw === '-Inf') return -Infinity;
+  if (raw === 'NaN') return NaN;
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new Error(`Invalid sample value: ${raw}`);
+  }
+  return value;
+}
+
+function select(samples: MetricSample[], selector: MetricSelector): MetricSample[] {
+  return samples.filter(sample =>
+    (!selector.name || sample.name === selector.name) &&
+    selector.matchers.every(({ label, op, value }) => {
+      const actual = sample.labels[label] ?? '';
+      switch (op) {
+        case '=': return actual === value;
+        case '!=': return actual !== value;
+        case '=~': return new RegExp(`^(?:${value})$`).test(actual);
+        case '!~': return !new RegExp(`^(?:${value})$`).test(actual);
+      }
+    }));
+}
+
+function seriesKey(sample: MetricSample): string {
+  return sample.name + JSON.stringify(Object.entries(sample.labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Summed counter increase (or per-second rate) across matching series for each scrape interval,
+// keyed by the interval's end time; a drop in value is treated as a counter reset
+function increases(samples: MetricSample[], perSecond = false): [number, number][] {
+  const bySeries = new Map<string, MetricSample[]>();
+  samples.forEach(sample => {
+    const key = seriesKey(sample);
+    bySeries.set(key, [...(bySeries.get(key) ?? []), sample]);
+  });
+
+  const totals = new Map<number, number>();
+  bySeries.forEach(series => {
+    series.sort((a, b) => a.timestamp - b.timestamp);
+    for (let i = 1; i < series.length; i++) {
+      const previous = series[i - 1];
+      const current = series[i];
+      const elapsed = (current.timestamp - previous.timestamp) / 1000;
+      if (elapsed <= 0) continue;
+      const delta = current.value >= previous.value ? current.value - previous.value : current.value;
+      totals.set(current.timestamp, (totals.get(current.timestamp) ?? 0) + (perSecond ? delta / elapsed : delta));
+    }
+  });
+  return Array.from(totals.entries()).sort(([a], [b]) => a - b);
+}
+
+function sumByTime(samples: MetricSample[]): [number, number][] {
+  const totals = new Map<number, number>();
+  samples.forEach(sample => totals.set(sample.timestamp, (totals.get(sample.timestamp) ?? 0) + sample.value));
+  return Array.from(totals.entries()).sort(([a], [b]) => a - b);
+}
+
+// Buckets are aggregated across label sets other than "le"; with a single scrape the cumulative
+// counts since process start are used instead of interval increases
+function histogramQuantiles(samples: MetricSample[], selector: MetricSelector, quantile: number): [number, number][] {
+  const bucketName = selector.name.endsWith('_bucket') ? selector.name : `${selector.name}_bucket`;
+  const buckets = select(samples, { ...selector, name: bucketName }).filter(s => s.labels.le !== undefined);
+  if (buckets.length === 0) return [];
+
+  const bounds = Array.from(new Set(buckets.map(s => s.labels.le)));
+  const timestamps = new Set(buckets.map(s => s.timestamp));
+  const perBound = bounds.map(le => {
+    const series = buckets.filter(s => s.labels.le === le);
+    const counts = timestamps.size > 1 ? increases(series) : sumByTime(series);
+    return { le: parseValue(le), counts: new Map(counts) };
+  }).sort((a, b) => a.le - b.le);
+
+  const intervals = Array.from(perBound[perBound.length - 1].counts.keys()).sort((a, b) => a - b);
+  return intervals.flatMap(time => {
+    const cumulative = perBound.map(b => ({ le: b.le, count: b.counts.get(time) ?? 0 }));
+    const value = bucketQuantile(quantile, cumulative);
+    return value === undefined ? [] : [[time, value] as [number, number]];
+  });
+}
+
+// Linear interpolation within the bucket holding the requested rank, as histogram_quantile does
+function bucketQuantile(quantile: number, buckets: { le: number; count: number }[]): number | undefined {
+  const total = buckets[buckets.length - 1].count;
+  if (!(total > 0) || buckets[buckets.length - 1].le !== Infinity) return undefined;
+
+  const rank = quantile * total;
+  const index = buckets.findIndex(b => b.count >= rank);
+  if (index === buckets.length - 1) {
+    // Rank falls in the +Inf bucket: report the highest finite bound
+    return buckets.length > 1 ? buckets[buckets.length - 2].le : undefined;
+  }
+  const upper = buckets[index].le;
+  const lower = index === 0 ? Math.min(0, upper) : buckets[index - 1].le;
+  const below = index === 0 ? 0 : buckets[index - 1].count;
+  const inBucket = buckets[index].count - below;
+  return inBucket > 0 ? lower + (upper - lower) * (rank - below) / inBucket : upper;
+}
@@ -0,0 +1,243 @@
+// Static Analysis Ingestion for Six Sigma MCP
+// Parses SARIF 2.1, ESLint JSON and npm audit reports and classifies findings into defects per opportunity
+
+import { normalQuantile } from '../statistics/distributions.ts';
+import { SIGMA_SHIFT } from '../statistics/capability.ts';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+export type StaticAnalysisFormat = 'sarif' | 'eslint' | 'npm_audit';
+
+export const SEVERITY_ORDER: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+export interface Finding {
+  rule_id: string;
+  severity: Severity;
+  security: boolean;
+  cvss?: number;
+  unit: string; // file path or package name the finding belongs to
+  line?: number;
+  message: string;
+}
+
+export interface StaticAnalysisReport {
+  format: StaticAnalysisFormat;
+  tool_name: string;
+  findings: Finding[];
+  // Opportunities = units analyzed (files or dependencies) x checks applied to each
+  units: number;
+  checks_per_unit: number;
+}
+
+export interface StaticAnalysisSummary {
+  defect_threshold: Severity;
+  reports: { tool_name: string; findings: number; defects: number; opportunities: number }[];
+  by_severity: Record<Severity, number>;
+  defect_findings: number;           // findings at or above the threshold
+  improvement_opportunities: number; // findings below the threshold: tracked, not counted as defects
+  // A unit/check pair with at least one defect finding is one defect
+  defects: number;
+  opportunities: number;
+  defects_per_opportunity: number;
+  defects_per_million: number;
+  sigma_level: number; // short-term, including the conventional 1.5 sigma shift
+  security_findings: number;
+  vulnerability_score: number; // highest CVSS (or severity-equivalent) among security findings; 0 when none
+  top_rules: { rule_id: string; severity: Severity; count: number }[];
+}
+
+// CVSS v3 band midpoints for findings that carry only a severity
+const SEVERITY_SCORE: Record<Severity, number> = { critical: 9.5, high: 8, medium: 5.5, low: 2, info: 0 };
+
+const SARIF_LEVELS: Record<string, Severity> = { error: 'high', warning: 'medium', note: 'low', none: 'info' };
+
+export function parseSarif(json: string): StaticAnalysisReport[] {
+  const body = parseJSON(json, 'SARIF log');
+  if (!Array.isArray(body.runs)) {
+    throw new Error('SARIF log has no runs array');
+  }
+  if (body.version && body.version !== '2.1.0') {
+    throw new Error(`Unsupported SARIF version ${body.version}; expected 2.1.0`);
+  }
+
+  return body.runs.map((run: any) => {
+    const rules: any[] = run.tool?.driver?.rules ?? [];
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    const findings: Finding[] = (run.results ?? []).map((result: any) => {
+      const rule = result.ruleIndex !== undefined ? rules[result.ruleIndex] : rulesById.get(result.ruleId ?? result.rule?.id);
+      const location = result.locations?.[0]?.physicalLocation;
+      // GitHub code scanning convention: a CVSS-like score in the rule's security-severity property
+      const securitySeverity = Number(rule?.properties?.['security-severity']);
+      const tags: string[] = [...(rule?.properties?.tags ?? []), ...(result.properties?.tags ?? [])];
+      const level = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+      const cvss = Number.isFinite(securitySeverity) ? securitySeverity : undefined;
+
+      return {
+        rule_id: result.ruleId ?? rule?.id ?? 'unknown',
+        severity: cvss !== undefined ? severityFromScore(cvss) : SARIF_LEVELS[level] ?? 'medium',
+        security: cvss !== undefined || tags.some(tag => tag.toLowerCase() === 'security'),
+        cvss,
+        unit: location?.artifactLocation?.uri ?? '(no location)',
+        line: location?.region?.startLine,
+        message: result.message?.text ?? result.message?.markdown ?? ''
+      };
+    });
+
+    const analyzed = (run.artifacts ?? []).length;
+    return {
+      format: 'sarif' as const,
+      tool_name: run.tool?.driver?.name ?? 'SARIF',
+      findings,
+      units: analyzed > 0 ? analyzed : new Set(findings.map(f => f.unit)).size,
+      checks_per_unit: rules.length > 0 ? rules.length : new Set(findings.map(f => f.rule_id)).size
+    };
+  });
+}
+
+// `eslint --format json`: one entry per linted file, including clean files
+export function parseEslint(json: string): StaticAnalysisReport {
+  const body = parseJSON(json, 'ESLint report');
+  if (!Array.isArray(body) || body.some(entry => typeof entry?.filePath !== 'string')) {
+    throw new Error('ESLint report must be an array of { filePath, messages } results');
+  }
+
+  const findings: Finding[] = body.flatMap((entry: any) => (entry.messages ?? []).map((message: any) => {
+    const ruleId: string = message.ruleId ?? (message.fatal ? 'parse-error' : 'unknown');
+    return {
+      rule_id: ruleId,
+      severity: message.fatal ? 'critical' : message.severity === 2 ? 'high' : 'medium',
+      security: /^(security|no-unsanitized|no-secrets)\//.test(ruleId),
+      unit: entry.filePath,
+      line: message.line,
+      message: message.message ?? ''
+    } as Finding;
+  }));
+
+  return {
+    format: 'eslint',
+    tool_name: 'ESLint',
+    findings,
+    units: body.length,
+    // The JSON output does not list the configured rules; rules that reported are the known checks
+    checks_per_unit: new Set(findings.map(f => f.rule_id)).size
+  };
+}
+
+// `npm audit --json`, report version 2 (npm 7+) or the legacy advisories format
+export function parseNpmAudit(json: string): StaticAnalysisReport {
+  const body = parseJSON(json, 'npm audit report');
+  const normalize = (severity: string): Severity => severity === 'moderate' ? 'medium' : (SEVERITY_ORDER.includes(severity as Severity) ? severity as Severity : 'medium');
+  let findings: Finding[];
+  let dependencies: number | undefined;
+
+  if (body.vulnerabilities && typeof body.vulnerabilities === 'object') {
+    findings = Object.entries(body.vulnerabilities as Record<string, any>).map(([name, vulnerability]) => {
+      const advisories = (vulnerability.via ?? []).filter((via: any) => typeof via === 'object');
+      const scores = advisories.map((via: any) => Number(via.cvss?.score)).filter((score: number) => score > 0);
+      return {
+        rule_id: advisories[0]?.url ?? advisories[0]?.title ?? `vulnerable-dependency:${name}`,
+        severity: normalize(vulnerability.severity),
+        security: true,
+        cvss: scores.length > 0 ? Math.max(...scores) : undefined,
+        unit: name,
+        message: advisories.map((via: any) => via.title).filter(Boolean).join('; ')
+          || `Depends on vulnerable ${(vulnerability.via ?? []).join(', ')}`
+      };
+    });
+    dependencies = body.metadata?.dependencies?.total;
+  } else if (body.advisories && typeof body.advisories === 'object') {
+    findings = Object.values(body.advisories as Record<string, any>).map(advisory => ({
+      rule_id: advisory.url ?? String(advisory.id),
+      severity: normalize(advisory.severity),
+      security: true,
+      cvss: Number(advisory.cvss?.score) > 0 ? Number(advisory.cvss.score) : undefined,
+      unit: advisory.module_name,
+      message: advisory.title ?? ''
+    }));
+    dependencies = body.metadata?.totalDependencies;
+  } else {
+    throw new Error('npm audit report has neither vulnerabilities (v2) nor advisories (v1)');
+  }
+
+  return {
+    format: 'npm_audit',
+    tool_name: 'npm audit',
+    findings,
+    // Each installed dependency is one opportunity to ship a known vulnerability
+    units: typeof dependencies === 'number' ? dependencies : new Set(findings.map(f => f.unit)).size,
+    checks_per_unit: 1
+  };
+}
+
+export function detectStaticAnalysisFormat(text: string): StaticAnalysisFormat {
+  const body = parseJSON(text, 'static analysis report');
+  if (Array.isArray(body)) return 'eslint';
+  if (Array.isArray(body.runs)) return 'sarif';
+  if (body.vulnerabilities || body.advisories) return 'npm_audit';
+  throw new Error('Unrecognized static analysis report: expected SARIF, ESLint JSON or npm audit JSON');
+}
+
+export function summarizeStaticAnalysis(reports: StaticAnalysisReport[], defectThreshold: Severity = 'high'): StaticAnalysisSummary {
+  if (reports.length === 0) {
+    throw new Error('At least one static analysis report is required');
+  }
+  const isDefect = (finding: Finding) => SEVERITY_ORDER.indexOf(finding.severity) >= SEVERITY_ORDER.indexOf(defectThreshold);
+  const bySeverity = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as Record<Severity, number>;
+  const rules = new Map<string, { rule_id: string; severity: Severity; count: number }>();
+
+  let defects = 0;
+  let opportunities = 0;
+  const perReport = reports.map(report => {
+    const defective = new Set(report.findings.filter(isDefect).map(f => `${f.unit}\u0000${f.rule_id}`));
+    // Never fewer opportunities than defective unit/check pairs
+    const reportOpportunities = Math.max(report.units * report.checks_per_unit, defective.size);
+    defects += defective.size;
+    opportunities += reportOpportunities;
+
+    report.findings.forEach(finding => {
+      bySeverity[finding.severity]++;
+      const rule = rules.get(finding.rule_id) ?? { rule_id: finding.rule_id, severity: finding.severity, count: 0 };
+      rule.count++;
+      if (SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(rule.severity)) rule.severity = finding.severity;
+      rules.set(finding.rule_id, rule);
+    });
+    return { tool_name: report.tool_name, findings: report.findings.length, defects: defective.size, opportunities: reportOpportunities };
+  });
+
+  const findings = reports.flatMap(report => report.findings);
+  const security = findings.filter(f => f.security);
+  const dpo = opportunities > 0 ? defects / opportunities : 0;
+
+  return {
+    defect_threshold: defectThreshold,
+    reports: perReport,
+    by_severity: bySeverity,
+    defect_findings: findings.filter(isDefect).length,
+    improvement_opportunities: findings.filter(f => !isDefect(f)).length,
+    defects,
+    opportunities,
+    defects_per_opportunity: dpo,
+    defects_per_million: dpo * 1_000_000,
+    sigma_level: -normalQuantile(Math.max(dpo, Number.MIN_VALUE)) + SIGMA_SHIFT,
+    security_findings: security.length,
+    vulnerability_score: security.reduce((max, f) => Math.max(max, f.cvss ?? SEVERITY_SCORE[f.severity]), 0),
+    top_rules: Array.from(rules.values())
+      .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) || b.count - a.count)
+      .slice(0, 10)
+  };
+}
+
+function severityFromScore(score: number): Severity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return 'info';
+}
+
+function parseJSON(json: string, what: string): any {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error(`${what} is not valid JSON`);
+  }
+}
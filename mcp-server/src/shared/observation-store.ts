@@ -0,0 +1,126 @@
+// Observation Store for Six Sigma MCP
+// Time-series storage of KPI observations, ordered by timestamp per project and KPI
+
+export interface Observation {
+  kpi: string;
+  value: number;
+  timestamp: string; // ISO 8601
+  subgroup_id?: string;
+  operator?: string;
+  source?: string;
+}
+
+export interface ObservationQuery {
+  from?: string; // inclusive
+  to?: string;   // exclusive
+  source?: string;
+  operator?: string;
+}
+
+export interface SeriesSummary {
+  kpi: string;
+  count: number;
+  first_timestamp: string;
+  last_timestamp: string;
+  latest_value: number;
+}
+
+export class ObservationStore {
+  // project id -> KPI -> observations sorted by time
+  private series: Map<string, Map<string, Observation[]>> = new Map();
+
+  append(projectId: string, observations: Observation[]): number {
+    observations.forEach(observation => this.validate(observation));
+
+    const projectSeries = this.series.get(projectId) ?? new Map<string, Observation[]>();
+    this.series.set(projectId, projectSeries);
+
+    observations.forEach(observation => {
+      const kpiSeries = projectSeries.get(observation.kpi) ?? [];
+      projectSeries.set(observation.kpi, kpiSeries);
+      // Insert after any observation with the same timestamp to keep arrival order stable
+      kpiSeries.splice(this.upperBound(kpiSeries, observation.timestamp), 0, { ...observation });
+    });
+
+    return observations.length;
+  }
+
+  query(projectId: string, kpi: string, query: ObservationQuery = {}): Observation[] {
+    const kpiSeries = this.series.get(projectId)?.get(kpi) ?? [];
+    const start = query.from ? this.lowerBound(kpiSeries, query.from) : 0;
+    const end = query.to ? this.lowerBound(kpiSeries, query.to) : kpiSeries.length;
+
+    return kpiSeries.slice(start, end).filter(observation =>
+      (query.source === undefined || observation.source === query.source) &&
+      (query.operator === undefined || observation.operator === query.operator));
+  }
+
+  values(projectId: string, kpi: string, query: ObservationQuery = {}): number[] {
+    return this.query(projectId, kpi, query).map(observation => observation.value);
+  }
+
+  summarize(projectId: string): SeriesSummary[] {
+    return Array.from(this.series.get(projectId)?.entries() ?? [])
+      .filter(([_, kpiSeries]) => kpiSeries.length > 0)
+      .map(([kpi, kpiSeries]) => ({
+        kpi,
+        count: kpiSeries.length,
+        first_timestamp: kpiSeries[0].timestamp,
+        last_timestamp: kpiSeries[kpiSeries.length - 1].timestamp,
+        latest_value: kpiSeries[kpiSeries.length - 1].value
+      }));
+  }
+
+  // Every observation of a project, per KPI in time order, e.g. for persisting it
+  all(projectId: string): Observation[] {
+    return Array.from(this.series.get(projectId)?.values() ?? []).flat().map(observation => ({ ...observation }));
+  }
+
+  // Replace a project's series with previously stored observations
+  restore(projectId: string, observations: Observation[]): void {
+    this.clear(projectId);
+    this.append(projectId, observations);
+  }
+
+  clear(projectId: string): void {
+    this.series.delete(projectId);
+  }
+
+  private validate(observation: Observation) {
+    if (!observation.kpi) {
+      throw new Error('Observation is missing a KPI');
+    }
+    if (typeof observation.value !== 'number' || !Number.isFinite(observation.value)) {
+      throw new Error(`Observation for ${observation.kpi} has a non-numeric value`);
+    }
+    if (Number.isNaN(Date.parse(observation.timestamp))) {
+      throw new Error(`Observation for ${observation.kpi} has an invalid timestamp: ${observation.timestamp}`);
+    }
+  }
+
+  // First index whose timestamp is >= the given time
+  private lowerBound(kpiSeries: Observation[], timestamp: string): number {
+    const time = Date.parse(timestamp);
+    let low = 0;
+    let high = kpiSeries.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (Date.parse(kpiSeries[mid].timestamp) < time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First index whose timestamp is > the given time
+  private upperBound(kpiSeries: Observation[], timestamp: string): number {
+    const time = Date.parse(timestamp);
+    let low = 0;
+    let high = kpiSeries.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (Date.parse(kpiSeries[mid].timestamp) <= time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -0,0 +1,88 @@
+// Project State for Six Sigma MCP
+// The project document the server holds per project; tool calls change it and its stored events rebuild it
+
+import { AnalyzeArtifacts, ControlArtifacts, DMAICPhase, DefineArtifacts, ImproveArtifacts, MeasureArtifacts, PilotResults, QualityGateResults } from '../engine/types.ts';
+import { CodeMetricsReport } from '../analysis/code-metrics.ts';
+import { ExtractedFile } from '../codegen/response-parser.ts';
+import { SandboxRun } from '../codegen/sandbox.ts';
+import { CoverageReport } from '../ingestion/coverage.ts';
+import { ProjectDataset } from '../ingestion/dataset.ts';
+import { GitHistoryAnalysis } from '../ingestion/git-history.ts';
+import { TestReportSummary } from '../ingestion/junit.ts';
+import { LoadTestResult } from '../ingestion/load-test.ts';
+import { StaticAnalysisSummary } from '../ingestion/static-analysis.ts';
+
+export interface ProjectState {
+  id: string;
+  name: string;
+  business_case: string;
+  requirements: string[];
+  deployment_target: string;
+  budget_limit: number;
+  created_at: string;
+  current_phase: DMAICPhase;
+  artifacts: ProjectArtifacts;
+  metrics: ProjectMetrics;
+  quality_gates: QualityGateResults;
+  datasets: Record<string, ProjectDataset>;
+}
+
+export interface ProjectArtifacts {
+  define?: DefineArtifacts;
+  measure?: MeasureArtifacts;
+  analyze?: AnalyzeArtifacts;
+  improve?: ServerImproveArtifacts;
+  control?: ControlArtifacts;
+  code_quality?: CodeQualityEvidence;
+  delivery?: GitHistoryAnalysis; // DORA metrics and churn hotspots from the project's git history
+  load_tests?: LoadTestRun[];
+}
+
+// An imported load test; baseline runs measure the current system, pilot runs the improved one
+export interface LoadTestRun extends LoadTestResult {
+  stage: 'baseline' | 'pilot';
+  source: string; // file path, or 'inline'
+  imported_at: string;
+}
+
+// Imported test, coverage and static analysis reports for the project's code
+export interface CodeQualityEvidence {
+  test_results?: TestReportSummary;
+  coverage?: CoverageReport;
+  static_analysis?: StaticAnalysisSummary;
+  updated_at: string;
+}
+// Improve artifacts as the server records them, with the full generated code and sandboxed build
+export interface ServerImproveArtifacts extends ImproveArtifacts {
+  claude_generated_code?: GeneratedCode;
+  pilot_results: PilotResults & { build?: SandboxRun };
+}
+
+export interface GeneratedCode {
+  language: string;
+  framework: string;
+  provider: string; // LLM provider and model that generated the files
+  model: string;
+  truncated?: boolean; // the response hit max_tokens, so the last file may be incomplete
+  fallback_reason?: string; // why the client's model was not used via sampling
+  files: ExtractedFile[];
+  rejected_files?: { path: string; reason: string }[]; // unsafe paths in the response, not kept
+  quality_metrics: {
+    cyclomatic_complexity: number; // highest per-function complexity
+    maintainability_index?: number;
+    source_loc?: number;
+    test_coverage?: number; // line coverage from an imported coverage report
+    security_issues?: number; // security findings from imported static analysis
+    documentation_score: number; // percentage of functions with a leading comment
+  };
+  code_metrics?: CodeMetricsReport;
+  ctq_compliance: Record<string, boolean>;
+}
+
+export interface ProjectMetrics {
+  define?: Record<string, any>;
+  measure?: Record<string, any>;
+  analyze?: Record<string, any>;
+  improve?: Record<string, any>;
+  control?: Record<string, any>;
+}
@@ -11,7 +11,7 @@ import {
   AnalyzeArtifacts,
   ImproveArtifacts,
   ControlArtifacts
-} from '../types/index.js';
+} from '../types/index.ts';
 
 export interface QualityGateCriteria {
   name: string;
@@ -1,7 +1,7 @@
 // Shared Resource Manager for Six Sigma MCP
 // Manages shared state between agents with access control
 
-import { ProjectState, PhaseArtifacts } from '../types/index.js';
+import { ProjectState, PhaseArtifacts } from '../types/index.ts';
 
 export interface ResourcePermissions {
   read: string[];
@@ -8,14 +8,14 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 
 // Import all agents
-import { DefineAgent } from "./agents/define-agent.js";
-import { MeasureAgent } from "./agents/measure-agent.js";
-import { AnalyzeAgent } from "./agents/analyze-agent.js";
-import { ImproveAgent } from "./agents/improve-agent.js";
-import { ControlAgent } from "./agents/control-agent.js";
-import { SharedResourceManager } from "./shared/resource-manager.js";
-import { QualityGateManager } from "./shared/quality-gates.js";
-import { ProjectState, DMAICPhase, PhaseArtifacts } from "./types/index.js";
+import { DefineAgent } from "./agents/define-agent.ts";
+import { MeasureAgent } from "./agents/measure-agent.ts";
+import { AnalyzeAgent } from "./agents/analyze-agent.ts";
+import { ImproveAgent } from "./agents/improve-agent.ts";
+import { ControlAgent } from "./agents/control-agent.ts";
+import { SharedResourceManager } from "./shared/resource-manager.ts";
+import { QualityGateManager } from "./shared/quality-gates.ts";
+import { ProjectState, DMAICPhase, PhaseArtifacts } from "./types/index.ts";
 
 export class SixSigmaMCPServer {
   private server: Server;
@@ -0,0 +1,304 @@
+// Process Capability Engine for Six Sigma MCP
+// Computes capability (Cp/Cpk), performance (Pp/Ppk), Taguchi (Cpm) indices and sigma levels
+// from raw measurement samples against CTQ specification limits
+
+import { mean, median, standardDeviation, movingRanges, quantile } from './descriptive.ts';
+import { normalCdf, normalQuantile } from './distributions.ts';
+import { controlConstants } from './control-constants.ts';
+import { assessNormality, NormalityAssessment } from './normality.ts';
+import { applyTransformation, fitBoxCox, fitJohnson, Transformation } from './transformations.ts';
+
+// Conventional long-term drift of the process mean, in short-term standard deviations
+export const SIGMA_SHIFT = 1.5;
+
+export interface SpecificationLimits {
+  target: number;
+  usl?: number;
+  lsl?: number;
+}
+
+export interface CapabilityOptions {
+  // Number of consecutive samples per rational subgroup; 1 (default) treats data as individuals
+  subgroup_size?: number;
+}
+
+export type CapabilityMethod = 'normal' | 'box_cox' | 'johnson' | 'percentile';
+
+export interface AssessmentOptions extends CapabilityOptions {
+  // 'auto' (default) escalates normal -> Box-Cox -> Johnson -> percentile until the data fits
+  method?: CapabilityMethod | 'auto';
+  normality_alpha?: number;
+}
+
+// ISO 22514-2 percentile method: spread is measured between the 0.135% and 99.865% quantiles
+export interface PercentileCapability {
+  sample_size: number;
+  median: number;
+  percentile_0_135: number;
+  percentile_99_865: number;
+  pp: number | null;
+  ppk: number;
+  defects_per_million: number;
+  sigma_level_long_term: number;
+  sigma_level_short_term: number;
+  sigma_shift: number;
+}
+
+export interface TransformationRecord {
+  transformation: Transformation;
+  transformed_spec: SpecificationLimits;
+  normality: NormalityAssessment;
+}
+
+export interface CapabilityAssessment {
+  method: CapabilityMethod;
+  rationale: string;
+  normality: NormalityAssessment;
+  transformation?: TransformationRecord;
+  indices: CapabilityIndices | PercentileCapability;
+}
+
+export interface CapabilityIndices {
+  sample_size: number;
+  mean: number;
+  sigma_within: number;
+  sigma_overall: number;
+  sigma_estimation: 'moving_range' | 'pooled_subgroup';
+  cp: number | null;
+  cpk: number;
+  pp: number | null;
+  ppk: number;
+  cpm: number | null;
+  defects_per_million: number;
+  sigma_level_long_term: number;
+  sigma_level_short_term: number;
+  sigma_shift: number;
+}
+
+export function calculateCapability(
+  samples: number[],
+  spec: SpecificationLimits,
+  options: CapabilityOptions = {}
+): CapabilityIndices {
+  if (spec.usl === undefined && spec.lsl === undefined) {
+    throw new Error('At least one specification limit is required');
+  }
+  if (spec.usl !== undefined && spec.lsl !== undefined && spec.usl <= spec.lsl) {
+    throw new Error(`USL (${spec.usl}) must be greater than LSL (${spec.lsl})`);
+  }
+  if (samples.length < 2 || samples.some(v => !Number.isFinite(v))) {
+    throw new Error('At least two finite samples are required');
+  }
+
+  const subgroupSize = options.subgroup_size ?? 1;
+  const mu = mean(samples);
+  const sigmaOverall = standardDeviation(samples);
+  const sigmaWithin = subgroupSize > 1
+    ? pooledSubgroupSigma(samples, subgroupSize)
+    : mean(movingRanges(samples)) / controlConstants(2).d2;
+
+  if (sigmaOverall === 0 || sigmaWithin === 0) {
+    throw new Error('Samples show no variation; capability is undefined');
+  }
+
+  const cp = twoSidedIndex(spec, sigmaWithin);
+  const pp = twoSidedIndex(spec, sigmaOverall);
+  const cpk = oneSidedIndex(spec, mu, sigmaWithin);
+  const ppk = oneSidedIndex(spec, mu, sigmaOverall);
+  const cpm = spec.usl !== undefined && spec.lsl !== undefined && Number.isFinite(spec.target)
+    ? (spec.usl - spec.lsl) / (6 * Math.sqrt(sigmaOverall ** 2 + (mu - spec.target) ** 2))
+    : null;
+
+  // Expected fraction outside spec under the long-term (overall) distribution
+  const upperTail = spec.usl !== undefined ? normalCdf(-(spec.usl - mu) / sigmaOverall) : 0;
+  const lowerTail = spec.lsl !== undefined ? normalCdf((spec.lsl - mu) / sigmaOverall) : 0;
+  const defectFraction = Math.min(1, upperTail + lowerTail);
+
+  // Z.bench: the one-sided z-score equivalent to the total defect fraction
+  const sigmaLongTerm = -normalQuantile(Math.max(defectFraction, Number.MIN_VALUE));
+
+  return {
+    sample_size: samples.length,
+    mean: mu,
+    sigma_within: sigmaWithin,
+    sigma_overall: sigmaOverall,
+    sigma_estimation: subgroupSize > 1 ? 'pooled_subgroup' : 'moving_range',
+    cp,
+    cpk,
+    pp,
+    ppk,
+    cpm,
+    defects_per_million: defectFraction * 1_000_000,
+    sigma_level_long_term: sigmaLongTerm,
+    sigma_level_short_term: sigmaLongTerm + SIGMA_SHIFT,
+    sigma_shift: SIGMA_SHIFT
+  };
+}
+
+function twoSidedIndex(spec: SpecificationLimits, sigma: number): number | null {
+  if (spec.usl === undefined || spec.lsl === undefined) {
+    return null;
+  }
+  return (spec.usl - spec.lsl) / (6 * sigma);
+}
+
+function oneSidedIndex(spec: SpecificationLimits, mu: number, sigma: number): number {
+  const indices: number[] = [];
+  if (spec.usl !== undefined) indices.push((spec.usl - mu) / (3 * sigma));
+  if (spec.lsl !== undefined) indices.push((mu - spec.lsl) / (3 * sigma));
+  return Math.min(...indices);
+}
+
+// Pooled standard deviation across consecutive subgroups; a trailing partial subgroup is ignored
+function pooledSubgroupSigma(samples: number[], subgroupSize: number): number {
+  let sumSquares = 0;
+  let degreesOfFreedom = 0;
+
+  for (let start = 0; start + subgroupSize <= samples.length; start += subgroupSize) {
+    const subgroup = samples.slice(start, start + subgroupSize);
+    const subgroupMean = mean(subgroup);
+    sumSquares += subgroup.reduce((sum, v) => sum + (v - subgroupMean) ** 2, 0);
+    degreesOfFreedom += subgroupSize - 1;
+  }
+
+  if (degreesOfFreedom === 0) {
+    throw new Error(`Need at least one complete subgroup of ${subgroupSize} samples`);
+  }
+  return Math.sqrt(sumSquares / degreesOfFreedom);
+}
+
+// Chooses how to compute capability from the shape of the data and records why
+export function assessCapability(
+  samples: number[],
+  spec: SpecificationLimits,
+  options: AssessmentOptions = {}
+): CapabilityAssessment {
+  const requested = options.method ?? 'auto';
+  const alpha = options.normality_alpha ?? 0.05;
+  const normality = assessNormality(samples, alpha);
+  const adP = normality.anderson_darling.p_value.toPrecision(3);
+
+  if (requested === 'normal' || (requested === 'auto' && normality.is_normal)) {
+    return {
+      method: 'normal',
+      rationale: requested === 'normal'
+        ? 'Normal method requested explicitly'
+        : `Data is consistent with normality (Anderson-Darling p=${adP} >= ${alpha})`,
+      normality,
+      indices: calculateCapability(samples, spec, options)
+    };
+  }
+
+  const attempts: string[] = [];
+  const candidates: ('box_cox' | 'johnson')[] = requested === 'auto'
+    ? ['box_cox', 'johnson']
+    : requested === 'percentile' ? [] : [requested];
+
+  for (const candidate of candidates) {
+    try {
+      const transformation = candidate === 'box_cox' ? fitBoxCox(samples) : fitJohnson(samples);
+      const record = transformCapabilityInputs(samples, spec, transformation, alpha);
+      if (requested === 'auto' && !record.normality.is_normal) {
+        attempts.push(`${candidate} still non-normal (p=${record.normality.anderson_darling.p_value.toPrecision(3)})`);
+        continue;
+      }
+
+      const transformedSamples = samples.map(x => applyTransformation(transformation, x));
+      return {
+        method: candidate,
+        rationale: requested === 'auto'
+          ? `Raw data non-normal (Anderson-Darling p=${adP}); ${describeTransformation(transformation)} ` +
+            `gives p=${record.normality.anderson_darling.p_value.toPrecision(3)}`
+          : `${describeTransformation(transformation)} requested explicitly`,
+        normality,
+        transformation: record,
+        indices: calculateCapability(transformedSamples, record.transformed_spec, options)
+      };
+    } catch (error) {
+      if (requested !== 'auto') throw error;
+      attempts.push(`${candidate} not applicable (${error instanceof Error ? error.message : 'fit failed'})`);
+    }
+  }
+
+  return {
+    method: 'percentile',
+    rationale: requested === 'percentile'
+      ? 'Percentile (ISO 22514-2) method requested explicitly'
+      : `Raw data non-normal (Anderson-Darling p=${adP}) and no transformation normalized it ` +
+        `(${attempts.join('; ')}); using percentile (ISO 22514-2) method`,
+    normality,
+    indices: calculatePercentileCapability(samples, spec)
+  };
+}
+
+export function calculatePercentileCapability(samples: number[], spec: SpecificationLimits): PercentileCapability {
+  if (spec.usl === undefined && spec.lsl === undefined) {
+    throw new Error('At least one specification limit is required');
+  }
+  const lower = quantile(samples, 0.00135);
+  const upper = quantile(samples, 0.99865);
+  const mid = median(samples);
+  if (upper === lower) {
+    throw new Error('Samples show no variation; capability is undefined');
+  }
+
+  const ppk = Math.min(
+    spec.usl !== undefined && upper > mid ? (spec.usl - mid) / (upper - mid) : Infinity,
+    spec.lsl !== undefined && mid > lower ? (mid - spec.lsl) / (mid - lower) : Infinity
+  );
+  // Normal-equivalent conversion: Ppk of 1 corresponds to the 3σ point of a normal tail
+  const sigmaLongTerm = 3 * ppk;
+
+  return {
+    sample_size: samples.length,
+    median: mid,
+    percentile_0_135: lower,
+    percentile_99_865: upper,
+    pp: spec.usl !== undefined && spec.lsl !== undefined ? (spec.usl - spec.lsl) / (upper - lower) : null,
+    ppk,
+    defects_per_million: normalCdf(-sigmaLongTerm) * 1_000_000,
+    sigma_level_long_term: sigmaLongTerm,
+    sigma_level_short_term: sigmaLongTerm + SIGMA_SHIFT,
+    sigma_shift: SIGMA_SHIFT
+  };
+}
+
+// Transforms the spec limits alongside the data; a limit outside the fitted support cannot be
+// exceeded under the fitted distribution and is dropped
+function transformCapabilityInputs(
+  samples: number[],
+  spec: SpecificationLimits,
+  transformation: Transformation,
+  alpha: number
+): TransformationRecord {
+  const transformed = samples.map(x => applyTransformation(transformation, x));
+  if (transformed.some(t => !Number.isFinite(t))) {
+    throw new Error('samples fall outside the transformation support');
+  }
+
+  const transformLimit = (limit?: number) => {
+    if (limit === undefined) return undefined;
+    const t = applyTransformation(transformation, limit);
+    return Number.isFinite(t) ? t : undefined;
+  };
+  const transformedSpec: SpecificationLimits = {
+    target: applyTransformation(transformation, spec.target),
+    usl: transformLimit(spec.usl),
+    lsl: transformLimit(spec.lsl)
+  };
+  if (transformedSpec.usl === undefined && transformedSpec.lsl === undefined) {
+    throw new Error('specification limits fall outside the transformation support');
+  }
+
+  return {
+    transformation,
+    transformed_spec: transformedSpec,
+    normality: assessNormality(transformed, alpha)
+  };
+}
+
+function describeTransformation(transformation: Transformation): string {
+  return transformation.type === 'box_cox'
+    ? `Box-Cox (λ=${transformation.lambda})`
+    : `Johnson ${transformation.family}`;
+}
@@ -0,0 +1,55 @@
+// Control Chart Constants for Six Sigma MCP
+// Bias-correction and limit factors for variables control charts (subgroup sizes 2-25)
+
+import { logGamma } from './distributions.ts';
+
+export interface ControlConstants {
+  n: number;
+  d2: number;
+  d3: number;
+  c4: number;
+  A2: number;
+  A3: number;
+  B3: number;
+  B4: number;
+  D3: number;
+  D4: number;
+}
+
+// Tabulated mean (d2) and standard deviation (d3) of the relative range W = R/σ
+const D2: Record<number, number> = {
+  2: 1.128, 3: 1.693, 4: 2.059, 5: 2.326, 6: 2.534, 7: 2.704, 8: 2.847, 9: 2.970, 10: 3.078,
+  11: 3.173, 12: 3.258, 13: 3.336, 14: 3.407, 15: 3.472, 16: 3.532, 17: 3.588, 18: 3.640,
+  19: 3.689, 20: 3.735, 21: 3.778, 22: 3.819, 23: 3.858, 24: 3.895, 25: 3.931
+};
+
+const D3_RANGE: Record<number, number> = {
+  2: 0.853, 3: 0.888, 4: 0.880, 5: 0.864, 6: 0.848, 7: 0.833, 8: 0.820, 9: 0.808, 10: 0.797,
+  11: 0.787, 12: 0.778, 13: 0.770, 14: 0.763, 15: 0.756, 16: 0.750, 17: 0.744, 18: 0.739,
+  19: 0.734, 20: 0.729, 21: 0.724, 22: 0.720, 23: 0.716, 24: 0.712, 25: 0.708
+};
+
+export const MAX_SUBGROUP_SIZE = 25;
+
+export function controlConstants(n: number): ControlConstants {
+  if (!Number.isInteger(n) || n < 2 || n > MAX_SUBGROUP_SIZE) {
+    throw new Error(`Control chart constants are tabulated for subgroup sizes 2-${MAX_SUBGROUP_SIZE}, got ${n}`);
+  }
+  const d2 = D2[n];
+  const d3 = D3_RANGE[n];
+  const c4 = Math.sqrt(2 / (n - 1)) * Math.exp(logGamma(n / 2) - logGamma((n - 1) / 2));
+  const sSpread = 3 * Math.sqrt(1 - c4 * c4) / c4;
+
+  return {
+    n,
+    d2,
+    d3,
+    c4,
+    A2: 3 / (d2 * Math.sqrt(n)),
+    A3: 3 / (c4 * Math.sqrt(n)),
+    B3: Math.max(0, 1 - sSpread),
+    B4: 1 + sSpread,
+    D3: Math.max(0, 1 - 3 * d3 / d2),
+    D4: 1 + 3 * d3 / d2
+  };
+}
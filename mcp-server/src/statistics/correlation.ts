@@ -0,0 +1,81 @@
+// Correlation Analysis for Six Sigma MCP
+// Pearson and Spearman correlation matrices with significance for candidate X/Y variables
+
+import { mean, ranks } from './descriptive.ts';
+import { studentTCdf } from './distributions.ts';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationMatrix {
+  method: CorrelationMethod;
+  variables: string[];
+  sample_size: number;
+  coefficients: Record<string, Record<string, number>>;
+  p_values: Record<string, Record<string, number>>;
+}
+
+export function pearsonCorrelation(x: number[], y: number[]): number {
+  if (x.length !== y.length || x.length < 3) {
+    throw new Error('Correlation requires two series of equal length with at least 3 observations');
+  }
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) {
+    throw new Error('Correlation is undefined for a constant series');
+  }
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+export function spearmanCorrelation(x: number[], y: number[]): number {
+  return pearsonCorrelation(ranks(x), ranks(y));
+}
+
+// Two-sided p-value for H0: ρ = 0 using the t approximation
+export function correlationPValue(r: number, n: number): number {
+  if (Math.abs(r) >= 1) return 0;
+  const t = r * Math.sqrt((n - 2) / (1 - r * r));
+  return 2 * (1 - studentTCdf(Math.abs(t), n - 2));
+}
+
+export function correlationMatrix(
+  data: Record<string, number[]>,
+  method: CorrelationMethod = 'pearson'
+): CorrelationMatrix {
+  const variables = Object.keys(data);
+  const n = data[variables[0]]?.length ?? 0;
+  if (variables.length < 2) {
+    throw new Error('Correlation matrix requires at least two variables');
+  }
+  if (variables.some(v => data[v].length !== n)) {
+    throw new Error('All variables must have the same number of observations');
+  }
+
+  const correlate = method === 'spearman' ? spearmanCorrelation : pearsonCorrelation;
+  const coefficients: Record<string, Record<string, number>> = {};
+  const pValues: Record<string, Record<string, number>> = {};
+  variables.forEach(v => {
+    coefficients[v] = {};
+    pValues[v] = {};
+  });
+
+  variables.forEach((a, i) => {
+    coefficients[a][a] = 1;
+    pValues[a][a] = 0;
+    variables.slice(i + 1).forEach(b => {
+      const r = correlate(data[a], data[b]);
+      const p = correlationPValue(r, n);
+      coefficients[a][b] = coefficients[b][a] = r;
+      pValues[a][b] = pValues[b][a] = p;
+    });
+  });
+
+  return { method, variables, sample_size: n, coefficients, p_values: pValues };
+}
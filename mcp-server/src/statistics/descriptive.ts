@@ -0,0 +1,63 @@
+// Descriptive statistics for Six Sigma MCP
+// Shared helpers used by the capability, MSA and hypothesis test modules
+
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    throw new Error('Cannot compute mean of an empty sample');
+  }
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample variance (n - 1 denominator)
+export function variance(values: number[]): number {
+  if (values.length < 2) {
+    throw new Error('At least two observations are required to compute variance');
+  }
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(variance(values));
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+// Linear interpolation between closest ranks (Hyndman & Fan type 7)
+export function quantile(values: number[], p: number): number {
+  if (values.length === 0) {
+    throw new Error('Cannot compute quantile of an empty sample');
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function movingRanges(values: number[]): number[] {
+  const ranges: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    ranges.push(Math.abs(values[i] - values[i - 1]));
+  }
+  return ranges;
+}
+
+// Fractional ranks (1-based); tied values share the average of their positions
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = averageRank;
+    i = j + 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,205 @@
+// Gage R&R Engine for Six Sigma MCP
+// Crossed measurement system analysis (parts x operators x trials) using the ANOVA method
+
+import { mean } from './descriptive.ts';
+import { fSurvival } from './distributions.ts';
+
+// AIAG guidance: drop the operator*part interaction from the model when it is not significant at 0.25
+const INTERACTION_ALPHA = 0.25;
+
+export interface GageStudy {
+  // measurements[part][operator][trial]
+  measurements: number[][][];
+  // Spec range (USL - LSL) for %Tolerance; omitted when the characteristic is one-sided
+  tolerance?: number;
+}
+
+export interface AnovaRow {
+  source: string;
+  df: number;
+  ss: number;
+  ms: number;
+  f?: number;
+  p_value?: number;
+}
+
+export interface GageVarianceComponents {
+  repeatability: number;
+  reproducibility: number;
+  operator: number;
+  operator_part: number;
+  gage_rr: number;
+  part_to_part: number;
+  total: number;
+}
+
+export interface GageRRResult {
+  method: 'anova_crossed';
+  parts: number;
+  operators: number;
+  trials: number;
+  anova_table: AnovaRow[];
+  interaction_pooled: boolean;
+  variance_components: GageVarianceComponents;
+  // Percent of total study variation (ratio of standard deviations)
+  percent_ev: number;
+  percent_av: number;
+  percent_grr: number;
+  percent_pv: number;
+  percent_tolerance_grr?: number;
+  // Parts the gage tells apart (AIAG ndc); null when the study shows no measurement error to divide by
+  distinct_categories: number | null;
+  distinct_categories_note?: string;
+  verdict: 'acceptable' | 'marginal' | 'unacceptable';
+}
+
+export function analyzeGageRR(study: GageStudy): GageRRResult {
+  const { p, o, r } = validateStudy(study.measurements);
+  const y = study.measurements;
+
+  const all = y.flat(2);
+  const grandMean = mean(all);
+  const partMeans = y.map(part => mean(part.flat()));
+  const operatorMeans = Array.from({ length: o }, (_, j) => mean(y.map(part => part[j]).flat()));
+  const cellMeans = y.map(part => part.map(trials => mean(trials)));
+
+  const ssTotal = all.reduce((sum, v) => sum + (v - grandMean) ** 2, 0);
+  const ssPart = o * r * partMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+  const ssOperator = p * r * operatorMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+  let ssError = 0;
+  y.forEach((part, i) => part.forEach((trials, j) => trials.forEach(v => {
+    ssError += (v - cellMeans[i][j]) ** 2;
+  })));
+  const ssInteraction = Math.max(0, ssTotal - ssPart - ssOperator - ssError);
+
+  const dfPart = p - 1;
+  const dfOperator = o - 1;
+  const dfInteraction = (p - 1) * (o - 1);
+  const dfError = p * o * (r - 1);
+
+  const msPart = ssPart / dfPart;
+  const msOperator = ssOperator / dfOperator;
+  const msInteraction = ssInteraction / dfInteraction;
+  const msError = ssError / dfError;
+
+  const fInteraction = msError > 0 ? msInteraction / msError : Infinity;
+  const pInteraction = msError > 0 ? fSurvival(fInteraction, dfInteraction, dfError) : 0;
+  const pooled = pInteraction > INTERACTION_ALPHA;
+
+  let anovaTable: AnovaRow[];
+  let components: Omit<GageVarianceComponents, 'reproducibility' | 'gage_rr' | 'total'>;
+
+  if (pooled) {
+    // Reduced model: interaction folded into repeatability
+    const dfRepeat = dfInteraction + dfError;
+    const msRepeat = (ssInteraction + ssError) / dfRepeat;
+    anovaTable = [
+      fRow('Part', dfPart, ssPart, msPart, msRepeat, dfRepeat),
+      fRow('Operator', dfOperator, ssOperator, msOperator, msRepeat, dfRepeat),
+      { source: 'Repeatability', df: dfRepeat, ss: ssInteraction + ssError, ms: msRepeat },
+      { source: 'Total', df: p * o * r - 1, ss: ssTotal, ms: ssTotal / (p * o * r - 1) }
+    ];
+    components = {
+      repeatability: msRepeat,
+      operator: Math.max(0, (msOperator - msRepeat) / (p * r)),
+      operator_part: 0,
+      part_to_part: Math.max(0, (msPart - msRepeat) / (o * r))
+    };
+  } else {
+    anovaTable = [
+      fRow('Part', dfPart, ssPart, msPart, msInteraction, dfInteraction),
+      fRow('Operator', dfOperator, ssOperator, msOperator, msInteraction, dfInteraction),
+      fRow('Part * Operator', dfInteraction, ssInteraction, msInteraction, msError, dfError),
+      { source: 'Repeatability', df: dfError, ss: ssError, ms: msError },
+      { source: 'Total', df: p * o * r - 1, ss: ssTotal, ms: ssTotal / (p * o * r - 1) }
+    ];
+    components = {
+      repeatability: msError,
+      operator: Math.max(0, (msOperator - msInteraction) / (p * r)),
+      operator_part: Math.max(0, (msInteraction - msError) / r),
+      part_to_part: Math.max(0, (msPart - msInteraction) / (o * r))
+    };
+  }
+
+  const reproducibility = components.operator + components.operator_part;
+  const gageRR = components.repeatability + reproducibility;
+  const total = gageRR + components.part_to_part;
+  if (total === 0) {
+    throw new Error('Gage study shows no variation; R&R is undefined');
+  }
+
+  const sdTotal = Math.sqrt(total);
+  const percentGRR = 100 * Math.sqrt(gageRR) / sdTotal;
+  // Without part-to-part variation nothing can be told apart; AIAG floors the count at 1 otherwise
+  const distinctCategories = gageRR === 0
+    ? null
+    : components.part_to_part === 0
+      ? 0
+      : Math.max(1, Math.floor(Math.SQRT2 * Math.sqrt(components.part_to_part / gageRR)));
+
+  return {
+    method: 'anova_crossed',
+    parts: p,
+    operators: o,
+    trials: r,
+    anova_table: anovaTable,
+    interaction_pooled: pooled,
+    variance_components: {
+      ...components,
+      reproducibility,
+      gage_rr: gageRR,
+      total
+    },
+    percent_ev: 100 * Math.sqrt(components.repeatability) / sdTotal,
+    percent_av: 100 * Math.sqrt(reproducibility) / sdTotal,
+    percent_grr: percentGRR,
+    percent_pv: 100 * Math.sqrt(components.part_to_part) / sdTotal,
+    percent_tolerance_grr: study.tolerance && study.tolerance > 0
+      ? 100 * 6 * Math.sqrt(gageRR) / study.tolerance
+      : undefined,
+    distinct_categories: distinctCategories,
+    distinct_categories_note: distinctCategories === null
+      ? 'Repeated readings agree exactly; check that the gage resolution is fine enough to show measurement error'
+      : distinctCategories === 0
+        ? 'Parts do not vary beyond measurement error; the study needs parts spanning the process range'
+        : undefined,
+    verdict: gageVerdict(percentGRR, distinctCategories)
+  };
+}
+
+// AIAG MSA: <10% acceptable, 10-30% marginal, >30% unacceptable; at least 5 distinct categories
+function gageVerdict(percentGRR: number, distinctCategories: number | null): GageRRResult['verdict'] {
+  const categories = distinctCategories ?? Infinity;
+  if (percentGRR > 30 || categories < 2) {
+    return 'unacceptable';
+  }
+  if (percentGRR > 10 || categories < 5) {
+    return 'marginal';
+  }
+  return 'acceptable';
+}
+
+function fRow(source: string, df: number, ss: number, ms: number, msDenominator: number, dfDenominator: number): AnovaRow {
+  const f = msDenominator > 0 ? ms / msDenominator : Infinity;
+  return { source, df, ss, ms, f, p_value: msDenominator > 0 ? fSurvival(f, df, dfDenominator) : 0 };
+}
+
+function validateStudy(measurements: number[][][]): { p: number; o: number; r: number } {
+  const p = measurements.length;
+  const o = measurements[0]?.length ?? 0;
+  const r = measurements[0]?.[0]?.length ?? 0;
+
+  if (p < 2 || o < 2 || r < 2) {
+    throw new Error('Gage study requires at least 2 parts, 2 operators and 2 trials');
+  }
+  measurements.forEach((part, i) => {
+    if (part.length !== o || part.some(trials => trials.length !== r)) {
+      throw new Error(`Gage study must be balanced: part ${i + 1} does not have ${o} operators x ${r} trials`);
+    }
+    if (part.some(trials => trials.some(v => !Number.isFinite(v)))) {
+      throw new Error(`Gage study contains a non-numeric measurement for part ${i + 1}`);
+    }
+  });
+
+  return { p, o, r };
+}
@@ -0,0 +1,394 @@
+// Hypothesis Test Library for Six Sigma MCP
+// Parametric and non-parametric tests used in the Analyze phase to verify suspected root causes
+
+import { mean, variance, ranks } from './descriptive.ts';
+import { normalCdf, studentTCdf, fSurvival, chiSquareSurvival } from './distributions.ts';
+import { assessNormality } from './normality.ts';
+
+export type Alternative = 'two_sided' | 'less' | 'greater';
+
+export type TestKind =
+  | 'one_sample_t'
+  | 'two_sample_t'
+  | 'welch_t'
+  | 'paired_t'
+  | 'one_way_anova'
+  | 'chi_square'
+  | 'mann_whitney'
+  | 'kruskal_wallis';
+
+export interface TestOptions {
+  alternative?: Alternative;
+  significance_level?: number;
+}
+
+export interface EffectSize {
+  measure: 'cohens_d' | 'cohens_dz' | 'eta_squared' | 'cramers_v' | 'rank_biserial' | 'epsilon_squared';
+  value: number;
+}
+
+export interface HypothesisTestResult {
+  test_name: string;
+  null_hypothesis: string;
+  alternative_hypothesis: string;
+  test_statistic: number;
+  degrees_of_freedom: number | [number, number] | null;
+  p_value: number;
+  effect_size: EffectSize;
+  significance_level: number;
+  result: 'reject_null' | 'fail_to_reject';
+}
+
+export interface HypothesisTestRequest extends TestOptions {
+  // 'auto' picks a test from the shape of the data
+  test?: TestKind | 'auto';
+  // Sample groups; for two-sample and paired tests groups[0] is "before" and groups[1] is "after"
+  groups?: number[][];
+  paired?: boolean;
+  hypothesized_mean?: number;
+  // Observed counts, rows x columns
+  contingency_table?: number[][];
+}
+
+const DEFAULT_ALPHA = 0.05;
+
+export function runHypothesisTest(request: HypothesisTestRequest): HypothesisTestResult {
+  const test = !request.test || request.test === 'auto' ? selectTest(request) : request.test;
+  const groups = request.groups ?? [];
+
+  switch (test) {
+    case 'one_sample_t':
+      requireGroups(test, groups, 1, 1);
+      if (request.hypothesized_mean === undefined) {
+        throw new Error('one_sample_t requires hypothesized_mean');
+      }
+      return oneSampleTTest(groups[0], request.hypothesized_mean, request);
+    case 'two_sample_t':
+      requireGroups(test, groups, 2, 2);
+      return twoSampleTTest(groups[0], groups[1], { ...request, equal_variance: true });
+    case 'welch_t':
+      requireGroups(test, groups, 2, 2);
+      return twoSampleTTest(groups[0], groups[1], { ...request, equal_variance: false });
+    case 'paired_t':
+      requireGroups(test, groups, 2, 2);
+      return pairedTTest(groups[0], groups[1], request);
+    case 'one_way_anova':
+      requireGroups(test, groups, 2, Infinity);
+      return oneWayAnova(groups, request);
+    case 'chi_square':
+      if (!request.contingency_table) {
+        throw new Error('chi_square requires contingency_table');
+      }
+      return chiSquareTest(request.contingency_table, request);
+    case 'mann_whitney':
+      requireGroups(test, groups, 2, 2);
+      return mannWhitneyU(groups[0], groups[1], request);
+    case 'kruskal_wallis':
+      requireGroups(test, groups, 2, Infinity);
+      return kruskalWallis(groups, request);
+    default:
+      throw new Error(`Unknown hypothesis test: ${test}`);
+  }
+}
+
+// Parametric test for the data supplied, or its rank-based counterpart when an independent group departs
+// from normality; groups too small to judge are assumed normal
+export function selectTest(request: HypothesisTestRequest): TestKind {
+  if (request.contingency_table) {
+    return 'chi_square';
+  }
+  const groupCount = request.groups?.length ?? 0;
+  if (groupCount === 0) {
+    throw new Error('Hypothesis test requires groups or a contingency_table');
+  }
+  if (groupCount === 1) {
+    return 'one_sample_t';
+  }
+  if (groupCount === 2 && request.paired) {
+    return 'paired_t';
+  }
+  const normal = request.groups!.every(group => !departsFromNormality(group));
+  if (groupCount === 2) {
+    return normal ? 'welch_t' : 'mann_whitney';
+  }
+  return normal ? 'one_way_anova' : 'kruskal_wallis';
+}
+
+export function oneSampleTTest(sample: number[], hypothesizedMean: number, options: TestOptions = {}): HypothesisTestResult {
+  requireSize(sample, 2, 'sample');
+  const alternative = options.alternative ?? 'two_sided';
+  const m = mean(sample);
+  const sd = Math.sqrt(variance(sample));
+  const se = sd / Math.sqrt(sample.length);
+  requirePositive(se, 'Sample has zero variance');
+
+  const t = (m - hypothesizedMean) / se;
+  const df = sample.length - 1;
+
+  return buildResult({
+    test_name: 'One-sample t-test',
+    null_hypothesis: `μ = ${hypothesizedMean}`,
+    alternative_hypothesis: `μ ${alternativeSymbol(alternative)} ${hypothesizedMean}`,
+    test_statistic: t,
+    degrees_of_freedom: df,
+    p_value: tailProbability(studentTCdf(t, df), alternative),
+    effect_size: { measure: 'cohens_d', value: (m - hypothesizedMean) / sd }
+  }, options);
+}
+
+export function twoSampleTTest(
+  a: number[],
+  b: number[],
+  options: TestOptions & { equal_variance?: boolean } = {}
+): HypothesisTestResult {
+  requireSize(a, 2, 'first group');
+  requireSize(b, 2, 'second group');
+  const alternative = options.alternative ?? 'two_sided';
+  const na = a.length;
+  const nb = b.length;
+  const va = variance(a);
+  const vb = variance(b);
+  const difference = mean(a) - mean(b);
+
+  let se: number;
+  let df: number;
+  let effectSd: number;
+  if (options.equal_variance) {
+    const pooledVariance = ((na - 1) * va + (nb - 1) * vb) / (na + nb - 2);
+    se = Math.sqrt(pooledVariance * (1 / na + 1 / nb));
+    df = na + nb - 2;
+    effectSd = Math.sqrt(pooledVariance);
+  } else {
+    // Welch-Satterthwaite approximation
+    se = Math.sqrt(va / na + vb / nb);
+    df = (va / na + vb / nb) ** 2 / ((va / na) ** 2 / (na - 1) + (vb / nb) ** 2 / (nb - 1));
+    effectSd = Math.sqrt((va + vb) / 2);
+  }
+  requirePositive(se, 'Both groups have zero variance');
+
+  const t = difference / se;
+  return buildResult({
+    test_name: options.equal_variance ? 'Two-sample t-test (pooled variance)' : "Welch's t-test",
+    null_hypothesis: 'μ1 = μ2',
+    alternative_hypothesis: `μ1 ${alternativeSymbol(alternative)} μ2`,
+    test_statistic: t,
+    degrees_of_freedom: df,
+    p_value: tailProbability(studentTCdf(t, df), alternative),
+    effect_size: { measure: 'cohens_d', value: difference / effectSd }
+  }, options);
+}
+
+export function pairedTTest(before: number[], after: number[], options: TestOptions = {}): HypothesisTestResult {
+  if (before.length !== after.length) {
+    throw new Error(`Paired samples must have equal length (${before.length} vs ${after.length})`);
+  }
+  const differences = before.map((v, i) => v - after[i]);
+  requireSize(differences, 2, 'paired differences');
+  const alternative = options.alternative ?? 'two_sided';
+  const m = mean(differences);
+  const sd = Math.sqrt(variance(differences));
+  const se = sd / Math.sqrt(differences.length);
+  requirePositive(se, 'Paired differences have zero variance');
+
+  const t = m / se;
+  const df = differences.length - 1;
+  return buildResult({
+    test_name: 'Paired t-test',
+    null_hypothesis: 'μd = 0 (d = before - after)',
+    alternative_hypothesis: `μd ${alternativeSymbol(alternative)} 0`,
+    test_statistic: t,
+    degrees_of_freedom: df,
+    p_value: tailProbability(studentTCdf(t, df), alternative),
+    effect_size: { measure: 'cohens_dz', value: m / sd }
+  }, options);
+}
+
+export function oneWayAnova(groups: number[][], options: TestOptions = {}): HypothesisTestResult {
+  groups.forEach((g, i) => requireSize(g, 1, `group ${i + 1}`));
+  const all = groups.flat();
+  const grandMean = mean(all);
+  const ssBetween = groups.reduce((sum, g) => sum + g.length * (mean(g) - grandMean) ** 2, 0);
+  const ssWithin = groups.reduce((sum, g) => {
+    const m = mean(g);
+    return sum + g.reduce((s, v) => s + (v - m) ** 2, 0);
+  }, 0);
+  const dfBetween = groups.length - 1;
+  const dfWithin = all.length - groups.length;
+  if (dfWithin < 1) {
+    throw new Error('One-way ANOVA needs more observations than groups');
+  }
+  requirePositive(ssWithin, 'Groups have zero within-group variance');
+
+  const f = (ssBetween / dfBetween) / (ssWithin / dfWithin);
+  return buildResult({
+    test_name: 'One-way ANOVA',
+    null_hypothesis: 'All group means are equal',
+    alternative_hypothesis: 'At least one group mean differs',
+    test_statistic: f,
+    degrees_of_freedom: [dfBetween, dfWithin],
+    p_value: fSurvival(f, dfBetween, dfWithin),
+    effect_size: { measure: 'eta_squared', value: ssBetween / (ssBetween + ssWithin) }
+  }, options);
+}
+
+export function chiSquareTest(table: number[][], options: TestOptions = {}): HypothesisTestResult {
+  const rows = table.length;
+  const cols = table[0]?.length ?? 0;
+  if (rows < 2 || cols < 2 || table.some(row => row.length !== cols)) {
+    throw new Error('Chi-square test requires a rectangular contingency table of at least 2x2');
+  }
+  if (table.some(row => row.some(v => !Number.isFinite(v) || v < 0))) {
+    throw new Error('Contingency table counts must be non-negative numbers');
+  }
+
+  const rowTotals = table.map(row => row.reduce((s, v) => s + v, 0));
+  const colTotals = table[0].map((_, j) => table.reduce((s, row) => s + row[j], 0));
+  const total = rowTotals.reduce((s, v) => s + v, 0);
+  if (rowTotals.includes(0) || colTotals.includes(0)) {
+    throw new Error('Contingency table has an empty row or column');
+  }
+
+  let chi2 = 0;
+  table.forEach((row, i) => row.forEach((observed, j) => {
+    const expected = rowTotals[i] * colTotals[j] / total;
+    chi2 += (observed - expected) ** 2 / expected;
+  }));
+  const df = (rows - 1) * (cols - 1);
+
+  return buildResult({
+    test_name: 'Chi-square test of independence',
+    null_hypothesis: 'Row and column variables are independent',
+    alternative_hypothesis: 'Row and column variables are associated',
+    test_statistic: chi2,
+    degrees_of_freedom: df,
+    p_value: chiSquareSurvival(chi2, df),
+    effect_size: { measure: 'cramers_v', value: Math.sqrt(chi2 / (total * (Math.min(rows, cols) - 1))) }
+  }, options);
+}
+
+// Normal approximation with tie and continuity corrections
+export function mannWhitneyU(a: number[], b: number[], options: TestOptions = {}): HypothesisTestResult {
+  requireSize(a, 1, 'first group');
+  requireSize(b, 1, 'second group');
+  const alternative = options.alternative ?? 'two_sided';
+  const na = a.length;
+  const nb = b.length;
+  const n = na + nb;
+  const ranked = ranks([...a, ...b]);
+  const rankSumA = ranked.slice(0, na).reduce((s, r) => s + r, 0);
+  const u = rankSumA - na * (na + 1) / 2;
+
+  const expected = na * nb / 2;
+  const sd = Math.sqrt(na * nb / 12 * ((n + 1) - tieCorrectionSum([...a, ...b]) / (n * (n - 1))));
+  requirePositive(sd, 'All observations are tied');
+
+  const continuity = alternative === 'two_sided' ? Math.sign(u - expected) * 0.5
+    : alternative === 'greater' ? 0.5 : -0.5;
+  const z = (u - expected - continuity) / sd;
+
+  return buildResult({
+    test_name: 'Mann-Whitney U test',
+    null_hypothesis: 'Both groups come from the same distribution',
+    alternative_hypothesis: alternative === 'two_sided'
+      ? 'The distributions differ in location'
+      : `Group 1 is stochastically ${alternative === 'greater' ? 'greater' : 'less'} than group 2`,
+    test_statistic: u,
+    degrees_of_freedom: null,
+    p_value: tailProbability(normalCdf(z), alternative),
+    effect_size: { measure: 'rank_biserial', value: 2 * u / (na * nb) - 1 }
+  }, options);
+}
+
+export function kruskalWallis(groups: number[][], options: TestOptions = {}): HypothesisTestResult {
+  groups.forEach((g, i) => requireSize(g, 1, `group ${i + 1}`));
+  const all = groups.flat();
+  const n = all.length;
+  const ranked = ranks(all);
+
+  let offset = 0;
+  let h = 0;
+  for (const group of groups) {
+    const rankSum = ranked.slice(offset, offset + group.length).reduce((s, r) => s + r, 0);
+    h += rankSum ** 2 / group.length;
+    offset += group.length;
+  }
+  h = 12 / (n * (n + 1)) * h - 3 * (n + 1);
+
+  const tieFactor = 1 - tieCorrectionSum(all) / (n ** 3 - n);
+  requirePositive(tieFactor, 'All observations are tied');
+  h /= tieFactor;
+  const df = groups.length - 1;
+
+  return buildResult({
+    test_name: 'Kruskal-Wallis H test',
+    null_hypothesis: 'All groups come from the same distribution',
+    alternative_hypothesis: 'At least one group differs in location',
+    test_statistic: h,
+    degrees_of_freedom: df,
+    p_value: chiSquareSurvival(h, df),
+    effect_size: { measure: 'epsilon_squared', value: h / (n - 1) }
+  }, options);
+}
+
+function buildResult(
+  partial: Omit<HypothesisTestResult, 'significance_level' | 'result'>,
+  options: TestOptions
+): HypothesisTestResult {
+  const alpha = options.significance_level ?? DEFAULT_ALPHA;
+  return {
+    ...partial,
+    significance_level: alpha,
+    result: partial.p_value < alpha ? 'reject_null' : 'fail_to_reject'
+  };
+}
+
+function tailProbability(cdf: number, alternative: Alternative): number {
+  switch (alternative) {
+    case 'less':
+      return cdf;
+    case 'greater':
+      return 1 - cdf;
+    default:
+      return Math.min(1, 2 * Math.min(cdf, 1 - cdf));
+  }
+}
+
+function alternativeSymbol(alternative: Alternative): string {
+  return alternative === 'less' ? '<' : alternative === 'greater' ? '>' : '≠';
+}
+
+// Σ(t³ - t) over groups of tied values
+function tieCorrectionSum(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let sum = 0;
+  counts.forEach(t => { sum += t ** 3 - t; });
+  return sum;
+}
+
+// Anderson-Darling needs 8 observations and some spread; without them normality cannot be rejected
+function departsFromNormality(group: number[]): boolean {
+  if (group.length < 8 || variance(group) === 0) {
+    return false;
+  }
+  return !assessNormality(group).is_normal;
+}
+
+function requireGroups(test: string, groups: number[][], min: number, max: number) {
+  if (groups.length < min || groups.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    throw new Error(`${test} requires ${expected} group(s), got ${groups.length}`);
+  }
+}
+
+function requireSize(values: number[], min: number, label: string) {
+  if (values.length < min || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`The ${label} needs at least ${min} finite observation(s)`);
+  }
+}
+
+function requirePositive(value: number, message: string) {
+  if (!(value > 0)) {
+    throw new Error(message);
+  }
+}
@@ -0,0 +1,130 @@
+// Nelson Rules for Six Sigma MCP
+// Special-cause detection on control chart points using the eight Nelson (1984) run rules
+
+export type NelsonRule = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export const ALL_NELSON_RULES: NelsonRule[] = [1, 2, 3, 4, 5, 6, 7, 8];
+
+export const NELSON_RULE_DESCRIPTIONS: Record<NelsonRule, string> = {
+  1: 'One point beyond 3σ from the center line',
+  2: 'Nine points in a row on the same side of the center line',
+  3: 'Six points in a row steadily increasing or decreasing',
+  4: 'Fourteen points in a row alternating up and down',
+  5: 'Two out of three points beyond 2σ on the same side',
+  6: 'Four out of five points beyond 1σ on the same side',
+  7: 'Fifteen points in a row within 1σ of the center line',
+  8: 'Eight points in a row beyond 1σ on either side'
+};
+
+export interface ChartLimits {
+  center_line: number;
+  // Upper 3σ limit, per point when limits vary with sample size
+  ucl: number | number[];
+}
+
+export interface RuleViolation {
+  rule: NelsonRule;
+  description: string;
+  // Indices of the points that make up the pattern; overlapping runs are merged
+  points: number[];
+}
+
+export function evaluateNelsonRules(
+  points: number[],
+  limits: ChartLimits,
+  rules: NelsonRule[] = ALL_NELSON_RULES
+): RuleViolation[] {
+  // Zones are measured in σ of the plotted statistic; the lower limit may be clamped at zero,
+  // so σ is taken from the upper limit
+  const z = points.map((x, i) => {
+    const ucl = Array.isArray(limits.ucl) ? limits.ucl[i] : limits.ucl;
+    const sigma = (ucl - limits.center_line) / 3;
+    if (!(sigma > 0)) {
+      throw new Error('Upper control limit must lie above the center line');
+    }
+    return (x - limits.center_line) / sigma;
+  });
+
+  const violations: RuleViolation[] = [];
+  for (const rule of [...new Set(rules)].sort((a, b) => a - b)) {
+    if (!NELSON_RULE_DESCRIPTIONS[rule]) {
+      throw new Error(`Unknown Nelson rule: ${rule}`);
+    }
+    const windows = ruleWindows(rule, z);
+    mergeWindows(windows).forEach(indices => {
+      violations.push({ rule, description: NELSON_RULE_DESCRIPTIONS[rule], points: indices });
+    });
+  }
+  return violations;
+}
+
+// Each window is the inclusive [start, end] span of points matching the rule
+function ruleWindows(rule: NelsonRule, z: number[]): [number, number][] {
+  switch (rule) {
+    case 1:
+      return z.flatMap((v, i) => Math.abs(v) > 3 ? [[i, i] as [number, number]] : []);
+    case 2:
+      return runs(z, 9, (i, start) => Math.sign(z[i]) !== 0 && Math.sign(z[i]) === Math.sign(z[start]));
+    case 3:
+      return runs(z, 6, (i, start) => {
+        if (i === start) return true;
+        const direction = Math.sign(z[start + 1] - z[start]);
+        return direction !== 0 && Math.sign(z[i] - z[i - 1]) === direction;
+      });
+    case 4:
+      return runs(z, 14, (i, start) => {
+        if (i - start < 2) return i === start || z[i] !== z[i - 1];
+        return Math.sign(z[i] - z[i - 1]) === -Math.sign(z[i - 1] - z[i - 2]) && z[i] !== z[i - 1];
+      });
+    case 5:
+      return kOfM(z, 2, 3, 2);
+    case 6:
+      return kOfM(z, 4, 5, 1);
+    case 7:
+      return runs(z, 15, i => Math.abs(z[i]) < 1);
+    case 8:
+      return runs(z, 8, i => Math.abs(z[i]) > 1);
+  }
+}
+
+// Windows of `length` consecutive points in which every point satisfies `matches(i, start)`
+function runs(
+  z: number[],
+  length: number,
+  matches: (i: number, start: number) => boolean
+): [number, number][] {
+  const windows: [number, number][] = [];
+  for (let start = 0; start + length <= z.length; start++) {
+    let ok = true;
+    for (let i = start; i < start + length && ok; i++) {
+      ok = matches(i, start);
+    }
+    if (ok) windows.push([start, start + length - 1]);
+  }
+  return windows;
+}
+
+// Windows of m points in which at least k lie beyond `threshold`σ on the same side
+function kOfM(z: number[], k: number, m: number, threshold: number): [number, number][] {
+  const windows: [number, number][] = [];
+  for (let start = 0; start + m <= z.length; start++) {
+    const window = z.slice(start, start + m);
+    const above = window.filter(v => v > threshold).length;
+    const below = window.filter(v => v < -threshold).length;
+    if (above >= k || below >= k) windows.push([start, start + m - 1]);
+  }
+  return windows;
+}
+
+function mergeWindows(windows: [number, number][]): number[][] {
+  const merged: [number, number][] = [];
+  windows.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged.map(([start, end]) => Array.from({ length: end - start + 1 }, (_, i) => start + i));
+}
@@ -0,0 +1,142 @@
+// Normality Tests for Six Sigma MCP
+// Anderson-Darling and Shapiro-Wilk goodness-of-fit tests for the normal distribution
+
+import { mean, standardDeviation } from './descriptive.ts';
+import { normalCdf, normalQuantile } from './distributions.ts';
+
+export interface NormalityTestResult {
+  test_name: 'Anderson-Darling' | 'Shapiro-Wilk';
+  statistic: number;
+  p_value: number;
+}
+
+export interface NormalityAssessment {
+  sample_size: number;
+  anderson_darling: NormalityTestResult;
+  shapiro_wilk: NormalityTestResult;
+  significance_level: number;
+  is_normal: boolean;
+}
+
+// Normality is judged on the Anderson-Darling p-value, which is more sensitive in the tails
+export function assessNormality(samples: number[], significanceLevel = 0.05): NormalityAssessment {
+  const anderson = andersonDarling(samples);
+  return {
+    sample_size: samples.length,
+    anderson_darling: anderson,
+    shapiro_wilk: shapiroWilk(samples),
+    significance_level: significanceLevel,
+    is_normal: anderson.p_value >= significanceLevel
+  };
+}
+
+// Anderson-Darling with mean and variance estimated from the sample (D'Agostino & Stephens, 1986)
+export function andersonDarling(samples: number[]): NormalityTestResult {
+  const n = samples.length;
+  if (n < 8) {
+    throw new Error('Anderson-Darling test requires at least 8 observations');
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const m = mean(sorted);
+  const sd = standardDeviation(sorted);
+  if (sd === 0) {
+    throw new Error('Normality is undefined for a constant sample');
+  }
+
+  const cdf = sorted.map(x => clampProbability(normalCdf((x - m) / sd)));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (2 * i + 1) * (Math.log(cdf[i]) + Math.log(1 - cdf[n - 1 - i]));
+  }
+  const a2 = -n - sum / n;
+  const adjusted = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+
+  let p: number;
+  if (adjusted >= 0.6) {
+    p = Math.exp(1.2937 - 5.709 * adjusted + 0.0186 * adjusted ** 2);
+  } else if (adjusted >= 0.34) {
+    p = Math.exp(0.9177 - 4.279 * adjusted - 1.38 * adjusted ** 2);
+  } else if (adjusted >= 0.2) {
+    p = 1 - Math.exp(-8.318 + 42.796 * adjusted - 59.938 * adjusted ** 2);
+  } else {
+    p = 1 - Math.exp(-13.436 + 101.14 * adjusted - 223.73 * adjusted ** 2);
+  }
+
+  return { test_name: 'Anderson-Darling', statistic: a2, p_value: Math.min(1, Math.max(0, p)) };
+}
+
+// Shapiro-Wilk W using Royston's (1995) approximation, valid for 3 <= n <= 5000
+export function shapiroWilk(samples: number[]): NormalityTestResult {
+  const n = samples.length;
+  if (n < 3 || n > 5000) {
+    throw new Error('Shapiro-Wilk test requires between 3 and 5000 observations');
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const m = mean(sorted);
+  const ss = sorted.reduce((s, x) => s + (x - m) ** 2, 0);
+  if (ss === 0) {
+    throw new Error('Normality is undefined for a constant sample');
+  }
+
+  const weights = shapiroWilkWeights(n);
+  const numerator = weights.reduce((s, a, i) => s + a * sorted[i], 0) ** 2;
+  const w = Math.min(1, numerator / ss);
+
+  let p: number;
+  if (n === 3) {
+    p = Math.max(0, 6 / Math.PI * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75))));
+  } else if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const transformed = -Math.log(gamma - Math.log(1 - w));
+    const mu = 0.544 - 0.39978 * n + 0.025054 * n ** 2 - 0.0006714 * n ** 3;
+    const sigma = Math.exp(1.3822 - 0.77857 * n + 0.062767 * n ** 2 - 0.0020322 * n ** 3);
+    p = 1 - normalCdf((transformed - mu) / sigma);
+  } else {
+    const u = Math.log(n);
+    const transformed = Math.log(1 - w);
+    const mu = -1.5861 - 0.31082 * u - 0.083751 * u ** 2 + 0.0038915 * u ** 3;
+    const sigma = Math.exp(-0.4803 - 0.082676 * u + 0.0030302 * u ** 2);
+    p = 1 - normalCdf((transformed - mu) / sigma);
+  }
+
+  return { test_name: 'Shapiro-Wilk', statistic: w, p_value: Math.min(1, Math.max(0, p)) };
+}
+
+function shapiroWilkWeights(n: number): number[] {
+  const m = Array.from({ length: n }, (_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+  const mm = m.reduce((s, v) => s + v * v, 0);
+  const u = 1 / Math.sqrt(n);
+  const weights = new Array<number>(n);
+
+  if (n === 3) {
+    weights[0] = -Math.SQRT1_2;
+    weights[1] = 0;
+    weights[2] = Math.SQRT1_2;
+    return weights;
+  }
+
+  const an = m[n - 1] / Math.sqrt(mm) + 0.221157 * u - 0.147981 * u ** 2 - 2.07119 * u ** 3
+    + 4.434685 * u ** 4 - 2.706056 * u ** 5;
+
+  if (n <= 5) {
+    const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+    for (let i = 1; i < n - 1; i++) weights[i] = m[i] / Math.sqrt(phi);
+    weights[n - 1] = an;
+    weights[0] = -an;
+    return weights;
+  }
+
+  const an1 = m[n - 2] / Math.sqrt(mm) + 0.042981 * u - 0.293762 * u ** 2 - 1.752461 * u ** 3
+    + 5.682633 * u ** 4 - 3.582633 * u ** 5;
+  const phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+  for (let i = 2; i < n - 2; i++) weights[i] = m[i] / Math.sqrt(phi);
+  weights[n - 1] = an;
+  weights[0] = -an;
+  weights[n - 2] = an1;
+  weights[1] = -an1;
+  return weights;
+}
+
+function clampProbability(p: number): number {
+  return Math.min(1 - 1e-15, Math.max(1e-15, p));
+}
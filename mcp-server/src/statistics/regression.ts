@@ -0,0 +1,166 @@
+// Multiple Linear Regression for Six Sigma MCP
+// Ordinary least squares fit of a KPI (Y) against candidate input variables (Xs)
+
+import { mean } from './descriptive.ts';
+import { studentTCdf, fSurvival } from './distributions.ts';
+
+export const INTERCEPT = '(intercept)';
+
+export interface RegressionResult {
+  response: string;
+  predictors: string[];
+  sample_size: number;
+  coefficients: Record<string, number>;
+  standard_errors: Record<string, number>;
+  t_values: Record<string, number>;
+  p_values: Record<string, number>;
+  vif: Record<string, number>;
+  r_squared: number;
+  adjusted_r_squared: number;
+  residual_std_error: number;
+  f_statistic: number;
+  f_p_value: number;
+  significance_level: number;
+  significant_predictors: string[];
+}
+
+export function fitLinearRegression(
+  response: string,
+  y: number[],
+  xs: Record<string, number[]>,
+  significanceLevel = 0.05
+): RegressionResult {
+  const predictors = Object.keys(xs);
+  const n = y.length;
+  const k = predictors.length;
+
+  if (k === 0) {
+    throw new Error('Regression requires at least one predictor');
+  }
+  if (predictors.some(p => xs[p].length !== n)) {
+    throw new Error(`All predictors must have ${n} observations to match ${response}`);
+  }
+  if (n <= k + 1) {
+    throw new Error(`Regression with ${k} predictors needs more than ${k + 1} observations, got ${n}`);
+  }
+
+  const fit = ordinaryLeastSquares(y, predictors.map(p => xs[p]));
+  const dfResidual = n - k - 1;
+  const sse = fit.residuals.reduce((s, e) => s + e * e, 0);
+  const yMean = mean(y);
+  const sst = y.reduce((s, v) => s + (v - yMean) ** 2, 0);
+  if (sst === 0) {
+    throw new Error(`${response} is constant; nothing to explain`);
+  }
+  const mse = sse / dfResidual;
+  const rSquared = 1 - sse / sst;
+  const fStatistic = ((sst - sse) / k) / mse;
+
+  const names = [INTERCEPT, ...predictors];
+  const coefficients: Record<string, number> = {};
+  const standardErrors: Record<string, number> = {};
+  const tValues: Record<string, number> = {};
+  const pValues: Record<string, number> = {};
+  names.forEach((name, i) => {
+    const se = Math.sqrt(mse * fit.inverse[i][i]);
+    const t = fit.beta[i] / se;
+    coefficients[name] = fit.beta[i];
+    standardErrors[name] = se;
+    tValues[name] = t;
+    pValues[name] = 2 * (1 - studentTCdf(Math.abs(t), dfResidual));
+  });
+
+  return {
+    response,
+    predictors,
+    sample_size: n,
+    coefficients,
+    standard_errors: standardErrors,
+    t_values: tValues,
+    p_values: pValues,
+    vif: varianceInflationFactors(xs),
+    r_squared: rSquared,
+    adjusted_r_squared: 1 - (1 - rSquared) * (n - 1) / dfResidual,
+    residual_std_error: Math.sqrt(mse),
+    f_statistic: fStatistic,
+    f_p_value: fSurvival(fStatistic, k, dfResidual),
+    significance_level: significanceLevel,
+    significant_predictors: predictors.filter(p => pValues[p] < significanceLevel)
+  };
+}
+
+// VIF_j = 1 / (1 - R²_j) where R²_j comes from regressing X_j on the other predictors
+export function varianceInflationFactors(xs: Record<string, number[]>): Record<string, number> {
+  const predictors = Object.keys(xs);
+  const vif: Record<string, number> = {};
+
+  predictors.forEach(target => {
+    const others = predictors.filter(p => p !== target);
+    if (others.length === 0) {
+      vif[target] = 1;
+      return;
+    }
+    const y = xs[target];
+    const fit = ordinaryLeastSquares(y, others.map(p => xs[p]));
+    const yMean = mean(y);
+    const sst = y.reduce((s, v) => s + (v - yMean) ** 2, 0);
+    const sse = fit.residuals.reduce((s, e) => s + e * e, 0);
+    const rSquared = sst > 0 ? 1 - sse / sst : 1;
+    vif[target] = rSquared < 1 ? 1 / (1 - rSquared) : Infinity;
+  });
+
+  return vif;
+}
+
+interface OLSFit {
+  beta: number[];
+  inverse: number[][];
+  residuals: number[];
+}
+
+// Solves (X'X)β = X'y with an intercept column prepended to the predictor columns
+function ordinaryLeastSquares(y: number[], columns: number[][]): OLSFit {
+  const design = y.map((_, row) => [1, ...columns.map(col => col[row])]);
+  const p = design[0].length;
+
+  const xtx = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => design.reduce((s, row) => s + row[i] * row[j], 0)));
+  const xty = Array.from({ length: p }, (_, i) => design.reduce((s, row, r) => s + row[i] * y[r], 0));
+
+  const inverse = invertMatrix(xtx);
+  const beta = inverse.map(row => row.reduce((s, v, j) => s + v * xty[j], 0));
+  const residuals = design.map((row, r) => y[r] - row.reduce((s, v, j) => s + v * beta[j], 0));
+
+  return { beta, inverse, residuals };
+}
+
+// Gauss-Jordan elimination with partial pivoting
+function invertMatrix(matrix: number[][]): number[][] {
+  const size = matrix.length;
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))
+  ]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-12) {
+      throw new Error('Predictors are perfectly collinear; remove redundant Xs');
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const pivotValue = augmented[col][col];
+    for (let j = 0; j < 2 * size; j++) augmented[col][j] /= pivotValue;
+
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      for (let j = 0; j < 2 * size; j++) augmented[row][j] -= factor * augmented[col][j];
+    }
+  }
+
+  return augmented.map(row => row.slice(size));
+}
@@ -0,0 +1,272 @@
+// Sample Size and Power Calculator for Six Sigma MCP
+// Sample size, power and minimum detectable effect for means and proportions
+
+import { mean, standardDeviation } from './descriptive.ts';
+import { normalCdf, normalQuantile, studentTCdf, studentTQuantile } from './distributions.ts';
+import { Alternative } from './hypothesis-tests.ts';
+
+export type SampleSizeDesign =
+  | 'mean_estimate'       // estimate a mean to within ± margin_of_error
+  | 'proportion_estimate' // estimate a proportion to within ± margin_of_error
+  | 'one_mean'            // test a mean against a reference
+  | 'two_means'           // compare two independent means
+  | 'one_proportion'      // test a proportion against a reference
+  | 'two_proportions';    // compare two independent proportions
+
+export type SampleSizeCalculation = 'sample_size' | 'power' | 'mde';
+
+export interface SampleSizeRequest {
+  design: SampleSizeDesign;
+  calculate?: SampleSizeCalculation;
+  confidence_level?: number;
+  power?: number;
+  alternative?: Alternative;
+  // Planning standard deviation for mean designs
+  sigma?: number;
+  // Difference to detect (mean designs) or target proportion minus baseline (proportion designs)
+  effect_size?: number;
+  baseline_proportion?: number;
+  margin_of_error?: number;
+  // Per-group sample size when solving for power or minimum detectable effect
+  sample_size?: number;
+}
+
+export interface SampleSizeResult {
+  design: SampleSizeDesign;
+  calculate: SampleSizeCalculation;
+  sample_size_per_group: number;
+  total_sample_size: number;
+  confidence_level: number;
+  alternative: Alternative;
+  power?: number;
+  effect_size?: number;
+  margin_of_error?: number;
+  method: string;
+}
+
+const MAX_ITERATIONS = 100;
+
+export function calculateSampleSize(request: SampleSizeRequest): SampleSizeResult {
+  const calculate = request.calculate ?? 'sample_size';
+  const confidence = request.confidence_level ?? 0.95;
+  const alternative = request.alternative ?? 'two_sided';
+  if (confidence <= 0 || confidence >= 1) {
+    throw new Error('confidence_level must be between 0 and 1');
+  }
+
+  switch (request.design) {
+    case 'mean_estimate':
+    case 'proportion_estimate':
+      return estimationDesign(request, calculate, confidence);
+    case 'one_mean':
+    case 'two_means':
+      return meanTestDesign(request, calculate, confidence, alternative);
+    case 'one_proportion':
+    case 'two_proportions':
+      return proportionTestDesign(request, calculate, confidence, alternative);
+    default:
+      throw new Error(`Unknown sample size design: ${request.design}`);
+  }
+}
+
+// Two-sided t interval for the mean
+export function meanConfidenceInterval(samples: number[], confidenceLevel = 0.95): [number, number] {
+  if (samples.length < 2) {
+    throw new Error('At least two observations are required for a confidence interval');
+  }
+  const m = mean(samples);
+  const halfWidth = studentTQuantile(1 - (1 - confidenceLevel) / 2, samples.length - 1)
+    * standardDeviation(samples) / Math.sqrt(samples.length);
+  return [m - halfWidth, m + halfWidth];
+}
+
+function estimationDesign(
+  request: SampleSizeRequest,
+  calculate: SampleSizeCalculation,
+  confidence: number
+): SampleSizeResult {
+  const isMean = request.design === 'mean_estimate';
+  const spread = isMean
+    ? requirePositive(request.sigma, 'sigma')
+    : Math.sqrt(requireProportion(request.baseline_proportion, 'baseline_proportion') *
+        (1 - request.baseline_proportion!));
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const base = {
+    design: request.design,
+    calculate,
+    confidence_level: confidence,
+    alternative: 'two_sided' as Alternative,
+    method: isMean ? 'Normal approximation, n = (z·σ / E)²' : 'Normal approximation, n = z²·p(1-p) / E²'
+  };
+
+  if (calculate === 'sample_size') {
+    const margin = requirePositive(request.margin_of_error, 'margin_of_error');
+    const n = Math.ceil((z * spread / margin) ** 2);
+    return { ...base, sample_size_per_group: n, total_sample_size: n, margin_of_error: margin };
+  }
+  if (calculate === 'mde') {
+    const n = requirePositive(request.sample_size, 'sample_size');
+    return { ...base, sample_size_per_group: n, total_sample_size: n, margin_of_error: z * spread / Math.sqrt(n) };
+  }
+  throw new Error(`Power is not defined for ${request.design}; use a test design`);
+}
+
+function meanTestDesign(
+  request: SampleSizeRequest,
+  calculate: SampleSizeCalculation,
+  confidence: number,
+  alternative: Alternative
+): SampleSizeResult {
+  const sigma = requirePositive(request.sigma, 'sigma');
+  const groups = request.design === 'two_means' ? 2 : 1;
+  // Standard error multiplier: difference of two means has variance 2σ²/n
+  const k = Math.sqrt(groups);
+  const alpha = 1 - confidence;
+  const criticalFor = (df: number) => studentTQuantile(alternative === 'two_sided' ? 1 - alpha / 2 : 1 - alpha, df);
+  const powerFor = (n: number, delta: number) => {
+    const df = groups * (n - 1);
+    return studentTCdf(Math.abs(delta) * Math.sqrt(n) / (k * sigma) - criticalFor(df), df);
+  };
+  const base = {
+    design: request.design,
+    calculate,
+    confidence_level: confidence,
+    alternative,
+    method: 't-test power (normal shift approximation of the noncentral t)'
+  };
+
+  if (calculate === 'sample_size') {
+    const delta = requireEffect(request.effect_size);
+    const targetPower = requirePower(request.power);
+    // Start from the z-based solution and grow until the t-based power reaches the target
+    const zAlpha = normalQuantile(alternative === 'two_sided' ? 1 - alpha / 2 : 1 - alpha);
+    let n = Math.max(2, Math.ceil(((zAlpha + normalQuantile(targetPower)) * k * sigma / delta) ** 2));
+    while (powerFor(n, delta) < targetPower) n++;
+    return {
+      ...base,
+      sample_size_per_group: n,
+      total_sample_size: n * groups,
+      power: powerFor(n, delta),
+      effect_size: delta
+    };
+  }
+
+  const n = Math.ceil(requirePositive(request.sample_size, 'sample_size'));
+  if (n < 2) {
+    throw new Error('sample_size must be at least 2 for a t-test');
+  }
+  if (calculate === 'power') {
+    const delta = requireEffect(request.effect_size);
+    return { ...base, sample_size_per_group: n, total_sample_size: n * groups, power: powerFor(n, delta), effect_size: delta };
+  }
+
+  const targetPower = requirePower(request.power);
+  const delta = bisect(d => powerFor(n, d) - targetPower, 0, 100 * sigma);
+  return { ...base, sample_size_per_group: n, total_sample_size: n * groups, power: targetPower, effect_size: delta };
+}
+
+function proportionTestDesign(
+  request: SampleSizeRequest,
+  calculate: SampleSizeCalculation,
+  confidence: number,
+  alternative: Alternative
+): SampleSizeResult {
+  const p0 = requireProportion(request.baseline_proportion, 'baseline_proportion');
+  const groups = request.design === 'two_proportions' ? 2 : 1;
+  const alpha = 1 - confidence;
+  const zAlpha = normalQuantile(alternative === 'two_sided' ? 1 - alpha / 2 : 1 - alpha);
+
+  // Null and alternative standard deviations of the test statistic (per √n)
+  const spreads = (p1: number) => groups === 1
+    ? { null: Math.sqrt(p0 * (1 - p0)), alt: Math.sqrt(p1 * (1 - p1)) }
+    : {
+        null: Math.sqrt(2 * ((p0 + p1) / 2) * (1 - (p0 + p1) / 2)),
+        alt: Math.sqrt(p0 * (1 - p0) + p1 * (1 - p1))
+      };
+  const powerFor = (n: number, p1: number) => {
+    const s = spreads(p1);
+    return normalCdf((Math.abs(p1 - p0) * Math.sqrt(n) - zAlpha * s.null) / s.alt);
+  };
+  const base = {
+    design: request.design,
+    calculate,
+    confidence_level: confidence,
+    alternative,
+    method: 'Normal approximation to the binomial'
+  };
+
+  if (calculate === 'sample_size') {
+    const p1 = requireProportion(p0 + (request.effect_size ?? 0), 'baseline_proportion + effect_size');
+    if (p1 === p0) {
+      throw new Error('effect_size must be non-zero');
+    }
+    const targetPower = requirePower(request.power);
+    const s = spreads(p1);
+    const n = Math.ceil(((zAlpha * s.null + normalQuantile(targetPower) * s.alt) / (p1 - p0)) ** 2);
+    return {
+      ...base,
+      sample_size_per_group: n,
+      total_sample_size: n * groups,
+      power: powerFor(n, p1),
+      effect_size: p1 - p0
+    };
+  }
+
+  const n = Math.ceil(requirePositive(request.sample_size, 'sample_size'));
+  if (calculate === 'power') {
+    const p1 = requireProportion(p0 + (request.effect_size ?? 0), 'baseline_proportion + effect_size');
+    return { ...base, sample_size_per_group: n, total_sample_size: n * groups, power: powerFor(n, p1), effect_size: p1 - p0 };
+  }
+
+  // Detect a decrease for 'less', otherwise an increase, within the open unit interval
+  const targetPower = requirePower(request.power);
+  const direction = alternative === 'less' ? -1 : 1;
+  const limit = direction > 0 ? 1 - 1e-9 - p0 : p0 - 1e-9;
+  if (powerFor(n, p0 + direction * limit) < targetPower) {
+    throw new Error(`No detectable effect reaches power ${targetPower} with n=${n}`);
+  }
+  const effect = bisect(d => powerFor(n, p0 + direction * d) - targetPower, 0, limit);
+  return { ...base, sample_size_per_group: n, total_sample_size: n * groups, power: targetPower, effect_size: direction * effect };
+}
+
+// Root of an increasing function on [low, high]
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (f(mid) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function requirePositive(value: number | undefined, name: string): number {
+  if (value === undefined || !(value > 0)) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return value;
+}
+
+function requireEffect(value: number | undefined): number {
+  if (value === undefined || value === 0 || !Number.isFinite(value)) {
+    throw new Error('effect_size must be a non-zero number');
+  }
+  return Math.abs(value);
+}
+
+function requireProportion(value: number | undefined, name: string): number {
+  if (value === undefined || !(value > 0 && value < 1)) {
+    throw new Error(`${name} must be strictly between 0 and 1`);
+  }
+  return value;
+}
+
+function requirePower(value: number | undefined): number {
+  const power = value ?? 0.8;
+  if (!(power > 0 && power < 1)) {
+    throw new Error('power must be strictly between 0 and 1');
+  }
+  return power;
+}
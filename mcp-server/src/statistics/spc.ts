@@ -0,0 +1,342 @@
+// Statistical Process Control for Six Sigma MCP
+// Chart selection and phase-I control limits for variables, attributes, EWMA and CUSUM charts
+
+import { mean, standardDeviation, movingRanges } from './descriptive.ts';
+import { controlConstants, MAX_SUBGROUP_SIZE } from './control-constants.ts';
+
+export type ChartType = 'I-MR' | 'Xbar-R' | 'Xbar-S' | 'p' | 'np' | 'c' | 'u' | 'EWMA' | 'CUSUM';
+
+// continuous: measured values; defectives: count of nonconforming units; defects: count of nonconformities
+export type SPCDataType = 'continuous' | 'defectives' | 'defects';
+
+export interface SPCData {
+  data_type: SPCDataType;
+  // Individual observations, or per-sample counts for attribute data
+  values?: number[];
+  // Rational subgroups for continuous data (alternative to values + subgroup_size)
+  subgroups?: number[][];
+  subgroup_size?: number;
+  // Units inspected (p/np) or area of opportunity (u) for each attribute sample
+  sample_sizes?: number[];
+  // Overrides automatic selection
+  chart_type?: ChartType;
+  // In-control mean for EWMA/CUSUM; defaults to the phase-I mean
+  target?: number;
+  ewma_lambda?: number;
+  ewma_l?: number;
+  cusum_k?: number;
+  cusum_h?: number;
+}
+
+export interface ChartSeries {
+  name: string;
+  points: number[];
+  center_line: number;
+  // Per-point arrays when limits vary with sample size (p, u, EWMA)
+  ucl: number | number[];
+  lcl: number | number[];
+}
+
+export interface ControlChart {
+  chart_type: ChartType;
+  data_type: SPCDataType;
+  subgroup_size: number;
+  // Short-term process sigma estimated from phase-I data (variables charts)
+  sigma_estimate?: number;
+  series: ChartSeries[];
+  parameters?: Record<string, number>;
+}
+
+const EWMA_LAMBDA = 0.2;
+const EWMA_L = 3;
+const CUSUM_K = 0.5;
+const CUSUM_H = 5;
+
+export function selectChartType(data: SPCData): ChartType {
+  if (data.chart_type) {
+    return data.chart_type;
+  }
+
+  if (data.data_type === 'continuous') {
+    const n = data.subgroups?.[0]?.length ?? data.subgroup_size ?? 1;
+    if (n <= 1) return 'I-MR';
+    return n < 10 ? 'Xbar-R' : 'Xbar-S';
+  }
+
+  const constantSize = !data.sample_sizes || data.sample_sizes.every(n => n === data.sample_sizes![0]);
+  if (data.data_type === 'defectives') {
+    return constantSize ? 'np' : 'p';
+  }
+  return constantSize ? 'c' : 'u';
+}
+
+export function buildControlChart(data: SPCData): ControlChart {
+  const chartType = selectChartType(data);
+
+  switch (chartType) {
+    case 'I-MR':
+      return individualsChart(requireValues(data, 2), data.data_type);
+    case 'Xbar-R':
+    case 'Xbar-S':
+      return subgroupChart(chartType, subgroupsOf(data), data.data_type);
+    case 'p':
+    case 'np':
+      return defectivesChart(chartType, data);
+    case 'c':
+    case 'u':
+      return defectsChart(chartType, data);
+    case 'EWMA':
+      return ewmaChart(data);
+    case 'CUSUM':
+      return cusumChart(data);
+    default:
+      throw new Error(`Unknown chart type: ${chartType}`);
+  }
+}
+
+function individualsChart(values: number[], dataType: SPCDataType): ControlChart {
+  const { d2, D3, D4 } = controlConstants(2);
+  const ranges = movingRanges(values);
+  const center = mean(values);
+  const mrBar = mean(ranges);
+  const sigma = mrBar / d2;
+
+  return {
+    chart_type: 'I-MR',
+    data_type: dataType,
+    subgroup_size: 1,
+    sigma_estimate: sigma,
+    series: [
+      { name: 'Individuals', points: values, center_line: center, ucl: center + 3 * sigma, lcl: center - 3 * sigma },
+      { name: 'Moving Range', points: ranges, center_line: mrBar, ucl: D4 * mrBar, lcl: D3 * mrBar }
+    ]
+  };
+}
+
+function subgroupChart(chartType: 'Xbar-R' | 'Xbar-S', subgroups: number[][], dataType: SPCDataType): ControlChart {
+  const n = subgroups[0].length;
+  const k = controlConstants(n);
+  const means = subgroups.map(g => mean(g));
+  const grandMean = mean(means);
+
+  if (chartType === 'Xbar-R') {
+    const ranges = subgroups.map(g => Math.max(...g) - Math.min(...g));
+    const rBar = mean(ranges);
+    return {
+      chart_type: chartType,
+      data_type: dataType,
+      subgroup_size: n,
+      sigma_estimate: rBar / k.d2,
+      series: [
+        { name: 'Xbar', points: means, center_line: grandMean, ucl: grandMean + k.A2 * rBar, lcl: grandMean - k.A2 * rBar },
+        { name: 'R', points: ranges, center_line: rBar, ucl: k.D4 * rBar, lcl: k.D3 * rBar }
+      ]
+    };
+  }
+
+  const deviations = subgroups.map(g => standardDeviation(g));
+  const sBar = mean(deviations);
+  return {
+    chart_type: chartType,
+    data_type: dataType,
+    subgroup_size: n,
+    sigma_estimate: sBar / k.c4,
+    series: [
+      { name: 'Xbar', points: means, center_line: grandMean, ucl: grandMean + k.A3 * sBar, lcl: grandMean - k.A3 * sBar },
+      { name: 'S', points: deviations, center_line: sBar, ucl: k.B4 * sBar, lcl: k.B3 * sBar }
+    ]
+  };
+}
+
+function defectivesChart(chartType: 'p' | 'np', data: SPCData): ControlChart {
+  const counts = requireValues(data, 2);
+  const sizes = requireSampleSizes(data, counts.length);
+  if (counts.some((d, i) => d < 0 || d > sizes[i])) {
+    throw new Error('Defective counts must be between 0 and the sample size');
+  }
+  const pBar = counts.reduce((s, d) => s + d, 0) / sizes.reduce((s, n) => s + n, 0);
+
+  if (chartType === 'np') {
+    const n = sizes[0];
+    if (sizes.some(size => size !== n)) {
+      throw new Error('np chart requires a constant sample size; use a p chart');
+    }
+    const center = n * pBar;
+    const spread = 3 * Math.sqrt(n * pBar * (1 - pBar));
+    return {
+      chart_type: chartType,
+      data_type: data.data_type,
+      subgroup_size: n,
+      series: [{ name: 'np', points: counts, center_line: center, ucl: Math.min(n, center + spread), lcl: Math.max(0, center - spread) }]
+    };
+  }
+
+  const spreads = sizes.map(n => 3 * Math.sqrt(pBar * (1 - pBar) / n));
+  return {
+    chart_type: chartType,
+    data_type: data.data_type,
+    subgroup_size: Math.round(mean(sizes)),
+    series: [{
+      name: 'p',
+      points: counts.map((d, i) => d / sizes[i]),
+      center_line: pBar,
+      ucl: collapse(spreads.map(s => Math.min(1, pBar + s))),
+      lcl: collapse(spreads.map(s => Math.max(0, pBar - s)))
+    }]
+  };
+}
+
+function defectsChart(chartType: 'c' | 'u', data: SPCData): ControlChart {
+  const counts = requireValues(data, 2);
+  if (counts.some(c => c < 0)) {
+    throw new Error('Defect counts must be non-negative');
+  }
+
+  if (chartType === 'c') {
+    const cBar = mean(counts);
+    return {
+      chart_type: chartType,
+      data_type: data.data_type,
+      subgroup_size: data.sample_sizes?.[0] ?? 1,
+      series: [{ name: 'c', points: counts, center_line: cBar, ucl: cBar + 3 * Math.sqrt(cBar), lcl: Math.max(0, cBar - 3 * Math.sqrt(cBar)) }]
+    };
+  }
+
+  const sizes = requireSampleSizes(data, counts.length);
+  const uBar = counts.reduce((s, c) => s + c, 0) / sizes.reduce((s, n) => s + n, 0);
+  const spreads = sizes.map(n => 3 * Math.sqrt(uBar / n));
+  return {
+    chart_type: chartType,
+    data_type: data.data_type,
+    subgroup_size: Math.round(mean(sizes)),
+    series: [{
+      name: 'u',
+      points: counts.map((c, i) => c / sizes[i]),
+      center_line: uBar,
+      ucl: collapse(spreads.map(s => uBar + s)),
+      lcl: collapse(spreads.map(s => Math.max(0, uBar - s)))
+    }]
+  };
+}
+
+function ewmaChart(data: SPCData): ControlChart {
+  const { points, sigma, n } = continuousPoints(data);
+  const lambda = data.ewma_lambda ?? EWMA_LAMBDA;
+  const L = data.ewma_l ?? EWMA_L;
+  if (!(lambda > 0 && lambda <= 1)) {
+    throw new Error('ewma_lambda must be in (0, 1]');
+  }
+  const target = data.target ?? mean(points);
+
+  const ewma: number[] = [];
+  let z = target;
+  points.forEach(x => {
+    z = lambda * x + (1 - lambda) * z;
+    ewma.push(z);
+  });
+  const widths = points.map((_, i) =>
+    L * sigma * Math.sqrt(lambda / (2 - lambda) * (1 - (1 - lambda) ** (2 * (i + 1)))));
+
+  return {
+    chart_type: 'EWMA',
+    data_type: data.data_type,
+    subgroup_size: n,
+    sigma_estimate: sigma,
+    parameters: { lambda, L, target },
+    series: [{
+      name: 'EWMA',
+      points: ewma,
+      center_line: target,
+      ucl: widths.map(w => target + w),
+      lcl: widths.map(w => target - w)
+    }]
+  };
+}
+
+// Tabular CUSUM; k and h are expressed in multiples of sigma
+function cusumChart(data: SPCData): ControlChart {
+  const { points, sigma, n } = continuousPoints(data);
+  const k = data.cusum_k ?? CUSUM_K;
+  const h = data.cusum_h ?? CUSUM_H;
+  const target = data.target ?? mean(points);
+
+  const upper: number[] = [];
+  const lower: number[] = [];
+  let cPlus = 0;
+  let cMinus = 0;
+  points.forEach(x => {
+    cPlus = Math.max(0, x - (target + k * sigma) + cPlus);
+    cMinus = Math.max(0, (target - k * sigma) - x + cMinus);
+    upper.push(cPlus);
+    lower.push(cMinus);
+  });
+
+  return {
+    chart_type: 'CUSUM',
+    data_type: data.data_type,
+    subgroup_size: n,
+    sigma_estimate: sigma,
+    parameters: { k, h, target },
+    series: [
+      { name: 'CUSUM+', points: upper, center_line: 0, ucl: h * sigma, lcl: 0 },
+      { name: 'CUSUM-', points: lower, center_line: 0, ucl: h * sigma, lcl: 0 }
+    ]
+  };
+}
+
+// Plotted points and the sigma of a plotted point for time-weighted charts
+function continuousPoints(data: SPCData): { points: number[]; sigma: number; n: number } {
+  if (data.data_type !== 'continuous') {
+    throw new Error('EWMA and CUSUM charts require continuous data');
+  }
+  const size = data.subgroups?.[0]?.length ?? data.subgroup_size ?? 1;
+  if (size <= 1) {
+    const values = requireValues(data, 2);
+    return { points: values, sigma: mean(movingRanges(values)) / controlConstants(2).d2, n: 1 };
+  }
+
+  const subgroups = subgroupsOf(data);
+  const withinSigma = mean(subgroups.map(g => Math.max(...g) - Math.min(...g))) / controlConstants(size).d2;
+  return { points: subgroups.map(g => mean(g)), sigma: withinSigma / Math.sqrt(size), n: size };
+}
+
+function subgroupsOf(data: SPCData): number[][] {
+  let subgroups = data.subgroups;
+  if (!subgroups) {
+    const size = data.subgroup_size ?? 1;
+    const values = requireValues(data, 2 * size);
+    subgroups = [];
+    for (let start = 0; start + size <= values.length; start += size) {
+      subgroups.push(values.slice(start, start + size));
+    }
+  }
+
+  const n = subgroups[0]?.length ?? 0;
+  if (subgroups.length < 2 || n < 2 || n > MAX_SUBGROUP_SIZE) {
+    throw new Error(`Subgroup charts need at least 2 subgroups of 2-${MAX_SUBGROUP_SIZE} observations`);
+  }
+  if (subgroups.some(g => g.length !== n || g.some(v => !Number.isFinite(v)))) {
+    throw new Error(`All subgroups must contain ${n} numeric observations`);
+  }
+  return subgroups;
+}
+
+function requireValues(data: SPCData, min: number): number[] {
+  const values = data.values ?? data.subgroups?.flat();
+  if (!values || values.length < min || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Control chart needs at least ${min} numeric phase-I observations`);
+  }
+  return values;
+}
+
+function requireSampleSizes(data: SPCData, count: number): number[] {
+  if (!data.sample_sizes || data.sample_sizes.length !== count || data.sample_sizes.some(n => !(n > 0))) {
+    throw new Error(`${data.data_type} charts need a positive sample size for each of the ${count} samples`);
+  }
+  return data.sample_sizes;
+}
+
+// Constant limits are reported as a single number
+function collapse(limits: number[]): number | number[] {
+  return limits.every(l => l === limits[0]) ? limits[0] : limits;
+}
@@ -0,0 +1,159 @@
+// Normalizing Transformations for Six Sigma MCP
+// Box-Cox power transformation and Johnson system (SB/SL/SU) fitted by percentile matching
+
+import { quantile } from './descriptive.ts';
+import { normalCdf } from './distributions.ts';
+import { andersonDarling } from './normality.ts';
+
+export interface BoxCoxTransformation {
+  type: 'box_cox';
+  lambda: number;
+}
+
+export interface JohnsonTransformation {
+  type: 'johnson';
+  family: 'SB' | 'SL' | 'SU';
+  gamma: number;
+  eta: number;
+  epsilon: number;
+  lambda: number;
+}
+
+export type Transformation = BoxCoxTransformation | JohnsonTransformation;
+
+const BOX_COX_RANGE = 5;
+const BOX_COX_STEP = 0.01;
+
+// Monotonically increasing; returns NaN outside the transformation's support
+export function applyTransformation(transformation: Transformation, x: number): number {
+  if (transformation.type === 'box_cox') {
+    if (x <= 0) return NaN;
+    const { lambda } = transformation;
+    return Math.abs(lambda) < 1e-9 ? Math.log(x) : (x ** lambda - 1) / lambda;
+  }
+
+  const { family, gamma, eta, epsilon, lambda } = transformation;
+  switch (family) {
+    case 'SU':
+      return gamma + eta * Math.asinh((x - epsilon) / lambda);
+    case 'SL':
+      return x > epsilon ? gamma + eta * Math.log(x - epsilon) : NaN;
+    case 'SB':
+      return x > epsilon && x < epsilon + lambda
+        ? gamma + eta * Math.log((x - epsilon) / (lambda + epsilon - x))
+        : NaN;
+  }
+}
+
+// Maximum-likelihood λ over [-5, 5]; requires strictly positive data
+export function fitBoxCox(samples: number[]): BoxCoxTransformation {
+  if (samples.some(x => x <= 0)) {
+    throw new Error('Box-Cox transformation requires strictly positive data');
+  }
+  const n = samples.length;
+  const sumLog = samples.reduce((s, x) => s + Math.log(x), 0);
+
+  let bestLambda = 1;
+  let bestLikelihood = -Infinity;
+  for (let lambda = -BOX_COX_RANGE; lambda <= BOX_COX_RANGE + 1e-9; lambda += BOX_COX_STEP) {
+    const transformation: BoxCoxTransformation = { type: 'box_cox', lambda };
+    const transformed = samples.map(x => applyTransformation(transformation, x));
+    const m = transformed.reduce((s, v) => s + v, 0) / n;
+    const v = transformed.reduce((s, t) => s + (t - m) ** 2, 0) / n;
+    if (!(v > 0) || !Number.isFinite(v)) continue;
+
+    const likelihood = -n / 2 * Math.log(v) + (lambda - 1) * sumLog;
+    if (likelihood > bestLikelihood) {
+      bestLikelihood = likelihood;
+      bestLambda = lambda;
+    }
+  }
+
+  return { type: 'box_cox', lambda: Number(bestLambda.toFixed(2)) };
+}
+
+// Slifker & Shapiro (1980) percentile fit; the z-grid value whose transform is most normal
+// (highest Anderson-Darling p-value) is kept
+export function fitJohnson(samples: number[]): JohnsonTransformation {
+  let best: { transformation: JohnsonTransformation; pValue: number } | undefined;
+
+  for (let z = 0.25; z <= 1.25 + 1e-9; z += 0.05) {
+    const candidate = johnsonForZ(samples, z);
+    if (!candidate) continue;
+
+    const transformed = samples.map(x => applyTransformation(candidate, x));
+    if (transformed.some(t => !Number.isFinite(t))) continue;
+
+    try {
+      const pValue = andersonDarling(transformed).p_value;
+      if (!best || pValue > best.pValue) {
+        best = { transformation: candidate, pValue };
+      }
+    } catch {
+      // Degenerate transform (e.g. constant output); try the next z
+    }
+  }
+
+  if (!best) {
+    throw new Error('No Johnson transformation fits the data');
+  }
+  return best.transformation;
+}
+
+function johnsonForZ(samples: number[], z: number): JohnsonTransformation | undefined {
+  const x3 = quantile(samples, normalCdf(3 * z));
+  const x1 = quantile(samples, normalCdf(z));
+  const xm1 = quantile(samples, normalCdf(-z));
+  const xm3 = quantile(samples, normalCdf(-3 * z));
+
+  const m = x3 - x1;
+  const n = xm1 - xm3;
+  const p = x1 - xm1;
+  if (m <= 0 || n <= 0 || p <= 0) return undefined;
+
+  const ratio = m * n / (p * p);
+  const centre = (x1 + xm1) / 2;
+
+  if (Math.abs(ratio - 1) < 1e-3) {
+    const mp = m / p;
+    if (mp <= 1) return undefined;
+    const eta = 2 * z / Math.log(mp);
+    return {
+      type: 'johnson',
+      family: 'SL',
+      eta,
+      gamma: eta * Math.log((mp - 1) / (p * Math.sqrt(mp))),
+      epsilon: centre - (p / 2) * (mp + 1) / (mp - 1),
+      lambda: 1
+    };
+  }
+
+  if (ratio > 1) {
+    const mp = m / p;
+    const np = n / p;
+    const eta = 2 * z / Math.acosh(0.5 * (mp + np));
+    return {
+      type: 'johnson',
+      family: 'SU',
+      eta,
+      gamma: eta * Math.asinh((np - mp) / (2 * Math.sqrt(ratio - 1))),
+      lambda: 2 * p * Math.sqrt(ratio - 1) / ((mp + np - 2) * Math.sqrt(mp + np + 2)),
+      epsilon: centre + p * (np - mp) / (2 * (mp + np - 2))
+    };
+  }
+
+  const pm = p / m;
+  const pn = p / n;
+  const product = (1 + pm) * (1 + pn);
+  const inverseRatio = p * p / (m * n);
+  const eta = z / Math.acosh(0.5 * Math.sqrt(product));
+  const lambda = p * Math.sqrt((product - 2) ** 2 - 4) / (inverseRatio - 1);
+  return {
+    type: 'johnson',
+    family: 'SB',
+    eta,
+    gamma: eta * Math.asinh((pn - pm) * Math.sqrt(product - 4) / (2 * (inverseRatio - 1))),
+    lambda,
+    epsilon: centre - lambda / 2 + p * (pn - pm) / (2 * (inverseRatio - 1))
+  };
+}
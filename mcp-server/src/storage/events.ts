@@ -0,0 +1,222 @@
+// Project Events for Six Sigma MCP
+// Typed domain events derived from each tool call's state change, and replay of them to rebuild project state
+
+import { DMAICPhase, QualityGateResult } from '../engine/types.ts';
+import { ProjectDataset } from '../ingestion/dataset.ts';
+import { Observation } from '../shared/observation-store.ts';
+import { ProjectArtifacts, ProjectState } from '../shared/project-state.ts';
+
+export const PHASE_COMPLETED = {
+  define: 'DefineCompleted',
+  measure: 'MeasureCompleted',
+  analyze: 'AnalyzeCompleted',
+  improve: 'ImproveCompleted',
+  control: 'ControlCompleted'
+} as const;
+
+type Phase = keyof typeof PHASE_COMPLETED;
+type ArtifactKey = keyof ProjectArtifacts;
+
+interface EventEnvelope {
+  seq: number;  // 1-based position in the project's history; the last seq is the project's revision
+  at: string;   // ISO 8601 time the tool call completed
+  tool: string; // tool call that produced the event, or 'migration'
+}
+
+// Top-level fields a ProjectUpdated sets; null removes the field
+export type ProjectChanges = { [K in keyof ProjectState]?: ProjectState[K] | null };
+
+// What happened, before the envelope places it in the project's history
+export type ProjectEventBody =
+  | { type: 'ProjectCreated'; project: ProjectState }
+  | { [P in Phase]: { type: typeof PHASE_COMPLETED[P]; artifacts: NonNullable<ProjectArtifacts[P]> } }[Phase]
+  | { type: 'ArtifactRecorded'; artifact: ArtifactKey; value: ProjectArtifacts[ArtifactKey] | null } // null removes the artifact
+  | { type: 'GateEvaluated'; phase: Phase; passed: boolean; result: QualityGateResult }
+  | { type: 'PhaseChanged'; from: DMAICPhase; to: DMAICPhase }
+  | { type: 'DatasetImported'; dataset: ProjectDataset }
+  | { type: 'KPIObserved'; observations: Observation[] }
+  | { type: 'ProjectUpdated'; changes: ProjectChanges };
+
+export type ProjectEvent = EventEnvelope & ProjectEventBody;
+
+export type ProjectEventType = ProjectEvent['type'];
+
+export const PROJECT_EVENT_TYPES: ProjectEventType[] = [
+  'ProjectCreated', ...Object.values(PHASE_COMPLETED), 'ArtifactRecorded', 'GateEvaluated',
+  'PhaseChanged', 'DatasetImported', 'KPIObserved', 'ProjectUpdated'
+];
+
+export interface ProjectSnapshot {
+  project: ProjectState;
+  observations: Observation[];
+}
+
+// Fields with a dedicated event; anything else changing at the top level is a ProjectUpdated
+const EVENT_FIELDS = new Set(['id', 'artifacts', 'quality_gates', 'current_phase', 'datasets']);
+
+// Events that take `before` to `after`. A phase tool always records its phase's artifacts and gate,
+// even when re-running it produced the same result.
+export function deriveEvents(
+  before: ProjectSnapshot | undefined,
+  after: ProjectSnapshot,
+  context: { tool: string; at: string; revision: number }
+): ProjectEvent[] {
+  const events: ProjectEventBody[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const phaseTool = context.tool.endsWith('_phase') ? context.tool.slice(0, -'_phase'.length) as Phase : undefined;
+
+  if (!before) {
+    events.push({ type: 'ProjectCreated', project: after.project });
+  } else {
+    const [previous, current] = [before.project, after.project];
+
+    const artifactKeys = new Set([...Object.keys(previous.artifacts ?? {}), ...Object.keys(current.artifacts ?? {})] as ArtifactKey[]);
+    artifactKeys.forEach(key => {
+      const value = current.artifacts?.[key];
+      if (key === phaseTool && key in PHASE_COMPLETED && value !== undefined) {
+        events.push(phaseCompleted(phaseTool, current.artifacts));
+      } else if (!same(previous.artifacts?.[key], value)) {
+        events.push({ type: 'ArtifactRecorded', artifact: key, value: value ?? null });
+      }
+    });
+
+    const datasets = current.datasets ?? {};
+    if (Object.keys(previous.datasets ?? {}).some(id => !(id in datasets))) {
+      events.push({ type: 'ProjectUpdated', changes: { datasets } });
+    } else {
+      Object.entries(datasets)
+        .filter(([id, dataset]) => !same(previous.datasets?.[id], dataset))
+        .forEach(([_, dataset]) => events.push({ type: 'DatasetImported', dataset }));
+    }
+
+    (Object.keys(PHASE_COMPLETED) as Phase[]).forEach(phase => {
+      const result = current.quality_gates?.[phase];
+      if (result && (phase === phaseTool || !same(previous.quality_gates?.[phase], result))) {
+        events.push({ type: 'GateEvaluated', phase, passed: Boolean(result.passed), result });
+      }
+    });
+
+    if (previous.current_phase !== current.current_phase) {
+      events.push({ type: 'PhaseChanged', from: previous.current_phase, to: current.current_phase });
+    }
+
+    const changes: ProjectChanges = Object.fromEntries((Object.keys({ ...previous, ...current }) as (keyof ProjectState)[])
+      .filter(key => !EVENT_FIELDS.has(key) && !same(previous[key], current[key]))
+      .map(key => [key, current[key] ?? null]));
+    if (Object.keys(changes).length > 0) {
+      events.push({ type: 'ProjectUpdated', changes });
+    }
+  }
+
+  const observed = newObservations(before?.observations ?? [], after.observations);
+  if (observed.length > 0) {
+    events.push({ type: 'KPIObserved', observations: observed });
+  }
+
+  return events.map((event, i) => ({ seq: context.revision + i + 1, at: context.at, tool: context.tool, ...event }));
+}
+
+// Project state after the events up to and including asOf, applied in seq order; undefined if the project did not
+// exist yet. Servers writing to one store may disagree on the time, so a later event can carry an earlier `at`.
+export function replayEvents(events: ProjectEvent[], asOf?: string): ProjectSnapshot | undefined {
+  const until = asOf !== undefined ? Date.parse(asOf) : Infinity;
+  if (Number.isNaN(until)) {
+    throw new Error(`Invalid as_of timestamp: ${asOf}`);
+  }
+
+  let state: ProjectSnapshot | undefined;
+  for (const event of [...events].sort((a, b) => a.seq - b.seq)) {
+    if (Date.parse(event.at) > until) continue;
+    if (event.type === 'ProjectCreated') {
+      state = { project: structuredClone(event.project), observations: [] };
+      continue;
+    }
+    if (!state) {
+      throw new Error(`Event ${event.seq} (${event.type}) precedes ProjectCreated`);
+    }
+    applyEvent(state, event);
+  }
+  return state;
+}
+
+// One-line description of an event for history listings
+export function describeEvent(event: ProjectEvent): string {
+  switch (event.type) {
+    case 'ProjectCreated':
+      return `Project "${event.project.name}" created`;
+    case 'ArtifactRecorded':
+      return `${event.artifact} ${event.value === null ? 'removed' : 'recorded'}`;
+    case 'GateEvaluated':
+      return `${event.phase} gate ${event.passed ? 'passed' : `failed (missing: ${(event.result.missing_items ?? []).join(', ') || 'none listed'})`}`;
+    case 'PhaseChanged':
+      return `Phase ${event.from} → ${event.to}`;
+    case 'DatasetImported':
+      return `Dataset "${event.dataset.name}" imported (${event.dataset.row_count} rows)`;
+    case 'KPIObserved': {
+      const kpis = Array.from(new Set(event.observations.map(o => o.kpi)));
+      return `${event.observations.length} observation(s) of ${kpis.slice(0, 5).join(', ')}${kpis.length > 5 ? ` and ${kpis.length - 5} more` : ''}`;
+    }
+    case 'ProjectUpdated':
+      return `Updated ${Object.keys(event.changes).join(', ')}`;
+    default:
+      return `${event.type.replace('Completed', '')} phase artifacts recorded`;
+  }
+}
+
+function applyEvent(state: ProjectSnapshot, event: ProjectEvent): void {
+  const project = state.project;
+  switch (event.type) {
+    case 'ArtifactRecorded':
+      assign(project.artifacts, event.artifact, structuredClone(event.value));
+      break;
+    case 'GateEvaluated':
+      project.quality_gates[event.phase] = structuredClone(event.result);
+      break;
+    case 'PhaseChanged':
+      project.current_phase = event.to;
+      break;
+    case 'DatasetImported':
+      project.datasets[event.dataset.id] = structuredClone(event.dataset);
+      break;
+    case 'KPIObserved':
+      state.observations.push(...structuredClone(event.observations));
+      break;
+    case 'ProjectUpdated':
+      (Object.entries(structuredClone(event.changes)) as [keyof ProjectState, unknown][])
+        .forEach(([key, value]) => assign(project, key, value));
+      break;
+    case 'ProjectCreated':
+      break;
+    default: {
+      const phase = (Object.keys(PHASE_COMPLETED) as Phase[]).find(p => PHASE_COMPLETED[p] === event.type)!;
+      assign(project.artifacts, phase, structuredClone(event.artifacts));
+    }
+  }
+}
+
+// The completion event of a phase, carrying that phase's artifacts
+function phaseCompleted(phase: Phase, artifacts: ProjectArtifacts): ProjectEventBody {
+  return { type: PHASE_COMPLETED[phase], artifacts: artifacts[phase] } as ProjectEventBody;
+}
+
+// Sets a field, or removes it for null; events pair each key with its value, which TypeScript cannot follow
+function assign<T extends object, K extends keyof T>(target: T, key: K, value: unknown): void {
+  if (value === null) delete target[key];
+  else target[key] = value as T[K];
+}
+
+// Observations in `after` beyond those already in `before`; observations are only ever added
+function newObservations(before: Observation[], after: Observation[]): Observation[] {
+  const seen = new Map<string, number>();
+  before.forEach(o => {
+    const key = JSON.stringify(o);
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  });
+  return after.filter(o => {
+    const key = JSON.stringify(o);
+    const count = seen.get(key) ?? 0;
+    if (count === 0) return true;
+    seen.set(key, count - 1);
+    return false;
+  });
+}
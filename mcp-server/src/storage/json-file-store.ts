@@ -0,0 +1,148 @@
+// JSON File Project Store for Six Sigma MCP
+// One document per project holding its event history, replaced atomically (temp file, fsync, rename) under a per-project lock file
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  ProjectAppend, ProjectRecord, ProjectStore, ProjectSummary,
+  checkAppend, conflictError, migrateDocument, summarize, toDocument, validateProjectId
+} from './schema.ts';
+
+const LOCK_TIMEOUT_MS = 5_000;
+const STALE_LOCK_MS = 30_000; // a lock older than this was left by a crashed process
+
+export class JsonFileProjectStore implements ProjectStore {
+  readonly backend = 'json' as const;
+
+  private constructor(readonly location: string) {}
+
+  // Creates the directory and migrates every stored document to the current schema
+  static async open(directory: string): Promise<JsonFileProjectStore> {
+    await fs.mkdir(directory, { recursive: true });
+    const store = new JsonFileProjectStore(path.resolve(directory));
+    await store.migrateAll();
+    return store;
+  }
+
+  async list(): Promise<ProjectSummary[]> {
+    const records = await Promise.all((await this.documentFiles()).map(file => this.readFile(file)));
+    return records
+      .filter((record): record is ProjectRecord => record !== undefined)
+      .map(summarize)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async load(projectId: string): Promise<ProjectRecord | undefined> {
+    validateProjectId(projectId);
+    return this.readFile(this.fileFor(projectId));
+  }
+
+  async append(write: ProjectAppend, expectedRevision: number): Promise<number> {
+    checkAppend(write, expectedRevision);
+    return this.withLock(write.id, async () => {
+      const stored = await this.readFile(this.fileFor(write.id));
+      if ((stored?.revision ?? 0) !== expectedRevision) {
+        throw conflictError(write.id, stored?.revision ?? 0, expectedRevision);
+      }
+      const latest = write.events[write.events.length - 1];
+      await this.writeAtomically(this.fileFor(write.id), {
+        ...write,
+        revision: latest.seq,
+        updated_at: latest.at,
+        events: [...(stored?.events ?? []), ...write.events]
+      });
+      return latest.seq;
+    });
+  }
+
+  async close(): Promise<void> {
+    // Nothing is held open between calls
+  }
+
+  private async migrateAll(): Promise<void> {
+    for (const file of await this.documentFiles()) {
+      const document = JSON.parse(await fs.readFile(file, 'utf-8'));
+      const { record, migrated } = migrateDocument(document, file);
+      if (!migrated) continue;
+
+      validateProjectId(record.id);
+      const target = this.fileFor(record.id);
+      await this.withLock(record.id, () => this.writeAtomically(target, record));
+      // An imported project:// export is renamed to its id
+      if (path.resolve(file) !== target) {
+        await fs.unlink(file);
+      }
+    }
+  }
+
+  private async readFile(file: string): Promise<ProjectRecord | undefined> {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    let document: any;
+    try {
+      document = JSON.parse(text);
+    } catch {
+      throw new Error(`${file} is not valid JSON`);
+    }
+    return migrateDocument(document, file).record;
+  }
+
+  private async writeAtomically(file: string, record: ProjectRecord): Promise<void> {
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const handle = await fs.open(temp, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(toDocument(record), null, 2), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    try {
+      await fs.rename(temp, file);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private async withLock<T>(projectId: string, action: () => Promise<T>): Promise<T> {
+    const lock = path.join(this.location, `${projectId}.lock`);
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await (await fs.open(lock, 'wx')).close();
+        break;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+        const age = await fs.stat(lock).then(stat => Date.now() - stat.mtimeMs, () => 0);
+        if (age > STALE_LOCK_MS) {
+          await fs.rm(lock, { force: true });
+        } else if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for the lock on project ${projectId} (${lock})`);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, 25));
+        }
+      }
+    }
+    try {
+      return await action();
+    } finally {
+      await fs.rm(lock, { force: true });
+    }
+  }
+
+  private fileFor(projectId: string): string {
+    return path.join(this.location, `${projectId}.json`);
+  }
+
+  private async documentFiles(): Promise<string[]> {
+    const entries = await fs.readdir(this.location, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && entry.name.endsWith('.json'))
+      .map(entry => path.join(this.location, entry.name));
+  }
+}
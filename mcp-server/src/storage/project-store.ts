@@ -0,0 +1,33 @@
+// Project Store Selection for Six Sigma MCP
+// Chooses the JSON-file or SQLite backend from SIX_SIGMA_STORAGE and opens it, migrating stored data
+
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileProjectStore } from './json-file-store.ts';
+import { SqliteProjectStore } from './sqlite-store.ts';
+import { ProjectStore, StorageBackend } from './schema.ts';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  location: string; // directory of project documents (json) or database file (sqlite)
+}
+
+export function loadStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = (env.SIX_SIGMA_STORAGE || 'json').trim().toLowerCase();
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown SIX_SIGMA_STORAGE "${backend}"; expected json or sqlite`);
+  }
+  const dataDir = env.SIX_SIGMA_DATA_DIR || path.join(os.homedir(), '.six-sigma-mcp');
+  return {
+    backend,
+    location: backend === 'sqlite'
+      ? env.SIX_SIGMA_SQLITE_PATH || path.join(dataDir, 'projects.db')
+      : path.join(dataDir, 'projects')
+  };
+}
+
+export function openProjectStore(config: StorageConfig): Promise<ProjectStore> {
+  return config.backend === 'sqlite'
+    ? SqliteProjectStore.open(config.location)
+    : JsonFileProjectStore.open(config.location);
+}
@@ -0,0 +1,116 @@
+// Project Storage Schema for Six Sigma MCP
+// Stored project documents, the store interface shared by every backend, and document migrations
+
+import { ProjectEvent } from './events.ts';
+
+// Version of the stored project document; bump it and append a migration when the layout changes
+export const SCHEMA_VERSION = 2;
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  description: string;
+  phase: string;
+  revision: number; // seq of the latest event; an append against an older revision is a conflict
+  updated_at: string; // time of the latest event
+}
+
+export interface ProjectRecord extends ProjectSummary {
+  events: ProjectEvent[]; // full history in seq order; replaying it yields the project state
+}
+
+// Summary fields to store alongside newly appended events, numbered from expectedRevision + 1
+export type ProjectAppend = Omit<ProjectRecord, 'revision' | 'updated_at'>;
+
+export interface ProjectStore {
+  readonly backend: StorageBackend;
+  readonly location: string;
+  list(): Promise<ProjectSummary[]>;
+  load(projectId: string): Promise<ProjectRecord | undefined>;
+  // Appends events if the project's stored revision is still expectedRevision (0 for a new project); returns the new revision
+  append(write: ProjectAppend, expectedRevision: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+// Migration i upgrades a document from schema version i to i + 1
+const MIGRATIONS: ((document: any) => any)[] = [
+  // 0 -> 1: a bare project state, as exported from a project:// resource, becomes a stored document;
+  // states exported before dataset import have no datasets
+  project => ({
+    schema_version: 1,
+    id: project.id,
+    name: project.name,
+    description: project.business_case ?? '',
+    phase: project.current_phase,
+    revision: 1,
+    updated_at: project.created_at ?? new Date().toISOString(),
+    project: { datasets: {}, ...project },
+    observations: []
+  }),
+  // 1 -> 2: the stored state becomes the project's first event; earlier history was never recorded
+  ({ schema_version, project, observations, ...summary }) => {
+    const envelope = { at: summary.updated_at, tool: 'migration' };
+    const events: ProjectEvent[] = [{ seq: 1, ...envelope, type: 'ProjectCreated', project }];
+    if (observations.length > 0) {
+      events.push({ seq: 2, ...envelope, type: 'KPIObserved', observations });
+    }
+    return { schema_version: 2, ...summary, revision: events.length, events };
+  }
+];
+
+// Brings a stored document up to SCHEMA_VERSION; `source` names it in error messages
+export function migrateDocument(document: any, source: string): { record: ProjectRecord; migrated: boolean } {
+  if (!document || typeof document !== 'object') {
+    throw new Error(`${source} is not a project document`);
+  }
+  let version: number = typeof document.schema_version === 'number' ? document.schema_version : 0;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`${source} has schema version ${version}, newer than this server supports (${SCHEMA_VERSION}); upgrade the server`);
+  }
+  if (version === 0 && (typeof document.id !== 'string' || !document.current_phase)) {
+    throw new Error(`${source} is neither a versioned project document nor a project state`);
+  }
+
+  const migrated = version < SCHEMA_VERSION;
+  while (version < SCHEMA_VERSION) {
+    document = MIGRATIONS[version](document);
+    version++;
+  }
+  const { schema_version, ...record } = document;
+  return { record: record as ProjectRecord, migrated };
+}
+
+export function toDocument(record: ProjectRecord): any {
+  return { schema_version: SCHEMA_VERSION, ...record };
+}
+
+export function summarize(record: ProjectRecord): ProjectSummary {
+  const { id, name, description, phase, revision, updated_at } = record;
+  return { id, name, description, phase, revision, updated_at };
+}
+
+// Project ids become file names and keys, so only word characters and dashes are accepted
+export function validateProjectId(projectId: string): void {
+  if (typeof projectId !== 'string' || !/^[\w-]{1,128}$/.test(projectId)) {
+    throw new Error(`Invalid project id: ${projectId}`);
+  }
+}
+
+// New events must continue the stored sequence without gaps
+export function checkAppend(write: ProjectAppend, expectedRevision: number): void {
+  validateProjectId(write.id);
+  if (write.events.length === 0) {
+    throw new Error(`No events to append to project ${write.id}`);
+  }
+  write.events.forEach((event, i) => {
+    if (event.seq !== expectedRevision + i + 1) {
+      throw new Error(`Event ${event.seq} for project ${write.id} does not follow revision ${expectedRevision + i}`);
+    }
+  });
+}
+
+export function conflictError(projectId: string, stored: number, expected: number): Error {
+  return new Error(`Project ${projectId} was saved by another session (revision ${stored}, expected ${expected}); retry the tool call`);
+}
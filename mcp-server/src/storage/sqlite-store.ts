@@ -0,0 +1,184 @@
+// SQLite Project Store for Six Sigma MCP
+// Embedded database with versioned tables; each append is one immediate transaction inserting only the new events
+
+import type Database from 'better-sqlite3';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProjectEvent } from './events.ts';
+import {
+  ProjectAppend, ProjectRecord, ProjectStore, ProjectSummary, SCHEMA_VERSION,
+  checkAppend, conflictError, migrateDocument, validateProjectId
+} from './schema.ts';
+
+// Table layout migrations; the database's user_version counts how many have been applied
+const TABLE_MIGRATIONS: ((db: Database.Database) => void)[] = [
+  db => db.exec(`CREATE TABLE projects (
+     id TEXT PRIMARY KEY,
+     name TEXT NOT NULL,
+     description TEXT NOT NULL,
+     phase TEXT NOT NULL,
+     revision INTEGER NOT NULL,
+     updated_at TEXT NOT NULL,
+     schema_version INTEGER NOT NULL,
+     state TEXT NOT NULL
+   );
+   CREATE TABLE observations (
+     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+     seq INTEGER NOT NULL,
+     kpi TEXT NOT NULL,
+     value REAL NOT NULL,
+     timestamp TEXT NOT NULL,
+     subgroup_id TEXT,
+     operator TEXT,
+     source TEXT,
+     PRIMARY KEY (project_id, seq)
+   );`),
+  // Stored state and observations become each project's first events
+  db => {
+    db.exec(`CREATE TABLE events (
+       project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+       seq INTEGER NOT NULL,
+       type TEXT NOT NULL,
+       at TEXT NOT NULL,
+       tool TEXT NOT NULL,
+       payload TEXT NOT NULL,
+       PRIMARY KEY (project_id, seq)
+     );
+     CREATE INDEX events_by_time ON events (project_id, at);`);
+
+    const rows = db.prepare('SELECT * FROM projects').all() as Record<string, any>[];
+    rows.forEach(row => {
+      const observations = db.prepare(
+        'SELECT kpi, value, timestamp, subgroup_id, operator, source FROM observations WHERE project_id = ? ORDER BY seq'
+      ).all(row.id) as Record<string, any>[];
+      const { state, ...summary } = row;
+      const { record } = migrateDocument({
+        ...summary,
+        project: JSON.parse(state),
+        // Optional columns are NULL in the table but absent in observations
+        observations: observations.map(o => Object.fromEntries(Object.entries(o).filter(([_, v]) => v !== null)))
+      }, `project ${row.id}`);
+      insertEvents(db, record.id, record.events);
+      db.prepare('UPDATE projects SET revision = ?, schema_version = ? WHERE id = ?').run(record.revision, SCHEMA_VERSION, record.id);
+    });
+
+    db.exec('DROP TABLE observations; ALTER TABLE projects DROP COLUMN state;');
+  }
+];
+
+interface ProjectRow extends ProjectSummary {
+  schema_version: number;
+}
+
+interface EventRow {
+  seq: number;
+  type: string;
+  at: string;
+  tool: string;
+  payload: string;
+}
+
+export class SqliteProjectStore implements ProjectStore {
+  readonly backend = 'sqlite' as const;
+
+  private constructor(readonly location: string, private db: Database.Database) {}
+
+  // Opens the database, applies pending table migrations and migrates stored documents
+  static async open(file: string): Promise<SqliteProjectStore> {
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    // Loaded on demand so the JSON backend works without the native module
+    const { default: DatabaseConstructor } = await import('better-sqlite3');
+    const db = new DatabaseConstructor(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.pragma('foreign_keys = ON');
+
+    const applied = db.pragma('user_version', { simple: true }) as number;
+    if (applied > TABLE_MIGRATIONS.length) {
+      db.close();
+      throw new Error(`${file} has table version ${applied}, newer than this server supports (${TABLE_MIGRATIONS.length}); upgrade the server`);
+    }
+    TABLE_MIGRATIONS.slice(applied).forEach((migrate, i) => db.transaction(() => {
+      migrate(db);
+      db.pragma(`user_version = ${applied + i + 1}`);
+    })());
+
+    const store = new SqliteProjectStore(path.resolve(file), db);
+    store.migrateDocuments();
+    return store;
+  }
+
+  async list(): Promise<ProjectSummary[]> {
+    return this.db.prepare('SELECT id, name, description, phase, revision, updated_at FROM projects ORDER BY id')
+      .all() as ProjectSummary[];
+  }
+
+  async load(projectId: string): Promise<ProjectRecord | undefined> {
+    validateProjectId(projectId);
+    // One read transaction, so the summary and the events come from the same revision
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT * FROM projects WHERE id = ?').get(projectId) as ProjectRow | undefined;
+      return row ? this.toRecord(row) : undefined;
+    })();
+  }
+
+  async append(write: ProjectAppend, expectedRevision: number): Promise<number> {
+    checkAppend(write, expectedRevision);
+    const append = this.db.transaction(() => {
+      const stored = (this.db.prepare('SELECT revision FROM projects WHERE id = ?').get(write.id) as { revision: number } | undefined)?.revision ?? 0;
+      if (stored !== expectedRevision) {
+        throw conflictError(write.id, stored, expectedRevision);
+      }
+      const latest = write.events[write.events.length - 1];
+      this.writeSummary({ ...write, revision: latest.seq, updated_at: latest.at });
+      insertEvents(this.db, write.id, write.events);
+      return latest.seq;
+    });
+    // IMMEDIATE takes the write lock up front, so the revision check and the append cannot interleave with another process
+    return append.immediate();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private migrateDocuments(): void {
+    const outdated = this.db.prepare('SELECT * FROM projects WHERE schema_version < ?').all(SCHEMA_VERSION) as ProjectRow[];
+    outdated.forEach(row => this.db.transaction(() => {
+      const record = this.toRecord(row);
+      this.db.prepare('DELETE FROM events WHERE project_id = ?').run(record.id);
+      this.writeSummary(record);
+      insertEvents(this.db, record.id, record.events);
+    })());
+  }
+
+  private toRecord(row: ProjectRow): ProjectRecord {
+    const events = (this.db.prepare('SELECT seq, type, at, tool, payload FROM events WHERE project_id = ? ORDER BY seq')
+      .all(row.id) as EventRow[])
+      .map(({ payload, ...envelope }) => ({ ...envelope, ...JSON.parse(payload) }));
+    return migrateDocument({ ...row, events }, `${this.location} project ${row.id}`).record;
+  }
+
+  private writeSummary(summary: ProjectSummary): void {
+    this.db.prepare(`INSERT INTO projects (id, name, description, phase, revision, updated_at, schema_version)
+      VALUES (@id, @name, @description, @phase, @revision, @updated_at, @schema_version)
+      ON CONFLICT(id) DO UPDATE SET name = excluded.name, description = excluded.description, phase = excluded.phase,
+        revision = excluded.revision, updated_at = excluded.updated_at, schema_version = excluded.schema_version`)
+      .run({
+        id: summary.id,
+        name: summary.name,
+        description: summary.description ?? '',
+        phase: summary.phase,
+        revision: summary.revision,
+        updated_at: summary.updated_at,
+        schema_version: SCHEMA_VERSION
+      });
+  }
+}
+
+// The envelope goes in columns and the rest of the event in the payload
+function insertEvents(db: Database.Database, projectId: string, events: ProjectEvent[]): void {
+  const insert = db.prepare('INSERT INTO events (project_id, seq, type, at, tool, payload) VALUES (?, ?, ?, ?, ?, ?)');
+  events.forEach(({ seq, type, at, tool, ...payload }) =>
+    insert.run(projectId, seq, type, at, tool, JSON.stringify(payload)));
+}
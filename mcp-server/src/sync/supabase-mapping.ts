@@ -0,0 +1,433 @@
+// Supabase Table Mapping for Six Sigma MCP
+// Maps project state onto the dashboard's tables and plans a three-way merge against the last synced state
+
+export const SYNC_TABLES = ['projects', 'ctq_items', 'kpis', 'fmea_items', 'solutions', 'phase_artifacts'] as const;
+export type SyncTable = typeof SYNC_TABLES[number];
+
+export type ColumnType = 'text' | 'number' | 'integer' | 'json';
+export type Row = Record<string, any>; // mapped column values as stored in the table
+
+export type SyncDirection = 'both' | 'push' | 'pull';
+export type ConflictResolution = 'none' | 'local' | 'remote';
+
+export interface TableMapping {
+  table: SyncTable;
+  columns: Record<string, ColumnType>;
+  // Rows for the project's entities, by entity key
+  local(project: any): Map<string, Row>;
+  // Key of a row never synced before, to pair it with an entity created on both sides
+  keyOf(row: Row, rowId: string): string;
+  // Writes a pulled row into the project (null deletes the entity); returns the entity's key afterwards
+  apply(project: any, key: string, row: Row | null): string;
+}
+
+// Both sides of an entity as of the last sync; a side changed if its row differs from its own side here
+export interface BaseEntry {
+  key: string;
+  local: Row;
+  remote: Row;
+}
+
+export type SyncBase = Partial<Record<SyncTable, Record<string, BaseEntry>>>; // table -> row id -> entry
+
+export interface Conflict {
+  table: SyncTable;
+  key: string;
+  row_id?: string;
+  reason: string;
+  fields: string[];
+  local: Row | null;
+  remote: Row | null;
+}
+
+export interface TablePlan {
+  table: SyncTable;
+  inserts: { key: string; row: Row }[];
+  updates: { key: string; row_id: string; changes: Row }[];
+  deletes: { key: string; row_id: string }[];
+  pulls: { key: string; row_id?: string; row: Row | null }[];
+  conflicts: Conflict[];
+  // Entries whose merged state is final once the plan is applied, and entries kept as they were
+  settled: { key: string; row_id?: string; remote: Row; held: Record<string, { local: any; remote: any }> }[];
+  kept: Record<string, BaseEntry>;
+}
+
+const DMAIC_PHASES = ['define', 'measure', 'analyze', 'improve', 'control'] as const;
+const CTQ_CATEGORIES = ['performance', 'reliability', 'usability', 'security'] as const;
+const CTQ_DRIVERS: Record<string, string> = {
+  performance: 'Speed and throughput',
+  reliability: 'Availability and correctness',
+  usability: 'Ease of use',
+  security: 'Protection of data and access'
+};
+
+// Phase artifacts synced as rows of their own table rather than as phase_artifacts
+const TABULAR_ARTIFACTS: Record<string, string> = {
+  define: 'ctq_tree',
+  measure: 'kpis',
+  analyze: 'fmea',
+  improve: 'proposed_solutions'
+};
+
+export const TABLE_MAPPINGS: Record<SyncTable, TableMapping> = {
+  projects: {
+    table: 'projects',
+    columns: { name: 'text', business_case: 'text', deployment_target: 'text', budget_limit: 'number', current_phase: 'text' },
+    local: project => new Map([['project', {
+      name: project.name,
+      business_case: project.business_case ?? '',
+      deployment_target: project.deployment_target ?? 'Not specified',
+      budget_limit: project.budget_limit ?? 0,
+      // A project whose control gate passed moves to NONE, which the dashboard calls COMPLETED
+      current_phase: project.current_phase === 'NONE' ? 'COMPLETED' : project.current_phase
+    }]]),
+    keyOf: () => 'project',
+    apply: (project, key, row) => {
+      if (row) {
+        project.name = row.name;
+        project.business_case = row.business_case;
+        project.deployment_target = row.deployment_target;
+        project.budget_limit = row.budget_limit;
+        project.current_phase = row.current_phase === 'COMPLETED' ? 'NONE' : row.current_phase;
+      }
+      return key;
+    }
+  },
+
+  ctq_items: {
+    table: 'ctq_items',
+    columns: { need: 'text', driver: 'text', ctq: 'text', target: 'number', usl: 'number' },
+    local: project => {
+      const rows = new Map<string, Row>();
+      const tree = project.artifacts?.define?.ctq_tree ?? {};
+      CTQ_CATEGORIES.forEach(category => Object.entries<any>(tree[category] ?? {}).forEach(([metric, spec]) =>
+        rows.set(`${category}:${metric}`, { need: category, driver: CTQ_DRIVERS[category], ctq: metric, target: spec.target, usl: spec.usl })));
+      return rows;
+    },
+    keyOf: row => `${ctqCategory(row.need)}:${row.ctq}`,
+    apply: (project, key, row) => {
+      const tree = (ensure(project.artifacts, 'define').ctq_tree ??= Object.fromEntries(CTQ_CATEGORIES.map(c => [c, {}])));
+      const [category, metric] = splitKey(key);
+      const previous = tree[category]?.[metric];
+      if (previous) delete tree[category][metric];
+      if (!row) return key;
+      const target = ctqCategory(row.need);
+      (tree[target] ??= {})[row.ctq] = { ...previous, target: row.target, usl: row.usl };
+      return `${target}:${row.ctq}`;
+    }
+  },
+
+  kpis: {
+    table: 'kpis',
+    columns: { name: 'text', description: 'text', target: 'number', current_value: 'number', unit: 'text' },
+    local: project => new Map((project.artifacts?.measure?.kpis ?? []).map((kpi: any) => [kpi.name, {
+      name: kpi.name,
+      description: kpi.description ?? '',
+      target: kpi.target,
+      current_value: kpi.current_value ?? 0,
+      unit: kpi.unit ?? ''
+    }])),
+    keyOf: row => row.name,
+    apply: (project, key, row) => {
+      const kpis: any[] = (ensure(project.artifacts, 'measure').kpis ??= []);
+      const index = kpis.findIndex(kpi => kpi.name === key);
+      if (!row) {
+        if (index >= 0) kpis.splice(index, 1);
+        return key;
+      }
+      const kpi = index >= 0 ? kpis[index] : kpis[kpis.push({ measurement_frequency: 'Not specified' }) - 1];
+      Object.assign(kpi, { name: row.name, description: row.description, target: row.target, current_value: row.current_value, unit: row.unit });
+      return row.name;
+    }
+  },
+
+  fmea_items: {
+    table: 'fmea_items',
+    columns: { failure_mode: 'text', effects: 'text', causes: 'text', severity: 'integer', occurrence: 'integer', detection: 'integer' },
+    local: project => new Map((project.artifacts?.analyze?.fmea ?? []).map((item: any) => [item.failure_mode, {
+      failure_mode: item.failure_mode,
+      effects: (item.effects ?? []).join('; '),
+      causes: (item.causes ?? []).join('; '),
+      // The table only accepts whole ratings from 1 to 10
+      severity: rating(item.severity),
+      occurrence: rating(item.occurrence),
+      detection: rating(item.detection)
+    }])),
+    keyOf: row => row.failure_mode,
+    apply: (project, key, row) => {
+      const fmea: any[] = (ensure(project.artifacts, 'analyze').fmea ??= []);
+      const index = fmea.findIndex(item => item.failure_mode === key);
+      if (!row) {
+        if (index >= 0) fmea.splice(index, 1);
+        return key;
+      }
+      const item = index >= 0 ? fmea[index] : fmea[fmea.push({ current_controls: [], recommended_actions: [] }) - 1];
+      Object.assign(item, {
+        failure_mode: row.failure_mode,
+        effects: splitList(row.effects),
+        causes: splitList(row.causes),
+        severity: row.severity,
+        occurrence: row.occurrence,
+        detection: row.detection,
+        rpn: row.severity * row.occurrence * row.detection
+      });
+      return row.failure_mode;
+    }
+  },
+
+  solutions: {
+    table: 'solutions',
+    columns: { title: 'text', description: 'text', status: 'text' },
+    local: project => new Map((project.artifacts?.improve?.proposed_solutions ?? []).map((solution: any) => [solution.id, {
+      title: solution.title ?? summaryTitle(solution.description ?? solution.id),
+      description: solution.description ?? '',
+      status: solution.status ?? 'proposed'
+    }])),
+    keyOf: (_, rowId) => `sol_ui_${rowId.replace(/-/g, '').slice(0, 12)}`,
+    apply: (project, key, row) => {
+      const solutions: any[] = (ensure(project.artifacts, 'improve').proposed_solutions ??= []);
+      const index = solutions.findIndex(solution => solution.id === key);
+      if (!row) {
+        if (index >= 0) solutions.splice(index, 1);
+        return key;
+      }
+      const solution = index >= 0 ? solutions[index] : solutions[solutions.push({
+        id: key,
+        impact_analysis: { expected_improvement: {}, cost: 0, implementation_time: 'Not estimated', risks: [] },
+        poka_yoke_mechanisms: []
+      }) - 1];
+      Object.assign(solution, { title: row.title, description: row.description, status: row.status });
+      return key;
+    }
+  },
+
+  phase_artifacts: {
+    table: 'phase_artifacts',
+    columns: { phase: 'text', artifact_type: 'text', data: 'json' },
+    local: project => {
+      const rows = new Map<string, Row>();
+      DMAIC_PHASES.forEach(phase => {
+        Object.entries(project.artifacts?.[phase] ?? {})
+          .filter(([type, data]) => type !== TABULAR_ARTIFACTS[phase] && data !== undefined)
+          .forEach(([type, data]) => rows.set(`${phase}:${type}`, { phase: phase.toUpperCase(), artifact_type: type, data }));
+        if (project.quality_gates?.[phase]) {
+          rows.set(`${phase}:quality_gate`, { phase: phase.toUpperCase(), artifact_type: 'quality_gate', data: project.quality_gates[phase] });
+        }
+      });
+      return rows;
+    },
+    keyOf: row => `${String(row.phase).toLowerCase()}:${row.artifact_type}`,
+    apply: (project, key, row) => {
+      const [phase, type] = splitKey(key);
+      const target = type === 'quality_gate' ? (project.quality_gates ??= {}) : ensure(project.artifacts, phase);
+      const field = type === 'quality_gate' ? phase : type;
+      delete target[field];
+      if (!row) return key;
+      const [newPhase, newType] = [String(row.phase).toLowerCase(), row.artifact_type];
+      if (newType === 'quality_gate') (project.quality_gates ??= {})[newPhase] = row.data;
+      else ensure(project.artifacts, newPhase)[newType] = row.data;
+      return `${newPhase}:${newType}`;
+    }
+  }
+};
+
+// Merge plan for one table. Each field is pushed if only the MCP side changed it since the last sync, pulled if only
+// Supabase did, and a conflict if both did differently; conflicting and disallowed changes are held until a later sync.
+export function planTable(
+  mapping: TableMapping,
+  localRows: Map<string, Row>,
+  remoteRows: Map<string, Row>,
+  base: Record<string, BaseEntry>,
+  options: { direction: SyncDirection; resolve: ConflictResolution }
+): TablePlan {
+  const plan: TablePlan = { table: mapping.table, inserts: [], updates: [], deletes: [], pulls: [], conflicts: [], settled: [], kept: {} };
+  const columns = Object.keys(mapping.columns);
+  const canPush = options.direction !== 'pull';
+  const canPull = options.direction !== 'push';
+
+  // Pair remote rows with entity keys: rows synced before keep their key, new rows get one from their content
+  const remoteByKey = new Map<string, { rowId: string; row: Row }>();
+  remoteRows.forEach((row, rowId) => {
+    const key = base[rowId]?.key ?? mapping.keyOf(row, rowId);
+    if (remoteByKey.has(key)) {
+      plan.conflicts.push({ table: mapping.table, key, row_id: rowId, reason: 'another Supabase row maps to the same entity', fields: [], local: localRows.get(key) ?? null, remote: row });
+      if (base[rowId]) plan.kept[rowId] = base[rowId];
+      return;
+    }
+    remoteByKey.set(key, { rowId, row });
+  });
+  // Entities synced before whose row has since been deleted in Supabase
+  const deletedRemote = new Map(Object.entries(base)
+    .filter(([rowId]) => !remoteRows.has(rowId))
+    .map(([rowId, entry]) => [entry.key, { rowId, entry }]));
+
+  const keys = new Set([...localRows.keys(), ...remoteByKey.keys(), ...deletedRemote.keys()]);
+  keys.forEach(key => {
+    const local = localRows.get(key);
+    const remote = remoteByKey.get(key);
+    const previous = remote ? base[remote.rowId] : deletedRemote.get(key)?.entry;
+    const conflict = (reason: string, fields: string[]) =>
+      plan.conflicts.push({ table: mapping.table, key, row_id: remote?.rowId, reason, fields, local: local ?? null, remote: remote?.row ?? null });
+    const keep = () => {
+      const rowId = remote?.rowId ?? deletedRemote.get(key)?.rowId;
+      if (previous && rowId) plan.kept[rowId] = previous;
+    };
+
+    if (!local && !remote) {
+      return; // deleted on both sides
+    }
+    if (!remote) {
+      // New locally, or deleted in Supabase
+      if (previous && !sameRow(columns, local!, previous.local)) {
+        if (options.resolve === 'local' && canPush) plan.inserts.push({ key, row: local! });
+        else if (options.resolve === 'remote' && canPull) plan.pulls.push({ key, row: null });
+        else { conflict('changed by MCP tools but deleted in Supabase', []); keep(); }
+      } else if (previous) {
+        if (canPull) plan.pulls.push({ key, row: null });
+        else keep();
+      } else if (canPush) {
+        plan.inserts.push({ key, row: local! });
+      }
+      return;
+    }
+    if (!local) {
+      // New in Supabase, or deleted locally
+      if (previous && !sameRow(columns, remote.row, previous.remote)) {
+        if (options.resolve === 'remote' && canPull) plan.pulls.push({ key, row_id: remote.rowId, row: remote.row });
+        else if (options.resolve === 'local' && canPush) plan.deletes.push({ key, row_id: remote.rowId });
+        else { conflict('deleted by MCP tools but changed in Supabase', []); keep(); }
+      } else if (previous) {
+        if (canPush) plan.deletes.push({ key, row_id: remote.rowId });
+        else keep();
+      } else if (canPull) {
+        plan.pulls.push({ key, row_id: remote.rowId, row: remote.row });
+      }
+      return;
+    }
+
+    // Present on both sides: merge field by field
+    const pushed: Row = {};
+    const pulled: Row = {};
+    const held: Record<string, { local: any; remote: any }> = {};
+    const conflicting: string[] = [];
+    columns.forEach(column => {
+      if (same(local[column], remote.row[column])) return;
+      const localChanged = !previous || !same(local[column], previous.local[column]);
+      const remoteChanged = !previous || !same(remote.row[column], previous.remote[column]);
+      if (!localChanged && !remoteChanged) return; // the mapping is lossy for this value; both sides are as last synced
+      const winner = localChanged && remoteChanged
+        ? (options.resolve === 'none' ? undefined : options.resolve)
+        : localChanged ? 'local' : 'remote';
+      if (winner === 'local' && canPush) pushed[column] = local[column];
+      else if (winner === 'remote' && canPull) pulled[column] = remote.row[column];
+      else {
+        if (!winner) conflicting.push(column);
+        held[column] = { local: previous?.local[column], remote: previous?.remote[column] };
+      }
+    });
+    if (conflicting.length > 0) {
+      conflict(previous ? 'changed on both sides since the last sync' : 'created on both sides with different values', conflicting);
+    }
+    if (Object.keys(pushed).length > 0) plan.updates.push({ key, row_id: remote.rowId, changes: pushed });
+    if (Object.keys(pulled).length > 0) plan.pulls.push({ key, row_id: remote.rowId, row: { ...local, ...pulled } });
+    plan.settled.push({ key, row_id: remote.rowId, remote: { ...remote.row, ...pushed }, held });
+  });
+
+  return plan;
+}
+
+// Base entries for a table after its plan was applied; `keys` maps each pulled entity's old key to its new one
+export function settleBase(
+  mapping: TableMapping,
+  plan: TablePlan,
+  project: any,
+  keys: Map<string, string>,
+  insertedIds: Map<string, string>
+): Record<string, BaseEntry> {
+  const localRows = mapping.local(project);
+  const base: Record<string, BaseEntry> = { ...plan.kept };
+
+  plan.settled.forEach(({ key, row_id, remote, held }) => {
+    const newKey = keys.get(key) ?? key;
+    const local = localRows.get(newKey);
+    if (!row_id || !local) return;
+    const entry: BaseEntry = { key: newKey, local: { ...local }, remote: { ...remote } };
+    Object.entries(held).forEach(([column, values]) => {
+      entry.local[column] = values.local;
+      entry.remote[column] = values.remote;
+    });
+    base[row_id] = entry;
+  });
+  plan.pulls.filter(pull => pull.row && !plan.settled.some(s => s.key === pull.key)).forEach(pull => {
+    const newKey = keys.get(pull.key) ?? pull.key;
+    const local = localRows.get(newKey);
+    if (pull.row_id && local) base[pull.row_id] = { key: newKey, local, remote: remoteOf(mapping, pull.row!) };
+  });
+  plan.inserts.forEach(({ key, row }) => {
+    const rowId = insertedIds.get(key);
+    if (rowId) base[rowId] = { key, local: row, remote: row };
+  });
+  return base;
+}
+
+// Risk level from the average FMEA RPN and completion from the passed gates, computed the way the dashboard computes them
+export function derivedColumns(project: any): { risk_level: 'LOW' | 'MEDIUM' | 'HIGH'; phase_completion: number } {
+  const fmea: any[] = project.artifacts?.analyze?.fmea ?? [];
+  const averageRpn = fmea.reduce((sum, item) => sum + (item.rpn ?? 0), 0) / (fmea.length || 1);
+  const passedGates = DMAIC_PHASES.filter(phase => project.quality_gates?.[phase]?.passed).length;
+  return {
+    risk_level: averageRpn > 300 ? 'HIGH' : averageRpn > 150 ? 'MEDIUM' : 'LOW',
+    phase_completion: passedGates * 20
+  };
+}
+
+// Values compare by content, ignoring key order (jsonb does not keep it)
+export function same(a: unknown, b: unknown): boolean {
+  return canonical(a ?? null) === canonical(b ?? null);
+}
+
+function remoteOf(mapping: TableMapping, row: Row): Row {
+  return Object.fromEntries(Object.keys(mapping.columns).map(column => [column, row[column]]));
+}
+
+function sameRow(columns: string[], a: Row, b: Row): boolean {
+  return columns.every(column => same(a[column], b[column]));
+}
+
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as any)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonical((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function ensure(artifacts: any, phase: string): any {
+  return (artifacts[phase] ??= {});
+}
+
+function splitKey(key: string): [string, string] {
+  const index = key.indexOf(':');
+  return [key.slice(0, index), key.slice(index + 1)];
+}
+
+function ctqCategory(need: unknown): string {
+  const category = String(need ?? '').trim().toLowerCase();
+  return (CTQ_CATEGORIES as readonly string[]).includes(category) ? category : 'performance';
+}
+
+function rating(value: unknown): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(10, Math.max(1, Math.round(number))) : 1;
+}
+
+function splitList(text: unknown): string[] {
+  return String(text ?? '').split(';').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function summaryTitle(description: string): string {
+  const sentence = description.split(/(?<=[.!?])\s/)[0];
+  return sentence.length <= 80 ? sentence : `${sentence.slice(0, 77)}...`;
+}
@@ -0,0 +1,200 @@
+// Supabase Sync for Six Sigma MCP
+// Two-way sync of a project with the dashboard's Postgres tables, in one transaction per project
+
+import type { Pool } from 'pg';
+import {
+  Conflict, ConflictResolution, Row, SyncBase, SyncDirection, SyncTable, TableMapping, TablePlan,
+  SYNC_TABLES, TABLE_MAPPINGS, derivedColumns, planTable, settleBase
+} from './supabase-mapping.ts';
+
+export interface SupabaseSyncConfig {
+  connection_string: string;
+  auto: boolean; // sync after every tool call that loads a project
+}
+
+// The subset of a pg client the sync uses, so any Postgres connection (e.g. a local test database) can back it
+export interface SyncClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[] }>;
+  release(): void;
+}
+
+export interface SyncPool {
+  connect(): Promise<SyncClient>;
+  end(): Promise<void>;
+}
+
+export interface SyncOptions {
+  direction: SyncDirection;
+  resolve: ConflictResolution;
+  dry_run: boolean;
+}
+
+export interface TableSyncCounts {
+  pushed: number;         // rows inserted or updated in Supabase
+  deleted_remote: number;
+  pulled: number;         // entities created or updated in the MCP project
+  deleted_local: number;
+}
+
+export interface SyncReport {
+  supabase_project_id?: string; // undefined when pulling a project that was never pushed
+  created: boolean;             // the project row was created by this sync
+  dry_run: boolean;
+  tables: Record<SyncTable, TableSyncCounts>;
+  conflicts: Conflict[];
+}
+
+export function loadSupabaseSyncConfig(env: NodeJS.ProcessEnv = process.env): SupabaseSyncConfig | undefined {
+  const connectionString = env.SIX_SIGMA_SUPABASE_DB_URL || env.SUPABASE_DB_URL;
+  if (!connectionString) {
+    return undefined;
+  }
+  const mode = (env.SIX_SIGMA_SUPABASE_SYNC || 'manual').trim().toLowerCase();
+  if (mode !== 'manual' && mode !== 'auto') {
+    throw new Error(`Unknown SIX_SIGMA_SUPABASE_SYNC "${mode}"; expected manual or auto`);
+  }
+  return { connection_string: connectionString, auto: mode === 'auto' };
+}
+
+export class SupabaseSync {
+  constructor(private pool: SyncPool) {}
+
+  static async connect(config: SupabaseSyncConfig): Promise<SupabaseSync> {
+    // Loaded on demand so the server runs without the Postgres driver when sync is not configured
+    const { default: pg } = await import('pg');
+    const pool: Pool = new pg.Pool({ connectionString: config.connection_string, max: 4 });
+    return new SupabaseSync(pool);
+  }
+
+  // Merges the project with its Supabase rows. Pulled changes are written into `project`, and commitLocal must
+  // persist them before the Supabase transaction commits, so a failed local save leaves Supabase unchanged.
+  async syncProject(project: any, options: SyncOptions, commitLocal: () => Promise<void>): Promise<SyncReport> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const report = await this.sync(client, project, options, commitLocal);
+      await client.query(options.dry_run ? 'ROLLBACK' : 'COMMIT');
+      return report;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async sync(client: SyncClient, project: any, options: SyncOptions, commitLocal: () => Promise<void>): Promise<SyncReport> {
+    const report: SyncReport = {
+      created: false,
+      dry_run: options.dry_run,
+      tables: Object.fromEntries(SYNC_TABLES.map(table => [table, { pushed: 0, deleted_remote: 0, pulled: 0, deleted_local: 0 }])) as Record<SyncTable, TableSyncCounts>,
+      conflicts: []
+    };
+
+    // Locking the project row serializes concurrent syncs of the same project
+    let projectId: string | undefined = (await client.query(
+      'SELECT id FROM projects WHERE mcp_project_id = $1 FOR UPDATE', [project.id])).rows[0]?.id;
+    if (!projectId) {
+      if (options.direction === 'pull') {
+        return report;
+      }
+      projectId = await insertRow(client, TABLE_MAPPINGS.projects, TABLE_MAPPINGS.projects.local(project).get('project')!, { mcp_project_id: project.id });
+      report.created = true;
+      report.tables.projects.pushed++;
+    }
+    report.supabase_project_id = projectId;
+
+    const base: SyncBase = (await client.query(
+      'SELECT base FROM mcp_sync_state WHERE project_id = $1 FOR UPDATE', [projectId])).rows[0]?.base ?? {};
+
+    const plans: TablePlan[] = [];
+    for (const table of SYNC_TABLES) {
+      const mapping = TABLE_MAPPINGS[table];
+      const remote = await selectRows(client, mapping, projectId);
+      plans.push(planTable(mapping, mapping.local(project), remote, base[table] ?? {}, options));
+    }
+    plans.forEach(plan => report.conflicts.push(...plan.conflicts));
+
+    const working = options.dry_run ? structuredClone(project) : project;
+    const newBase: SyncBase = {};
+    for (const plan of plans) {
+      const mapping = TABLE_MAPPINGS[plan.table];
+      const counts = report.tables[plan.table];
+
+      const keys = new Map<string, string>();
+      plan.pulls.forEach(({ key, row }) => {
+        keys.set(key, mapping.apply(working, key, row));
+        if (row) counts.pulled++;
+        else counts.deleted_local++;
+      });
+
+      for (const { row_id } of plan.deletes) {
+        await client.query(`DELETE FROM ${plan.table} WHERE id = $1`, [row_id]);
+        counts.deleted_remote++;
+      }
+      for (const { row_id, changes } of plan.updates) {
+        await updateRow(client, mapping, row_id, changes);
+        counts.pushed++;
+      }
+      const inserted = new Map<string, string>();
+      for (const { key, row } of plan.inserts) {
+        inserted.set(key, await insertRow(client, mapping, row, { project_id: projectId }));
+        counts.pushed++;
+      }
+
+      newBase[plan.table] = settleBase(mapping, plan, working, keys, inserted);
+    }
+
+    await updateDerivedColumns(client, projectId, working);
+    await client.query(`INSERT INTO mcp_sync_state (project_id, mcp_project_id, base, synced_at) VALUES ($1, $2, $3::jsonb, now())
+      ON CONFLICT (project_id) DO UPDATE SET mcp_project_id = excluded.mcp_project_id, base = excluded.base, synced_at = excluded.synced_at`,
+      [projectId, project.id, JSON.stringify(newBase)]);
+
+    if (!options.dry_run) {
+      await commitLocal();
+    }
+    return report;
+  }
+}
+
+async function selectRows(client: SyncClient, mapping: TableMapping, projectId: string): Promise<Map<string, Row>> {
+  // numeric columns come back as strings unless cast
+  const columns = Object.entries(mapping.columns)
+    .map(([column, type]) => type === 'number' ? `${column}::float8 AS ${column}` : column);
+  const where = mapping.table === 'projects' ? 'id = $1' : 'project_id = $1';
+  const { rows } = await client.query(`SELECT id, ${columns.join(', ')} FROM ${mapping.table} WHERE ${where} ORDER BY created_at, id`, [projectId]);
+  return new Map(rows.map(({ id, ...row }) => [String(id), row]));
+}
+
+async function insertRow(client: SyncClient, mapping: TableMapping, row: Row, extra: Row): Promise<string> {
+  const columns = [...Object.keys(extra), ...Object.keys(mapping.columns)];
+  const values = [...Object.values(extra), ...Object.keys(mapping.columns).map(column => toParameter(mapping, column, row[column]))];
+  const placeholders = columns.map((column, i) => mapping.columns[column] === 'json' ? `$${i + 1}::jsonb` : `$${i + 1}`);
+  const { rows } = await client.query(
+    `INSERT INTO ${mapping.table} (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING id`, values);
+  return String(rows[0].id);
+}
+
+async function updateRow(client: SyncClient, mapping: TableMapping, rowId: string, changes: Row): Promise<void> {
+  const columns = Object.keys(changes);
+  const assignments = columns.map((column, i) => `${column} = $${i + 2}${mapping.columns[column] === 'json' ? '::jsonb' : ''}`);
+  await client.query(`UPDATE ${mapping.table} SET ${assignments.join(', ')} WHERE id = $1`,
+    [rowId, ...columns.map(column => toParameter(mapping, column, changes[column]))]);
+}
+
+// Risk level and completion are computed the way the dashboard computes them, so they are written rather than merged
+async function updateDerivedColumns(client: SyncClient, projectId: string, project: any): Promise<void> {
+  const { risk_level, phase_completion } = derivedColumns(project);
+  await client.query(`UPDATE projects SET risk_level = $2, phase_completion = $3
+    WHERE id = $1 AND (risk_level IS DISTINCT FROM $2 OR phase_completion IS DISTINCT FROM $3::numeric)`,
+    [projectId, risk_level, phase_completion]);
+}
+
+// pg would send a JavaScript array as a Postgres array, so JSON values are sent as text
+function toParameter(mapping: TableMapping, column: string, value: unknown): unknown {
+  return mapping.columns[column] === 'json' ? JSON.stringify(value ?? null) : value ?? null;
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeFiles, analyzeSource, checkThresholds } from '../../src/analysis/code-metrics.ts';
+import { assertClose } from '../approx.ts';
+
+const CLASSIFY = `// Classifies a value
+function classify(value: number, flags?: string[]): string {
+  if (value > 10 && flags) {
+    return 'high';
+  } else if (value > 5) {
+    return flags?.[0] ?? 'mid';
+  }
+  for (const flag of flags ?? []) {
+    switch (flag) {
+      case 'a': return 'a';
+      case 'b': return 'b';
+      default: break;
+    }
+  }
+  try {
+    return value > 0 ? 'low' : 'none';
+  } catch {
+    return 'error';
+  }
+}`;
+
+const QUEUE = `export class Queue {
+  private items: number[] = [];
+  constructor(private limit: number) {}
+  push = (item: number) => this.items.length < this.limit || this.items.push(item);
+  get size() { return this.items.length; }
+}
+const helper = function () { return 1; };
+[1].map(v => v * 2);`;
+
+test('Halstead counts and maintainability index of a single statement', () => {
+  // Operators: const = + ;  Operands: x a 1
+  const metrics = analyzeSource('one.ts', 'const x = a + 1;');
+  const { halstead } = metrics;
+  assert.equal(halstead.distinct_operators, 4);
+  assert.equal(halstead.distinct_operands, 3);
+  assert.equal(halstead.length, 7);
+  assertClose(halstead.volume, 7 * Math.log2(7));
+  assertClose(halstead.difficulty, 2);
+  assertClose(halstead.effort, 39.30297);
+  // (171 - 5.2 ln V - 0.23 · 1 - 16.2 ln 1) · 100 / 171
+  assertClose(metrics.maintainability_index, 90.80913);
+});
+
+test('cyclomatic complexity counts branches, loops, cases, catch and short-circuit operators', () => {
+  const [classify] = analyzeSource('classify.ts', CLASSIFY).functions;
+  // if, &&, else if, ??, for-of, ??, two cases, catch and ?:
+  assert.deepEqual(classify, {
+    name: 'classify',
+    line: 2,
+    cyclomatic_complexity: 11,
+    source_loc: 19,
+    parameters: 2,
+    documented: true
+  });
+});
+
+test('functions are named after their class, variable or property', () => {
+  const metrics = analyzeSource('queue.ts', QUEUE);
+  assert.deepEqual(metrics.functions.map(f => [f.name, f.cyclomatic_complexity, f.documented]), [
+    ['Queue.constructor', 1, false],
+    ['Queue.push', 2, false],
+    ['Queue.size', 1, false],
+    ['helper', 1, false],
+    ['<anonymous>', 1, false]
+  ]);
+  assert.deepEqual(metrics.cyclomatic_complexity, { total: 6, max: 2, average: 1.2 });
+});
+
+test('lines are split into source, comment-only and blank', () => {
+  const content = '/**\n * Doc\n */\nconst a = 1; // trailing\n\n// only comment\nconst b = 2;';
+  assert.deepEqual(analyzeSource('lines.js', content).loc, { physical: 7, source: 2, comment: 4, blank: 1 });
+});
+
+test('reports aggregate analyzable files and check thresholds', () => {
+  const report = analyzeFiles([
+    { path: 'src/classify.ts', content: CLASSIFY },
+    { path: 'src/queue.ts', content: QUEUE },
+    { path: 'README.md', content: '# Readme' }
+  ]);
+  assert.deepEqual(report.skipped, ['README.md']);
+  assert.equal(report.functions, 6);
+  assert.equal(report.max_complexity, 11);
+  assertClose(report.average_complexity, 17 / 6);
+  assertClose(report.documentation_coverage, 100 / 6);
+  assert.deepEqual(checkThresholds(report), {
+    cyclomatic_complexity_max_10: false,
+    maintainability_index_min_20: true,
+    function_loc_max_60: true
+  });
+
+  assert.throws(() => analyzeSource('notes.txt', ''), /not a TypeScript or JavaScript file/);
+});
@@ -0,0 +1,6 @@
+import assert from 'node:assert/strict';
+
+// Reference values are quoted to a few decimals, so results are compared after rounding to as many
+export function assertClose(actual: number, expected: number, decimals = 4): void {
+  assert.ok(Math.abs(actual - expected) < 0.5 * 10 ** -decimals, `expected ${expected} to ${decimals} decimals, got ${actual}`);
+}
@@ -0,0 +1,235 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AnthropicProvider,
+  createLLMProvider,
+  FixtureProvider,
+  DEFAULT_ANTHROPIC_MODEL,
+  fixtureKey,
+  loadLLMConfig,
+  OpenAICompatibleProvider,
+  preferSampling,
+  SamplingProvider,
+  type SamplingHost
+} from '../../src/codegen/llm-provider.ts';
+
+const REQUEST = { purpose: 'code_generation', system: 'You write code', prompt: 'Build it', max_tokens: 100 };
+
+test('without provider variables or an API key no provider is configured', () => {
+  assert.equal(loadLLMConfig({}), undefined);
+  assert.equal(loadLLMConfig({ SIX_SIGMA_LLM_PROVIDER: 'none', ANTHROPIC_API_KEY: 'sk' }), undefined);
+});
+
+test('an ANTHROPIC_API_KEY alone selects the Anthropic provider', () => {
+  assert.deepEqual(loadLLMConfig({ ANTHROPIC_API_KEY: 'sk-ant', SIX_SIGMA_LLM_MODEL: 'claude-x' }), {
+    provider: 'anthropic',
+    model: 'claude-x',
+    api_key: 'sk-ant',
+    base_url: undefined,
+    fixtures_path: undefined,
+    timeout_ms: 120_000
+  });
+  assert.equal(loadLLMConfig({ ANTHROPIC_API_KEY: 'sk-ant' })?.model, DEFAULT_ANTHROPIC_MODEL);
+  assert.equal(loadLLMConfig({ SIX_SIGMA_LLM_PROVIDER: 'openai' })?.model, undefined);
+});
+
+test('OpenAI-compatible configuration falls back to the OPENAI_* variables', () => {
+  const config = loadLLMConfig({
+    SIX_SIGMA_LLM_PROVIDER: ' OpenAI ',
+    SIX_SIGMA_LLM_MODEL: 'llama3',
+    OPENAI_API_KEY: 'sk-openai',
+    OPENAI_BASE_URL: 'http://localhost:11434/v1',
+    ANTHROPIC_API_KEY: 'sk-ant',
+    SIX_SIGMA_LLM_TIMEOUT_MS: '5000'
+  });
+  assert.equal(config?.provider, 'openai');
+  assert.equal(config?.api_key, 'sk-openai');
+  assert.equal(config?.base_url, 'http://localhost:11434/v1');
+  assert.equal(config?.timeout_ms, 5000);
+});
+
+test('invalid configuration is reported with the variable to fix', () => {
+  assert.throws(() => loadLLMConfig({ SIX_SIGMA_LLM_PROVIDER: 'gpt' }), /Unknown SIX_SIGMA_LLM_PROVIDER "gpt"/);
+  assert.throws(() => loadLLMConfig({ SIX_SIGMA_LLM_PROVIDER: 'fixture', SIX_SIGMA_LLM_TIMEOUT_MS: '0' }),
+    /SIX_SIGMA_LLM_TIMEOUT_MS must be a positive number/);
+
+  const base = { timeout_ms: 1000 };
+  assert.throws(() => createLLMProvider({ ...base, provider: 'anthropic', api_key: 'sk' }), /anthropic provider requires SIX_SIGMA_LLM_MODEL/);
+  assert.throws(() => createLLMProvider({ ...base, provider: 'openai', base_url: 'http://localhost:11434/v1' }), /requires SIX_SIGMA_LLM_MODEL/);
+  assert.throws(() => createLLMProvider({ ...base, provider: 'anthropic', model: 'm' }), /requires ANTHROPIC_API_KEY/);
+  assert.throws(() => createLLMProvider({ ...base, provider: 'openai', model: 'm' }), /requires SIX_SIGMA_LLM_BASE_URL/);
+  assert.throws(() => createLLMProvider({ ...base, provider: 'sampling' }), /requires an MCP server connection/);
+  assert.throws(() => createLLMProvider({ ...base, provider: 'fixture' }), /requires SIX_SIGMA_LLM_FIXTURES/);
+});
+
+test('fixture keys hash the purpose, system prompt and prompt', () => {
+  // sha256("code_generation\0You write code\0Build it"), first 16 hex digits
+  assert.equal(fixtureKey(REQUEST), '94799d9d822350c3');
+  assert.notEqual(fixtureKey({ ...REQUEST, system: undefined }), fixtureKey(REQUEST));
+});
+
+test('fixture replay prefers an exact prompt hash, then the first matching purpose', async () => {
+  const provider = new FixtureProvider([
+    { purpose: 'code_generation', prompt_contains: 'Refactor', response: 'refactored' },
+    { purpose: 'code_generation', response: 'generic', model: 'recorded-model' },
+    { prompt_hash: fixtureKey(REQUEST), response: 'exact' }
+  ]);
+  assert.deepEqual(await provider.complete(REQUEST), { text: 'exact', provider: 'fixture', model: 'fixture', truncated: false });
+  assert.equal((await provider.complete({ ...REQUEST, prompt: 'Refactor it' })).text, 'refactored');
+  const generic = await provider.complete({ ...REQUEST, prompt: 'Other' });
+  assert.deepEqual([generic.text, generic.model], ['generic', 'recorded-model']);
+  await assert.rejects(provider.complete({ ...REQUEST, purpose: 'review' }), /No fixture for review \(prompt_hash [0-9a-f]{16}\) in fixtures/);
+});
+
+test('fixture files are validated when loaded', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+  try {
+    const file = join(dir, 'fixtures.json');
+    writeFileSync(file, JSON.stringify({ fixtures: [{ purpose: 'code_generation', response: 'ok' }] }));
+    assert.equal(createLLMProvider({ provider: 'fixture', fixtures_path: file, timeout_ms: 1000 }).kind, 'fixture');
+
+    writeFileSync(file, JSON.stringify([{ response: 'ok' }]));
+    assert.throws(() => FixtureProvider.fromFile(file), /Fixture 0 in .* needs a purpose or a prompt_hash/);
+    writeFileSync(file, JSON.stringify([{ purpose: 'x' }]));
+    assert.throws(() => FixtureProvider.fromFile(file), /has no response string/);
+    writeFileSync(file, '{"other": 1}');
+    assert.throws(() => FixtureProvider.fromFile(file), /must be an array or \{ "fixtures": \[\.\.\.\] \}/);
+    assert.throws(() => FixtureProvider.fromFile(join(dir, 'missing.json')), /Cannot load LLM fixtures/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+let server: Server;
+let baseUrl: string;
+const received: any[] = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const parsed = JSON.parse(body);
+      received.push({ url: req.url, authorization: req.headers.authorization, body: parsed });
+      if (req.url === '/v1/messages') {
+        // Anthropic Messages API: unknown models are a 404 not_found_error
+        const found = parsed.model !== 'claude-retired';
+        res.writeHead(found ? 200 : 404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(found
+          ? { id: 'msg_1', type: 'message', role: 'assistant', model: parsed.model, content: [{ type: 'text', text: 'drafted' }],
+              stop_reason: 'end_turn', usage: { input_tokens: 3, output_tokens: 1 } }
+          : { type: 'error', error: { type: 'not_found_error', message: `model: ${parsed.model}` } }));
+        return;
+      }
+      if (parsed.model === 'broken') {
+        res.writeHead(503, 'Service Unavailable').end('overloaded');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ model: 'served-model', choices: [{ message: { content: 'generated' }, finish_reason: 'length' }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+after(() => server.close());
+
+test('the OpenAI-compatible provider posts chat completions', async () => {
+  const completion = await new OpenAICompatibleProvider(baseUrl, 'llama3', 5000, 'sk-local').complete(REQUEST);
+  assert.deepEqual(completion, { text: 'generated', provider: 'openai', model: 'served-model', stop_reason: 'length', truncated: true });
+  assert.deepEqual(received[0], {
+    url: '/v1/chat/completions',
+    authorization: 'Bearer sk-local',
+    body: {
+      model: 'llama3',
+      max_tokens: 100,
+      messages: [{ role: 'system', content: 'You write code' }, { role: 'user', content: 'Build it' }]
+    }
+  });
+
+  await assert.rejects(new OpenAICompatibleProvider(baseUrl, 'broken', 5000).complete(REQUEST),
+    /openai provider failed to generate code_generation: HTTP 503 Service Unavailable: overloaded/);
+});
+
+test('the Anthropic provider sends the default model and names the variable when a model is unavailable', async () => {
+  const originalBaseUrl = process.env.ANTHROPIC_BASE_URL;
+  process.env.ANTHROPIC_BASE_URL = new URL(baseUrl).origin;
+  try {
+    const config = loadLLMConfig({ ANTHROPIC_API_KEY: 'sk-ant', SIX_SIGMA_LLM_TIMEOUT_MS: '5000' })!;
+    const completion = await createLLMProvider(config).complete(REQUEST);
+    assert.deepEqual(completion, { text: 'drafted', provider: 'anthropic', model: DEFAULT_ANTHROPIC_MODEL, stop_reason: 'end_turn', truncated: false });
+    assert.equal(received.at(-1).body.model, DEFAULT_ANTHROPIC_MODEL);
+
+    await assert.rejects(new AnthropicProvider('sk-ant', 'claude-retired', 5000).complete(REQUEST),
+      /anthropic provider failed to generate code_generation: model "claude-retired" is not available; set SIX_SIGMA_LLM_MODEL/);
+  } finally {
+    if (originalBaseUrl === undefined) delete process.env.ANTHROPIC_BASE_URL;
+    else process.env.ANTHROPIC_BASE_URL = originalBaseUrl;
+  }
+});
+
+test('the sampling provider asks the connected client and needs its sampling capability', async () => {
+  let capabilities: { sampling?: object } | undefined = {};
+  const host = {
+    getClientCapabilities: () => capabilities,
+    createMessage: async () => ({ role: 'assistant', model: 'client-model', stopReason: 'maxTokens', content: { type: 'text', text: 'sampled' } })
+  } as unknown as SamplingHost;
+  const provider = new SamplingProvider(host, 5000, 'claude');
+
+  assert.equal(provider.isAvailable(), false);
+  await assert.rejects(provider.complete(REQUEST), /connected MCP client does not support sampling/);
+
+  capabilities = { sampling: {} };
+  assert.deepEqual(await provider.complete(REQUEST),
+    { text: 'sampled', provider: 'sampling', model: 'client-model', stop_reason: 'maxTokens', truncated: true });
+});
+
+function fakeHost(sampling: boolean, createMessage: () => Promise<unknown>): SamplingHost {
+  return {
+    getClientCapabilities: () => (sampling ? { sampling: {} } : {}),
+    createMessage
+  } as unknown as SamplingHost;
+}
+
+const sampled = async () => ({ role: 'assistant', model: 'client-model', content: { type: 'text', text: 'sampled' } });
+
+test('sampling is preferred when the client supports it', async () => {
+  const configured = new FixtureProvider([{ purpose: 'code_generation', response: 'fixture' }]);
+  const provider = preferSampling(fakeHost(true, sampled), configured, {})!;
+  assert.equal(provider.kind, 'sampling');
+  const completion = await provider.complete(REQUEST);
+  assert.equal(completion.text, 'sampled');
+  assert.equal(completion.fallback_reason, undefined);
+});
+
+test('the configured provider answers when sampling is unsupported or fails', async () => {
+  const configured = new FixtureProvider([{ purpose: 'code_generation', response: 'fixture' }]);
+
+  const unsupported = await preferSampling(fakeHost(false, sampled), configured, {})!.complete(REQUEST);
+  assert.equal(unsupported.text, 'fixture');
+  assert.equal(unsupported.fallback_reason, 'the connected MCP client does not support sampling');
+
+  const failing = fakeHost(true, async () => { throw new Error('user declined'); });
+  const failed = await preferSampling(failing, configured, {})!.complete(REQUEST);
+  assert.equal(failed.text, 'fixture');
+  assert.equal(failed.fallback_reason, 'sampling provider failed to generate code_generation: user declined');
+});
+
+test('SIX_SIGMA_LLM_SAMPLING=off keeps the configured provider', async () => {
+  const configured = new FixtureProvider([{ purpose: 'code_generation', response: 'fixture' }]);
+  assert.equal(preferSampling(fakeHost(true, sampled), configured, { SIX_SIGMA_LLM_SAMPLING: 'OFF' }), configured);
+  assert.equal(preferSampling(fakeHost(true, sampled), undefined, { SIX_SIGMA_LLM_SAMPLING: 'off' }), undefined);
+});
+
+test('without a configured provider, availability follows the client', async () => {
+  const provider = preferSampling(fakeHost(false, sampled), undefined, {})!;
+  assert.equal(provider.isAvailable(), false);
+  await assert.rejects(provider.complete(REQUEST), /does not support sampling/);
+  assert.equal(preferSampling(fakeHost(true, sampled), undefined, {})!.isAvailable(), true);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractCodeFiles, extractJSON, safeRelativePath } from '../../src/codegen/response-parser.ts';
+
+const FENCE = '```';
+
+test('safeRelativePath normalizes paths inside the project', () => {
+  assert.equal(safeRelativePath('src/index.ts'), 'src/index.ts');
+  assert.equal(safeRelativePath('./src//lib/../util.ts'), 'src/util.ts');
+  assert.equal(safeRelativePath('src\\win\\file.ts'), 'src/win/file.ts');
+});
+
+test('safeRelativePath rejects parent traversal and absolute paths', () => {
+  assert.deepEqual(safeRelativePath('../secrets.env'), { reason: 'path escapes the project directory' });
+  assert.deepEqual(safeRelativePath('src/../../etc/passwd'), { reason: 'path escapes the project directory' });
+  assert.deepEqual(safeRelativePath('..'), { reason: 'path escapes the project directory' });
+  assert.deepEqual(safeRelativePath('/etc/passwd'), { reason: 'absolute paths are not allowed' });
+  assert.deepEqual(safeRelativePath('C:\\Windows\\system.ini'), { reason: 'absolute paths are not allowed' });
+  assert.deepEqual(safeRelativePath('~/.ssh/authorized_keys'), { reason: 'absolute paths are not allowed' });
+  assert.deepEqual(safeRelativePath('.git/hooks/pre-commit'), { reason: 'writes into .git are not allowed' });
+  assert.deepEqual(safeRelativePath('src/'), { reason: 'not a file path' });
+  assert.deepEqual(safeRelativePath('a\0b'), { reason: 'contains a null byte' });
+});
+
+test('every path convention yields a file with its language', () => {
+  const response = [
+    `${FENCE}ts title="src/a.ts"`, 'export const a = 1;', FENCE,
+    `${FENCE}ts:src/b.ts`, 'export const b = 2;', FENCE,
+    `${FENCE}python`, '# path: scripts/c.py', 'print(3)', FENCE,
+    '// file: src/d.js', `${FENCE}`, 'module.exports = 4;', FENCE,
+    '**config/e.yml**', '', `${FENCE}`, 'e: 5', FENCE,
+    `${FENCE} title="Dockerfile"`, 'FROM node:20', FENCE
+  ].join('\n');
+  const { files, unnamed_blocks, rejected } = extractCodeFiles(response);
+  assert.deepEqual(files, [
+    { path: 'src/a.ts', language: 'typescript', content: 'export const a = 1;\n' },
+    { path: 'src/b.ts', language: 'typescript', content: 'export const b = 2;\n' },
+    { path: 'scripts/c.py', language: 'python', content: 'print(3)\n' },
+    { path: 'src/d.js', language: 'javascript', content: 'module.exports = 4;\n' },
+    { path: 'config/e.yml', language: 'yaml', content: 'e: 5\n' },
+    { path: 'Dockerfile', language: 'dockerfile', content: 'FROM node:20\n' }
+  ]);
+  assert.deepEqual(unnamed_blocks, []);
+  assert.deepEqual(rejected, []);
+});
+
+test('unnamed blocks, unsafe paths and revisions', () => {
+  const response = [
+    'Install it:', `${FENCE}bash`, 'npm install', FENCE,
+    `${FENCE}ts title="../outside.ts"`, 'bad', FENCE,
+    `${FENCE}ts title="src/a.ts"`, 'v1', FENCE,
+    `${FENCE}ts title="src/a.ts"`, 'v2', FENCE
+  ].join('\n');
+  const { files, unnamed_blocks, rejected } = extractCodeFiles(response);
+  assert.deepEqual(unnamed_blocks, [{ language: 'shell', content: 'npm install\n', line: 2 }]);
+  assert.deepEqual(rejected, [{ path: '../outside.ts', reason: 'path escapes the project directory' }]);
+  assert.deepEqual(files, [{ path: 'src/a.ts', language: 'typescript', content: 'v2\n' }]);
+});
+
+test('longer fences nest shorter ones and unterminated fences run to the end', () => {
+  const response = [
+    '````md title="docs/README.md"', 'Example:', FENCE, 'code', FENCE, '````',
+    `${FENCE}ts title="src/cut.ts"`, 'export function cut() {'
+  ].join('\n');
+  assert.deepEqual(extractCodeFiles(response).files, [
+    { path: 'docs/README.md', language: 'markdown', content: `Example:\n${FENCE}\ncode\n${FENCE}\n` },
+    { path: 'src/cut.ts', language: 'typescript', content: 'export function cut() {\n' }
+  ]);
+});
+
+test('extractJSON finds the JSON value in a model reply', () => {
+  assert.deepEqual(extractJSON(`Here you go:\n${FENCE}json\n{"causes": ["heat"]}\n${FENCE}\nThanks`), { causes: ['heat'] });
+  assert.deepEqual(extractJSON('  [1, 2, 3]  '), [1, 2, 3]);
+  assert.deepEqual(extractJSON('The answer is {"score": 4} as requested.'), { score: 4 });
+  assert.deepEqual(extractJSON('Items: [{"a": 1}] done'), [{ a: 1 }]);
+  assert.throws(() => extractJSON('no structured answer'), /no valid JSON/);
+  assert.throws(() => extractJSON('{ broken'), /no valid JSON/);
+});
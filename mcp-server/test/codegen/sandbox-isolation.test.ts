@@ -0,0 +1,30 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runInSandbox } from '../../src/codegen/sandbox.ts';
+
+// unshare is looked up on PATH once per process, so this file runs apart from the other sandbox tests
+const ROOT = mkdtempSync(join(tmpdir(), 'sandbox-isolation-test-'));
+const EMPTY_PATH = mkdtempSync(join(tmpdir(), 'sandbox-empty-path-'));
+const FILES = [{ path: 'test/ok.test.js', content: "require('node:test').test('ok', () => {});\n" }];
+after(() => {
+  rmSync(ROOT, { recursive: true, force: true });
+  rmSync(EMPTY_PATH, { recursive: true, force: true });
+});
+
+test('generated code is not run where namespaces are unavailable unless explicitly allowed', async () => {
+  const originalPath = process.env.PATH;
+  process.env.PATH = EMPTY_PATH;
+  try {
+    await assert.rejects(runInSandbox(ROOT, 'refused', FILES),
+      /needs Linux user and network namespaces .*Set SIX_SIGMA_ALLOW_UNISOLATED_BUILDS=1/);
+    assert.equal(existsSync(join(ROOT, 'refused')), false);
+
+    const run = await runInSandbox(ROOT, 'allowed', FILES, { allow_unisolated: true });
+    assert.deepEqual(run.tests, { passed: true, total: 1, passed_count: 1, failed_count: 0 });
+  } finally {
+    process.env.PATH = originalPath;
+  }
+});
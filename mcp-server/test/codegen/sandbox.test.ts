@@ -0,0 +1,114 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { prepareWorkspace, runInSandbox } from '../../src/codegen/sandbox.ts';
+
+const ROOT = mkdtempSync(join(tmpdir(), 'sandbox-test-'));
+after(() => rmSync(ROOT, { recursive: true, force: true }));
+
+// Hosts without unprivileged user namespaces still run the build tests, just without isolation
+const ISOLATED = process.platform === 'linux'
+  && spawnSync('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--fork', '--net', 'true']).status === 0;
+const OPTIONS = { allow_unisolated: true };
+
+const SUM = { path: 'src/sum.js', content: 'exports.sum = (a, b) => a + b;\n' };
+const SUM_TEST = {
+  path: 'test/sum.test.js',
+  content: [
+    "const { test } = require('node:test');",
+    "const assert = require('node:assert');",
+    "const { sum } = require('../src/sum.js');",
+    "test('adds', () => assert.equal(sum(1, 2), 3));",
+    "test('sees no server secrets', () => assert.equal(process.env.SANDBOX_TEST_SECRET, undefined));",
+    ''
+  ].join('\n')
+};
+
+test('prepareWorkspace replaces the workspace with exactly the given files', async () => {
+  const stale = join(ROOT, 'p_1', 'stale.txt');
+  mkdirSync(join(ROOT, 'p_1'), { recursive: true });
+  writeFileSync(stale, 'old');
+
+  const workspace = await prepareWorkspace(ROOT, 'p/1', [SUM]);
+  assert.equal(workspace, join(ROOT, 'p_1'));
+  assert.deepEqual(readdirSync(workspace), ['src']);
+});
+
+test('prepareWorkspace refuses paths outside the workspace', async () => {
+  await assert.rejects(prepareWorkspace(ROOT, 'escape', [{ path: '../evil.js', content: '' }]),
+    /Refusing to write \.\.\/evil\.js: path escapes the project directory/);
+  await assert.rejects(prepareWorkspace(ROOT, 'escape', [{ path: '/etc/evil.js', content: '' }]),
+    /absolute paths are not allowed/);
+});
+
+test('JavaScript tests run under node:test without the server environment', async () => {
+  process.env.SANDBOX_TEST_SECRET = 'leaked';
+  try {
+    const run = await runInSandbox(ROOT, 'js', [SUM, SUM_TEST], OPTIONS);
+    assert.equal(run.files_written, 2);
+    assert.equal(run.typecheck, undefined);
+    assert.deepEqual(run.steps.map(step => [step.step, step.exit_code, step.timed_out]), [['test', 0, false]]);
+    assert.deepEqual(run.tests, { passed: true, total: 2, passed_count: 2, failed_count: 0 });
+    assert.equal(run.succeeded, true);
+  } finally {
+    delete process.env.SANDBOX_TEST_SECRET;
+  }
+});
+
+test('a package.json without a usable test script falls back to the node:test files', async () => {
+  for (const manifest of ['{"scripts": "node --test"}', '{"scripts": {"test": 1}}', '{"scripts": {"test": "echo \\"Error: no test specified\\" && exit 1"}}']) {
+    const run = await runInSandbox(ROOT, 'manifest', [SUM, SUM_TEST, { path: 'package.json', content: manifest }], OPTIONS);
+    assert.deepEqual(run.tests, { passed: true, total: 2, passed_count: 2, failed_count: 0 }, manifest);
+  }
+});
+
+test('type errors and failing tests are reported, not thrown', async () => {
+  const run = await runInSandbox(ROOT, 'ts', [
+    { path: 'src/value.ts', content: 'export const value: number = "one";\n' },
+    { path: 'test/value.test.js', content: "require('node:test').test('fails', () => { throw new Error('no'); });\n" }
+  ], OPTIONS);
+  assert.deepEqual(run.typecheck, { passed: false, errors: 1 });
+  assert.equal(run.tests?.passed, false);
+  assert.equal(run.tests?.failed_count, 1);
+  assert.equal(run.succeeded, false);
+});
+
+test('a step that exceeds its time limit is killed', async () => {
+  const run = await runInSandbox(ROOT, 'slow', [SUM], {
+    ...OPTIONS,
+    test_command: [process.execPath, '-e', 'setTimeout(() => {}, 60000)'],
+    limits: { timeout_ms: 300 }
+  });
+  assert.equal(run.steps[0].timed_out, true);
+  assert.equal(run.tests?.passed, false);
+  assert.equal(run.succeeded, false);
+});
+
+test('isolated steps see neither files outside the workspace nor the network', { skip: !ISOLATED && 'user namespaces unavailable' }, async () => {
+  const secret = join(ROOT, 'secret.txt');
+  writeFileSync(secret, 'server data');
+  const server = createServer(socket => socket.end('reachable'));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  try {
+    const run = await runInSandbox(ROOT, 'isolated', [{
+      path: 'test/escape.test.js',
+      content: [
+        "const { test } = require('node:test');",
+        "const assert = require('node:assert');",
+        `test('cannot read server files', () => assert.throws(() => require('fs').readFileSync(${JSON.stringify(secret)}), /ENOENT/));`,
+        "test('cannot reach the host network', () => new Promise((resolve, reject) => {",
+        `  require('net').connect(${port}, '127.0.0.1').on('connect', () => reject(new Error('connected'))).on('error', () => resolve());`,
+        '}));',
+        ''
+      ].join('\n')
+    }]);
+    assert.deepEqual(run.tests, { passed: true, total: 2, passed_count: 2, failed_count: 0 });
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,209 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentExecution, DMAICEngine } from '../../src/engine/dmaic-engine.ts';
+import { DMAICPhase, PhaseProject } from '../../src/engine/types.ts';
+import { CapabilityIndices } from '../../src/statistics/capability.ts';
+import { ObservationStore } from '../../src/shared/observation-store.ts';
+import { assertClose } from '../approx.ts';
+
+const REQUIREMENTS = [
+  'Checkout page load must stay under 2 seconds',
+  'The service must have 99.9% availability',
+  'Users should be able to pay by card'
+];
+const RESPONSE_TIMES = [182, 195, 210, 176, 188, 201, 193, 205, 179, 190];
+const RESPONSE_KPI = 'Performance: api response time';
+
+// 5 parts whose spread dwarfs the repeatability and reproducibility error
+const GAGE_STUDY = {
+  measurements: [10, 20, 30, 40, 50].map(part => [[part + 0.1, part - 0.1], [part + 0.2, part - 0.2]])
+};
+
+function newProject(): PhaseProject {
+  return {
+    id: 'checkout',
+    name: 'Checkout',
+    business_case: 'Faster checkout',
+    requirements: REQUIREMENTS,
+    deployment_target: 'Kubernetes',
+    budget_limit: 5000,
+    current_phase: DMAICPhase.DEFINE,
+    artifacts: {},
+    quality_gates: {},
+    datasets: {}
+  };
+}
+
+// A project that has passed Define, ready for Measure
+async function measuredProject(engine: DMAICEngine): Promise<PhaseProject> {
+  const project = newProject();
+  const define = await engine.runDefinePhase(project, { use_llm: false });
+  return { ...project, current_phase: define.next_phase, artifacts: { define: define.artifacts } };
+}
+
+test('Define classifies requirements by keyword and passes its gate without an LLM', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  const updates: [string, AgentExecution['status']][] = [];
+  const run = await engine.runDefinePhase(newProject(), { use_llm: false }, {
+    on_agent_update: execution => { updates.push([execution.agent_type, execution.status]); }
+  });
+
+  const voc = run.artifacts.voc_analysis;
+  assert.equal(voc.classified_by, 'keyword rules');
+  assert.equal(voc.draft_error, 'use_llm=false');
+  assert.deepEqual(voc.functional_requirements, ['Users should be able to pay by card']);
+  assert.deepEqual(voc.priority_matrix.must_have, REQUIREMENTS.slice(0, 2));
+  assert.deepEqual(Object.keys(run.artifacts.ctq_tree.performance), ['page_load_time', 'api_response_time', 'concurrent_users']);
+  assert.deepEqual(Object.keys(run.artifacts.ctq_tree.reliability), ['uptime_percentage', 'mtbf_hours', 'error_rate']);
+  assert.deepEqual(run.artifacts.ctq_tree.security, {});
+
+  assert.equal(run.quality_gate.passed, true);
+  assert.equal(run.next_phase, DMAICPhase.MEASURE);
+  // Each agent is reported when it starts and again when it finishes
+  assert.deepEqual(updates, [
+    ['market-research-analyst', 'running'], ['market-research-analyst', 'completed'],
+    ['quality-requirements-engineer', 'running'], ['quality-requirements-engineer', 'completed'],
+    ['technical-feasibility-analyst', 'running'], ['technical-feasibility-analyst', 'completed']
+  ]);
+  assert.ok(run.agents.every(agent => agent.phase === DMAICPhase.DEFINE && agent.duration_ms !== undefined));
+});
+
+test('a phase refuses to run on a project in another phase', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  await assert.rejects(engine.runMeasurePhase(newProject()), /Project is in DEFINE phase\. Expected MEASURE phase\./);
+  await assert.rejects(engine.runControlPhase(newProject()), /Expected CONTROL phase/);
+});
+
+test('Measure baselines a KPI from samples keyed by its CTQ metric with a t confidence interval', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  const project = await measuredProject(engine);
+  const run = await engine.runMeasurePhase(project, { baseline_samples: { api_response_time: RESPONSE_TIMES } });
+
+  assert.equal(run.artifacts.kpis.length, 9);
+  assert.deepEqual(Object.keys(run.artifacts.baselines), [RESPONSE_KPI]);
+  const baseline = run.artifacts.baselines[RESPONSE_KPI];
+  assertClose(baseline.baseline_value, 191.9);
+  assert.equal(baseline.sample_size, 10);
+  // 191.9 ± t(0.975, 9) · 11.19970 / √10
+  assertClose(baseline.confidence_interval![0], 183.88822);
+  assertClose(baseline.confidence_interval![1], 199.91178);
+  // (1.95996 · 11.19970 / 10)² = 4.818 for a ±5% margin on the 200ms target
+  assert.equal(baseline.required_sample_size, 5);
+
+  // Without a gage study the measurement system is unvalidated, so the project stays in Measure
+  assert.equal(run.quality_gate.passed, false);
+  assert.deepEqual(run.quality_gate.missing_items, ['MSA Acceptable']);
+  assert.equal(run.next_phase, DMAICPhase.MEASURE);
+});
+
+test('Measure falls back to recorded observations and advances once the gage study is acceptable', async () => {
+  const observations = new ObservationStore();
+  observations.append('checkout', RESPONSE_TIMES.map((value, i) => ({
+    kpi: 'api_response_time',
+    value,
+    timestamp: new Date(Date.UTC(2026, 2, 1, i)).toISOString()
+  })));
+  const engine = new DMAICEngine(observations);
+  const run = await engine.runMeasurePhase(await measuredProject(engine), { gage_study: { ...GAGE_STUDY, metric: RESPONSE_KPI } });
+
+  assertClose(run.artifacts.baselines[RESPONSE_KPI].baseline_value, 191.9);
+  assert.equal(run.artifacts.measurement_system_analysis!.verdict, 'acceptable');
+  assert.equal(run.artifacts.measurement_system_analysis!.metric, RESPONSE_KPI);
+  assert.equal(run.quality_gate.passed, true);
+  assert.equal(run.next_phase, DMAICPhase.ANALYZE);
+});
+
+test('Analyze assesses capability from KPI samples and names the KPIs left unassessed', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  const project = await measuredProject(engine);
+  const measure = await engine.runMeasurePhase(project, { gage_study: GAGE_STUDY });
+  const samples = [...RESPONSE_TIMES, 185, 199, 187, 203, 192, 196, 184, 208, 181, 194];
+  const run = await engine.runAnalyzePhase(
+    { ...project, current_phase: DMAICPhase.ANALYZE, artifacts: { ...project.artifacts, measure: measure.artifacts } },
+    { use_llm: false, kpi_samples: { api_response_time: samples } }
+  );
+
+  const capability = run.artifacts.process_capability.kpis[RESPONSE_KPI];
+  assert.equal(capability.method, 'normal');
+  const indices = capability.indices as CapabilityIndices;
+  // σ within = mean moving range / d2 = 14.84211 / 1.128; specification 0 to 500ms
+  assertClose(indices.mean, 192.4);
+  assertClose(indices.sigma_within, 13.15789);
+  assertClose(indices.cp!, 6.33333);
+  assertClose(indices.cpk, 4.87413);
+  assert.equal(Object.keys(run.artifacts.process_capability.unassessed_kpis).length, 8);
+
+  // No hypothesis tests or regression were supplied, so the gate holds the project in Analyze
+  assert.deepEqual(run.quality_gate.missing_items, ['Root Causes Identified', 'Statistical Analysis Done']);
+  assert.equal(run.next_phase, DMAICPhase.ANALYZE);
+});
+
+test('Control charts phase-I data and flags the point beyond the I-MR limits', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  let project = await measuredProject(engine);
+  const measure = await engine.runMeasurePhase(project, { baseline_samples: { api_response_time: RESPONSE_TIMES } });
+  project = { ...project, current_phase: DMAICPhase.ANALYZE, artifacts: { ...project.artifacts, measure: measure.artifacts } };
+  const analyze = await engine.runAnalyzePhase(project, { use_llm: false });
+  project = { ...project, current_phase: DMAICPhase.IMPROVE, artifacts: { ...project.artifacts, analyze: analyze.artifacts } };
+  const improve = await engine.runImprovePhase(project, { use_claude: false });
+  project = { ...project, current_phase: DMAICPhase.CONTROL, artifacts: { ...project.artifacts, improve: improve.artifacts } };
+
+  const phaseOne = [191, 188, 195, 193, 190, 186, 189, 194, 197, 192, 190, 187, 191, 196, 193, 189, 192, 190, 188, 250];
+  const run = await engine.runControlPhase(project, { phase_one_data: { [RESPONSE_KPI]: { data_type: 'continuous', values: phaseOne } } });
+
+  const chart = run.artifacts.monitoring_dashboard.control_charts.find(c => c.metric === RESPONSE_KPI)!;
+  assert.equal(chart.type, 'I-MR');
+  const individuals = chart.chart!.series[0];
+  // CL 194.05 ± 3 · 6.57895 / 1.128
+  assertClose(individuals.center_line, 194.05);
+  assertClose(individuals.ucl as number, 211.54720, 2);
+  assert.ok(run.artifacts.monitoring_dashboard.control_charts.filter(c => c.metric !== RESPONSE_KPI).every(c => !c.chart));
+
+  assert.deepEqual(run.artifacts.signals.map(s => [s.metric, s.rule, s.source, s.points]),
+    [[RESPONSE_KPI, 1, 'phase_one', [{ index: 19, value: 250 }]]]);
+  assert.equal(run.quality_gate.passed, true);
+  assert.equal(run.next_phase, DMAICPhase.NONE);
+});
+
+test('time-weighted charts are only checked against their limits', () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  const item = {
+    metric: RESPONSE_KPI,
+    specification_limits: { target: 200, usl: 500 },
+    control_limits: { center_line: 0, ucl: 3, lcl: -3 },
+    measurement_method: 'Automated monitoring',
+    sample_size: 5,
+    frequency: 'Real-time',
+    responsible_party: 'Operations Team',
+    reaction_plan: ['Alert on-call engineer'],
+    nelson_rules: [1, 2, 3, 4, 5, 6, 7, 8] as const
+  };
+  // Nine points on one side (rule 2) followed by one beyond the limit (rule 1)
+  const points = [1, 1, 1, 1, 1, 1, 1, 1, 1, 4];
+
+  assert.deepEqual(engine.detectSignals({ ...item, nelson_rules: [...item.nelson_rules] }, 'I-MR', points, 'monitoring')
+    .map(s => s.rule), [1, 2]);
+  assert.deepEqual(engine.detectSignals({ ...item, nelson_rules: [...item.nelson_rules] }, 'EWMA', points, 'monitoring')
+    .map(s => s.rule), [1]);
+  assert.deepEqual(engine.detectSignals({ ...item, control_limits: undefined, nelson_rules: [1] }, 'I-MR', points, 'monitoring'), []);
+});
+
+test('progress is reported before each agent and a throwing hook stops the phase', async () => {
+  const engine = new DMAICEngine(new ObservationStore());
+  const progress: [number, string][] = [];
+  await engine.runDefinePhase(newProject(), { use_llm: false }, {
+    on_progress: (percent, message) => { progress.push([percent, message]); }
+  });
+  assert.deepEqual(progress.map(([percent]) => percent), [0, 33, 67]);
+  assert.equal(progress[0][1], 'Classify requirements and map stakeholder needs (Voice of Customer)');
+
+  const started: string[] = [];
+  await assert.rejects(engine.runDefinePhase(newProject(), { use_llm: false }, {
+    on_agent_update: execution => { started.push(execution.agent_type); },
+    on_progress: percent => {
+      if (percent > 0) throw new Error('Cancelled');
+    }
+  }), /Cancelled/);
+  // The first agent ran to completion; the second was never started
+  assert.deepEqual(started, ['market-research-analyst', 'market-research-analyst']);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDataset, unitConversionFactor } from '../../src/ingestion/dataset.ts';
+
+const ROWS = [
+  { latency: 120, region: 'eu-west, "primary"', batch: 'a', time: '2026-03-01T10:00:00.000Z' },
+  { latency: 95.5, region: 'us-east\nbackup', batch: 'a', time: '2026-03-01T10:01:00.000Z' },
+  { latency: 240, region: 'eu-west, "primary"', batch: 'b', time: '2026-03-01T10:02:00.000Z' }
+];
+const MAPPING = { kpis: { latency: 'api_response_time' }, factors: ['region'], subgroup: 'batch', timestamp: 'time', units: { latency: 'ms' } };
+
+// RFC 4180 quoting: fields with delimiters, quotes or line breaks are quoted and quotes doubled
+function toCsv(rows: Record<string, unknown>[], delimiter = ','): string {
+  const quote = (value: unknown) => {
+    const text = String(value);
+    return /["\n\r]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const columns = Object.keys(rows[0]);
+  return [columns.join(delimiter), ...rows.map(row => columns.map(column => quote(row[column])).join(delimiter))].join('\r\n') + '\r\n';
+}
+
+test('CSV round-trip keeps quoted fields, numbers, subgroups and timestamps', () => {
+  const dataset = parseDataset('\uFEFF' + toCsv(ROWS), 'csv', MAPPING);
+  assert.equal(dataset.row_count, 3);
+  assert.deepEqual(dataset.kpis, { api_response_time: [120, 95.5, 240] });
+  assert.deepEqual(dataset.factors, { region: ROWS.map(row => row.region) });
+  assert.deepEqual(dataset.subgroups, ['a', 'a', 'b']);
+  assert.deepEqual(dataset.timestamps, ROWS.map(row => row.time));
+  assert.deepEqual(dataset.units, { api_response_time: 'ms' });
+});
+
+test('JSON Lines round-trip matches the CSV import', () => {
+  const text = ROWS.map(row => JSON.stringify(row)).join('\n');
+  const { format, ...dataset } = parseDataset(text, 'jsonl', MAPPING);
+  const { format: _, ...fromCsv } = parseDataset(toCsv(ROWS, ';'), 'csv', MAPPING, { delimiter: ';' });
+  assert.equal(format, 'jsonl');
+  assert.deepEqual(dataset, fromCsv);
+});
+
+test('KPI columns are converted to the tracked unit', () => {
+  const dataset = parseDataset(toCsv(ROWS), 'csv', MAPPING, { target_units: { api_response_time: 's' } });
+  assert.deepEqual(dataset.kpis.api_response_time, [0.12, 0.0955, 0.24]);
+  assert.deepEqual(dataset.units, { api_response_time: 's' });
+  assert.equal(unitConversionFactor('%', 'ratio'), 0.01);
+  assert.throws(() => unitConversionFactor('ms', 'kb'), /Cannot convert ms to kb/);
+});
+
+test('epoch timestamps are read as seconds or milliseconds', () => {
+  const dataset = parseDataset('latency,time\n1,1772359200\n2,1772359260000\n', 'csv', { kpis: { latency: 'latency' }, timestamp: 'time' });
+  assert.deepEqual(dataset.timestamps, ['2026-03-01T10:00:00.000Z', '2026-03-01T10:01:00.000Z']);
+});
+
+test('validation errors name the row and column', () => {
+  assert.throws(() => parseDataset('latency\n12\nslow\n', 'csv', { kpis: { latency: 'latency' } }),
+    /row 2, column "latency": expected a number, got "slow"/);
+  assert.throws(() => parseDataset('latency\n12\n', 'csv', { kpis: { p95: 'latency' } }), /Columns not found in dataset: p95/);
+  assert.throws(() => parseDataset('a,b\n"1,2\n', 'csv', { xs: ['a'] }), /Unterminated quoted field/);
+  assert.throws(() => parseDataset('{"a": 1}\n[1]\n', 'jsonl', { xs: ['a'] }), /Line 2 must be a JSON object/);
+});
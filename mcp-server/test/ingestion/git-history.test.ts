@@ -0,0 +1,120 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeCommits, analyzeGitHistory, parseGitLog } from '../../src/ingestion/git-history.ts';
+import { assertClose } from '../approx.ts';
+
+// Monday 2024-01-01T00:00:00Z
+const T0 = 1704067200;
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+let repo: string;
+
+function git(args: string[], time: number) {
+  const date = `${time} +0000`;
+  execFileSync('git', ['-c', 'user.name=Fixture', '-c', 'user.email=fixture@example.com', '-c', 'commit.gpgsign=false',
+    '-c', 'tag.gpgsign=false', ...args], {
+    cwd: repo,
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date, GIT_CONFIG_GLOBAL: '/dev/null' },
+    stdio: 'ignore'
+  });
+}
+
+function commit(subject: string, time: number, files: Record<string, string | null>) {
+  Object.entries(files).forEach(([path, content]) => {
+    if (content === null) unlinkSync(join(repo, path));
+    else writeFileSync(join(repo, path), content);
+  });
+  git(['add', '-A'], time);
+  git(['commit', '-q', '-m', subject], time);
+}
+
+// v1.0.0 ships two features, v1.1.0 ships a revert and a hotfix, v1.2.0 ships docs
+before(() => {
+  repo = mkdtempSync(join(tmpdir(), 'git-history-'));
+  git(['init', '-q'], T0);
+  commit('feat: a', T0, { 'a.txt': '1\n2\n' });
+  commit('feat: b', T0 + 10 * HOUR, { 'b.txt': '1\n' });
+  git(['tag', '-a', 'v1.0.0', '-m', 'v1.0.0'], T0 + DAY);
+  commit('revert: b', T0 + 8 * DAY, { 'b.txt': null });
+  commit('hotfix: a', T0 + 8 * DAY + 2 * HOUR, { 'a.txt': '1\n3\n' });
+  git(['tag', 'v1.1.0'], T0 + 8 * DAY + 2 * HOUR);
+  git(['tag', 'nightly'], T0 + 8 * DAY + 2 * HOUR);
+  commit('docs: readme', T0 + 15 * DAY, { 'README.md': 'x\n' });
+  git(['tag', '-a', 'v1.2.0', '-m', 'v1.2.0'], T0 + 15 * DAY + 4 * HOUR);
+});
+
+after(() => rmSync(repo, { recursive: true, force: true }));
+
+test('deployments come from version tags with the commits each one shipped', async () => {
+  const analysis = await analyzeGitHistory(repo);
+  assert.equal(analysis.commit_count, 5);
+  assert.equal(analysis.deployment_source, 'tags');
+  assert.deepEqual(analysis.deployments.map(d => [d.ref, d.commits, d.lead_time_hours, d.failed]), [
+    ['v1.0.0', 2, 19, true],
+    ['v1.1.0', 2, 1, false],
+    ['v1.2.0', 1, 4, false]
+  ]);
+  assert.equal(analysis.deployments[0].deployed_at, '2024-01-02T00:00:00.000Z');
+});
+
+test('DORA metrics over the fixture history', async () => {
+  const analysis = await analyzeGitHistory(repo);
+  // Lead times 24, 14, 2, 0 and 4 hours
+  assert.equal(analysis.median_lead_time_hours, 4);
+  // Only the first two deployments can be judged; the first was followed by a revert
+  assert.equal(analysis.change_failure_rate, 50);
+  // Three deployments over 14 days 4 hours
+  assertClose(analysis.deployment_frequency_per_week, 3 / (340 / 168));
+  assert.deepEqual(analysis.weekly_deployments, [
+    { week_start: '2024-01-01T00:00:00.000Z', deployments: 1 },
+    { week_start: '2024-01-08T00:00:00.000Z', deployments: 1 },
+    { week_start: '2024-01-15T00:00:00.000Z', deployments: 1 }
+  ]);
+});
+
+test('churn hotspots rank files by commits, then lines changed', async () => {
+  const { hotspots } = await analyzeGitHistory(repo);
+  assert.deepEqual(hotspots, [
+    { path: 'a.txt', commits: 2, lines_added: 3, lines_deleted: 1, fix_commits: 1 },
+    { path: 'b.txt', commits: 2, lines_added: 1, lines_deleted: 1, fix_commits: 1 },
+    { path: 'README.md', commits: 1, lines_added: 1, lines_deleted: 0, fix_commits: 0 }
+  ]);
+});
+
+test('git log output is parsed into commits and numstat files', () => {
+  const log = '\x1eabc\x1fp1 p2\x1f100\x1f200\x1fMerge branch\n3\t1\tsrc/a.ts\n-\t-\tlogo.png\n\x1edef\x1f\x1f50\x1f60\x1finitial';
+  assert.deepEqual(parseGitLog(log), [
+    {
+      hash: 'abc', parents: ['p1', 'p2'], author_time: 100, commit_time: 200, subject: 'Merge branch',
+      files: [{ path: 'src/a.ts', added: 3, deleted: 1 }, { path: 'logo.png', added: 0, deleted: 0 }]
+    },
+    { hash: 'def', parents: [], author_time: 50, commit_time: 60, subject: 'initial', files: [] }
+  ]);
+});
+
+test('release commits stand in for tags', () => {
+  const commits = parseGitLog([
+    '\x1ec3\x1fc2\x1f0\x1f7200\x1frelease 1.1',
+    '\x1ec2\x1fc1\x1f0\x1f3600\x1ffix: typo',
+    '\x1ec1\x1f\x1f0\x1f0\x1fchore(release): 1.0'
+  ].join(''));
+  const analysis = analyzeCommits('fixture', commits, []);
+  assert.equal(analysis.deployment_source, 'release_commits');
+  assert.deepEqual(analysis.deployments.map(d => [d.ref, d.commits, d.lead_time_hours]), [['c1', 1, 0], ['c3', 2, 0.5]]);
+
+  assert.equal(analyzeCommits('fixture', commits, [], { release_commit_pattern: '^never' }).deployment_source, 'none');
+});
+
+test('a path that is not a repository reports git\'s diagnostic', async () => {
+  const empty = mkdtempSync(join(tmpdir(), 'not-a-repo-'));
+  try {
+    await assert.rejects(analyzeGitHistory(empty), /git [a-z-]+ failed: fatal: not a git repository/);
+  } finally {
+    rmSync(empty, { recursive: true, force: true });
+  }
+});
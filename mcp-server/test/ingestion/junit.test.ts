@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJUnitXML, summarizeTestRuns, type TestCaseResult, type TestRun } from '../../src/ingestion/junit.ts';
+
+function toJUnitXML(run: TestRun): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+  const testCase = ({ suite, name, status, time_seconds, message }: TestCaseResult) => {
+    const outcome = status === 'passed' ? '' : `<${status === 'failed' ? 'failure' : status}${message !== undefined ? ` message="${escape(message)}"` : ''}><![CDATA[stack <trace>]]></${status === 'failed' ? 'failure' : status}>`;
+    return `    <testcase classname="${escape(suite)}" name="${escape(name)}" time="${time_seconds}">${outcome}</testcase>`;
+  };
+  const suites = run.suites.map((suite, i) => [
+    `  <testsuite name="${escape(suite)}"${i === 0 && run.timestamp ? ` timestamp="${run.timestamp}"` : ''}>`,
+    ...run.cases.filter(c => c.suite === suite).map(testCase),
+    '  </testsuite>'
+  ].join('\n'));
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<!-- generated -->\n<testsuites>\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+const RUN: TestRun = {
+  suites: ['checkout', 'orders & "history"'],
+  cases: [
+    { id: 'checkout.pays by card', suite: 'checkout', name: 'pays by card', status: 'passed', time_seconds: 0.25, message: undefined },
+    { id: 'checkout.rejects <expired> cards', suite: 'checkout', name: 'rejects <expired> cards', status: 'failed', time_seconds: 1.5, message: 'expected 402, got 500' },
+    { id: 'orders & "history".lists orders', suite: 'orders & "history"', name: 'lists orders', status: 'error', time_seconds: 0, message: 'ECONNREFUSED' },
+    { id: 'orders & "history".exports csv', suite: 'orders & "history"', name: 'exports csv', status: 'skipped', time_seconds: 0, message: undefined }
+  ],
+  timestamp: '2026-03-01T10:00:00.000Z'
+};
+
+test('JUnit XML round-trip keeps suites, statuses, times and escaped text', () => {
+  assert.deepEqual(parseJUnitXML(toJUnitXML(RUN)), RUN);
+});
+
+test('a single testsuite root and cases without classname are accepted', () => {
+  const run = parseJUnitXML('<testsuite name="unit"><testcase name="adds"/><testcase name="divides"><failure/></testcase></testsuite>');
+  assert.deepEqual(run.cases.map(c => [c.id, c.status]), [['unit.adds', 'passed'], ['unit.divides', 'failed']]);
+  assert.throws(() => parseJUnitXML('<report><testcase name="x"/></report>'), /root element is <report>/);
+  assert.throws(() => parseJUnitXML('<testsuite><testcase></testsuite>'), /Malformed XML/);
+});
+
+test('summaries count defects per opportunity and flaky candidates across runs', () => {
+  const rerun: TestRun = { ...RUN, cases: RUN.cases.map(c => ({ ...c, status: c.status === 'skipped' ? 'skipped' : 'passed' })) };
+  const summary = summarizeTestRuns([RUN, rerun]);
+  assert.equal(summary.executions, 6);
+  assert.equal(summary.defects, 2);
+  assert.equal(summary.skipped, 2);
+  assert.equal(summary.defects_per_million, 2 / 6 * 1_000_000);
+  assert.equal(summary.pass_rate, 4 / 6 * 100);
+  assert.deepEqual(summary.flaky_candidates.map(c => c.id).sort(), ['checkout.rejects <expired> cards', 'orders & "history".lists orders']);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLoadTestTool, parseAutocannon, parseJMeterJTL, parseK6Summary } from '../../src/ingestion/load-test.ts';
+import { assertClose } from '../approx.ts';
+
+const T0 = 1700000000000;
+const JTL = [
+  'timeStamp,elapsed,label,responseCode,success,threadName',
+  `${T0},100,GET /,200,true,tg 1-1`,
+  `${T0 + 2000},200,GET /,200,true,tg 1-2`,
+  `${T0 + 5000},300,GET /,500,false,tg 1-1`,
+  `${T0 + 10000},150,GET /,200,true,tg 1-2`,
+  `${T0 + 12000},250,GET /,200,true,tg 1-1`,
+  `${T0 + 19000},400,GET /,200,true,tg 1-2`
+].join('\n');
+
+test('JMeter JTL totals span the first sample start to the last sample end', () => {
+  const result = parseJMeterJTL(JTL);
+  assert.equal(result.tool, 'jmeter');
+  assert.equal(result.requests, 6);
+  assert.equal(result.failed_requests, 1);
+  assertClose(result.duration_seconds, 19.4);
+  assertClose(result.throughput_rps, 6 / 19.4);
+  assertClose(result.error_rate, 100 / 6);
+  assert.equal(result.started_at, new Date(T0).toISOString());
+  // Linear-interpolated percentiles of [100, 150, 200, 250, 300, 400]
+  assert.deepEqual(result.latency_ms, { mean: 1400 / 6, p50: 225, p90: 350, p95: 375, p99: 395, max: 400 });
+});
+
+test('JMeter samples are bucketed into fixed intervals from the first sample', () => {
+  const intervals = parseJMeterJTL(JTL).intervals;
+  assert.deepEqual(intervals.map(i => [i.start, i.requests, i.throughput_rps]), [
+    [new Date(T0).toISOString(), 3, 0.3],
+    [new Date(T0 + 10000).toISOString(), 3, 0.3]
+  ]);
+  assertClose(intervals[0].error_rate, 100 / 3);
+  assert.equal(intervals[1].error_rate, 0);
+  assert.equal(intervals[0].latency_ms.p50, 200);
+
+  assert.equal(parseJMeterJTL(JTL, 5).intervals.length, 4);
+});
+
+test('k6 --summary-export output', () => {
+  const summary = JSON.stringify({
+    metrics: {
+      http_reqs: { count: 1000, rate: 50 },
+      http_req_duration: { avg: 120.5, min: 20, med: 100, max: 900, 'p(90)': 210, 'p(95)': 260 },
+      http_req_failed: { passes: 20, fails: 980, value: 0.02 }
+    }
+  });
+  const result = parseK6Summary(summary);
+  assert.equal(result.tool, 'k6');
+  assert.equal(result.failed_requests, 20);
+  assert.equal(result.duration_seconds, 20);
+  assert.equal(result.throughput_rps, 50);
+  assert.equal(result.error_rate, 2);
+  assert.deepEqual(result.latency_ms, { mean: 120.5, p50: 100, p90: 210, p95: 260, p99: undefined, max: 900 });
+});
+
+test('k6 handleSummary data nests statistics under values', () => {
+  const summary = JSON.stringify({
+    state: { testRunDurationMs: 20500 },
+    metrics: {
+      http_reqs: { type: 'counter', values: { count: 1000, rate: 48.78 } },
+      http_req_duration: { type: 'trend', values: { avg: 120.5, med: 100, max: 900, 'p(90)': 210, 'p(95)': 260, 'p(99)': 480 } },
+      http_req_failed: { type: 'rate', values: { rate: 0.03 } }
+    }
+  });
+  const result = parseK6Summary(summary);
+  assert.equal(result.duration_seconds, 20.5);
+  assert.equal(result.failed_requests, 30);
+  assert.equal(result.latency_ms.p99, 480);
+  assert.throws(() => parseK6Summary('{"metrics":{}}'), /no http_reqs or http_req_duration/);
+});
+
+test('autocannon errors count as failed attempts alongside non-2xx responses', () => {
+  const result = parseAutocannon(JSON.stringify({
+    requests: { total: 990, sent: 1000, average: 99 },
+    latency: { average: 12.5, mean: 12.5, p50: 10, p90: 20, p99: 40, max: 80 },
+    errors: 10,
+    non2xx: 5,
+    duration: 10.02,
+    start: '2024-03-01T10:00:00.000Z'
+  }));
+  assert.equal(result.requests, 1000);
+  assert.equal(result.failed_requests, 15);
+  assertClose(result.error_rate, 1.5);
+  assertClose(result.throughput_rps, 990 / 10.02);
+  assert.equal(result.latency_ms.p95, undefined);
+  assert.equal(result.started_at, '2024-03-01T10:00:00.000Z');
+});
+
+test('the tool is detected from the document shape', () => {
+  assert.equal(detectLoadTestTool(JTL), 'jmeter');
+  assert.equal(detectLoadTestTool('  {"metrics":{}}'), 'k6');
+  assert.equal(detectLoadTestTool('{"requests":{},"latency":{}}'), 'autocannon');
+  assert.throws(() => detectLoadTestTool('{"other":1}'), /Unrecognized load test JSON/);
+  assert.throws(() => detectLoadTestTool('{oops'), /not valid JSON/);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deriveKPIObservations, parseExposition, parseSelector, type MetricSample } from '../../src/ingestion/prometheus.ts';
+
+const SCRAPE = Date.parse('2026-03-01T10:01:00.000Z');
+
+function toExposition(samples: MetricSample[]): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return samples.map(({ name, labels, value, timestamp }) => {
+    const body = Object.entries(labels).map(([label, v]) => `${label}="${escape(v)}"`).join(',');
+    return `${name}${body ? `{${body}}` : ''} ${value === Infinity ? '+Inf' : value} ${timestamp}`;
+  }).join('\n');
+}
+
+test('text exposition round-trip keeps names, escaped labels, values and timestamps', () => {
+  const samples: MetricSample[] = [
+    { name: 'process_start_time_seconds', labels: {}, value: 1772359200, timestamp: SCRAPE },
+    { name: 'http_requests_total', labels: { path: '/orders "v2"', note: 'back\\slash\nnewline' }, value: 1027, timestamp: SCRAPE },
+    { name: 'queue_depth', labels: { queue: 'email' }, value: -3.5e-2, timestamp: SCRAPE - 15_000 }
+  ];
+  const text = `# HELP http_requests_total Requests served\n# TYPE http_requests_total counter\n${toExposition(samples)}\n`;
+  assert.deepEqual(parseExposition(text), samples);
+});
+
+test('OpenMetrics scrapes take spaced scrape times and drop exemplars', () => {
+  const text = [
+    'jobs_total{queue="email"} 4', '# EOF',
+    'jobs_total{queue="email"} 9 # {trace_id="abc"} 1 1772359250.5', '# EOF',
+    'jobs_total{queue="email"} 11 1772359260.25', '# EOF'
+  ].join('\n');
+  assert.deepEqual(parseExposition(text, SCRAPE, 30_000).map(s => [s.value, new Date(s.timestamp).toISOString()]), [
+    [4, '2026-03-01T10:00:00.000Z'],
+    [9, '2026-03-01T10:00:30.000Z'],
+    [11, '2026-03-01T10:01:00.250Z']
+  ]);
+  assert.throws(() => parseExposition('jobs_total{queue="email} 4'), /Unparseable exposition line 1/);
+});
+
+test('default KPI rules derive p95 latency and error rate per scrape interval', () => {
+  const scrape = (counts: Record<string, number>, errors: number, ok: number) => [
+    ...Object.entries(counts).map(([le, count]) => `http_request_duration_seconds_bucket{le="${le}"} ${count}`),
+    `http_requests_total{status="200"} ${ok}`,
+    `http_requests_total{status="500"} ${errors}`
+  ].join('\n');
+  const text = [
+    scrape({ '0.1': 0, '0.5': 0, '1': 0, '+Inf': 0 }, 0, 100), '# EOF',
+    // 100 requests: 50 within 100ms, 90 within 500ms, all within 1s; 10 of them failed
+    scrape({ '0.1': 50, '0.5': 90, '1': 100, '+Inf': 100 }, 10, 190), '# EOF'
+  ].join('\n');
+
+  assert.deepEqual(deriveKPIObservations(parseExposition(text, SCRAPE)), [
+    { kpi: 'api_response_time', value: 750, timestamp: '2026-03-01T10:01:00.000Z' },
+    { kpi: 'error_rate', value: 10, timestamp: '2026-03-01T10:01:00.000Z' }
+  ]);
+});
+
+test('selectors parse label matchers', () => {
+  assert.deepEqual(parseSelector('http_requests_total{status=~"5..",method!="GET"}'), {
+    name: 'http_requests_total',
+    matchers: [{ label: 'status', op: '=~', value: '5..' }, { label: 'method', op: '!=', value: 'GET' }]
+  });
+});
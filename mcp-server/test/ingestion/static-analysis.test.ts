@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  detectStaticAnalysisFormat,
+  parseEslint,
+  parseNpmAudit,
+  parseSarif,
+  summarizeStaticAnalysis
+} from '../../src/ingestion/static-analysis.ts';
+import { assertClose } from '../approx.ts';
+
+const location = (uri: string, startLine?: number) => [{ physicalLocation: { artifactLocation: { uri }, region: { startLine } } }];
+
+const SARIF = JSON.stringify({
+  version: '2.1.0',
+  runs: [{
+    tool: {
+      driver: {
+        name: 'CodeQL',
+        rules: [
+          { id: 'js/sql-injection', properties: { 'security-severity': '9.8', tags: ['security'] } },
+          { id: 'js/xss', defaultConfiguration: { level: 'error' }, properties: { tags: ['Security'] } },
+          { id: 'js/unused-local', defaultConfiguration: { level: 'note' } }
+        ]
+      }
+    },
+    artifacts: [{}, {}, {}, {}],
+    results: [
+      { ruleId: 'js/sql-injection', message: { text: 'Query built from user input' }, locations: location('a.js', 3) },
+      { ruleIndex: 1, message: { text: 'Reflected XSS' }, locations: location('a.js', 9) },
+      { ruleId: 'js/xss', message: { text: 'Reflected XSS' }, locations: location('b.js') },
+      { ruleId: 'js/xss', message: { text: 'Reflected XSS again' }, locations: location('b.js') },
+      { ruleId: 'js/unused-local', message: { markdown: 'Unused `x`' }, locations: location('c.js') }
+    ]
+  }]
+});
+
+test('SARIF severities come from security-severity, then the result or rule level', () => {
+  const [report] = parseSarif(SARIF);
+  assert.equal(report.tool_name, 'CodeQL');
+  assert.equal(report.units, 4);
+  assert.equal(report.checks_per_unit, 3);
+  assert.deepEqual(report.findings.map(f => [f.rule_id, f.severity, f.security, f.unit, f.line]), [
+    ['js/sql-injection', 'critical', true, 'a.js', 3],
+    ['js/xss', 'high', true, 'a.js', 9],
+    ['js/xss', 'high', true, 'b.js', undefined],
+    ['js/xss', 'high', true, 'b.js', undefined],
+    ['js/unused-local', 'low', false, 'c.js', undefined]
+  ]);
+  assert.equal(report.findings[0].cvss, 9.8);
+  assert.equal(report.findings[4].message, 'Unused `x`');
+  assert.throws(() => parseSarif('{"version":"2.0.0","runs":[]}'), /Unsupported SARIF version/);
+});
+
+test('defects are distinct unit/check pairs at or above the threshold', () => {
+  const summary = summarizeStaticAnalysis(parseSarif(SARIF));
+  // (a.js, sql-injection), (a.js, xss), (b.js, xss) out of 4 files x 3 rules
+  assert.equal(summary.defect_findings, 4);
+  assert.equal(summary.defects, 3);
+  assert.equal(summary.opportunities, 12);
+  assert.equal(summary.improvement_opportunities, 1);
+  assert.equal(summary.defects_per_million, 250000);
+  assertClose(summary.sigma_level, 0.67449 + 1.5);
+  assert.equal(summary.security_findings, 4);
+  assert.equal(summary.vulnerability_score, 9.8);
+  assert.deepEqual(summary.by_severity, { info: 0, low: 1, medium: 0, high: 3, critical: 1 });
+  assert.deepEqual(summary.top_rules.map(r => [r.rule_id, r.count]), [['js/sql-injection', 1], ['js/xss', 3], ['js/unused-local', 1]]);
+
+  const strict = summarizeStaticAnalysis(parseSarif(SARIF), 'low');
+  assert.equal(strict.defects, 4);
+});
+
+test('ESLint errors are high, warnings medium and parse failures critical', () => {
+  const report = parseEslint(JSON.stringify([
+    { filePath: 'x.js', messages: [{ ruleId: 'no-unused-vars', severity: 1, line: 1 }, { ruleId: 'eqeqeq', severity: 2, line: 4 }] },
+    { filePath: 'y.js', messages: [{ ruleId: null, fatal: true, severity: 2, message: 'Parsing error' }] },
+    { filePath: 'z.js', messages: [] }
+  ]));
+  assert.deepEqual(report.findings.map(f => [f.rule_id, f.severity]), [
+    ['no-unused-vars', 'medium'], ['eqeqeq', 'high'], ['parse-error', 'critical']
+  ]);
+  assert.equal(report.units, 3);
+  assert.equal(report.checks_per_unit, 3);
+  assert.throws(() => parseEslint('[{"messages":[]}]'), /filePath, messages/);
+});
+
+test('npm audit v2 and legacy advisories', () => {
+  const v2 = parseNpmAudit(JSON.stringify({
+    vulnerabilities: {
+      lodash: { severity: 'high', via: [{ title: 'Prototype Pollution', url: 'https://github.com/advisories/GHSA-1', cvss: { score: 7.4 } }] },
+      express: { severity: 'moderate', via: ['body-parser'] }
+    },
+    metadata: { dependencies: { total: 200 } }
+  }));
+  assert.equal(v2.units, 200);
+  assert.deepEqual(v2.findings.map(f => [f.rule_id, f.severity, f.cvss, f.message]), [
+    ['https://github.com/advisories/GHSA-1', 'high', 7.4, 'Prototype Pollution'],
+    ['vulnerable-dependency:express', 'medium', undefined, 'Depends on vulnerable body-parser']
+  ]);
+
+  const v1 = parseNpmAudit(JSON.stringify({
+    advisories: { 118: { id: 118, module_name: 'minimist', severity: 'low', title: 'Prototype Pollution', cvss: { score: 0 } } },
+    metadata: { totalDependencies: 50 }
+  }));
+  assert.deepEqual(v1.findings.map(f => [f.rule_id, f.unit, f.severity, f.cvss]), [['118', 'minimist', 'low', undefined]]);
+  assert.equal(v1.units, 50);
+
+  // Severity-only security findings score at the CVSS band midpoint
+  assert.equal(summarizeStaticAnalysis([v1]).vulnerability_score, 2);
+  assert.throws(() => parseNpmAudit('{}'), /neither vulnerabilities/);
+});
+
+test('opportunities never drop below the defect count', () => {
+  const summary = summarizeStaticAnalysis([{
+    format: 'eslint',
+    tool_name: 'ESLint',
+    units: 1,
+    checks_per_unit: 1,
+    findings: [
+      { rule_id: 'a', severity: 'high', security: false, unit: 'x.js', message: '' },
+      { rule_id: 'b', severity: 'high', security: false, unit: 'x.js', message: '' }
+    ]
+  }]);
+  assert.equal(summary.defects, 2);
+  assert.equal(summary.opportunities, 2);
+  assert.throws(() => summarizeStaticAnalysis([]), /At least one/);
+});
+
+test('the report format is detected from the document shape', () => {
+  assert.equal(detectStaticAnalysisFormat(SARIF), 'sarif');
+  assert.equal(detectStaticAnalysisFormat('[]'), 'eslint');
+  assert.equal(detectStaticAnalysisFormat('{"vulnerabilities":{}}'), 'npm_audit');
+  assert.throws(() => detectStaticAnalysisFormat('{}'), /Unrecognized static analysis report/);
+});
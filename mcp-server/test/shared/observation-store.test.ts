@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObservationStore } from '../../src/shared/observation-store.ts';
+
+function seeded(): ObservationStore {
+  const store = new ObservationStore();
+  store.append('p1', [
+    { kpi: 'cycle_time', value: 3, timestamp: '2024-01-03T00:00:00Z', source: 'mes' },
+    { kpi: 'cycle_time', value: 1, timestamp: '2024-01-01T00:00:00Z', operator: 'ana' },
+    { kpi: 'cycle_time', value: 2, timestamp: '2024-01-02T00:00:00Z', source: 'mes', operator: 'ana' },
+    { kpi: 'defects', value: 7, timestamp: '2024-01-01T12:00:00Z' }
+  ]);
+  return store;
+}
+
+test('observations are kept in timestamp order per KPI', () => {
+  const store = seeded();
+  assert.deepEqual(store.values('p1', 'cycle_time'), [1, 2, 3]);
+  assert.deepEqual(store.values('p1', 'defects'), [7]);
+  assert.deepEqual(store.values('p2', 'cycle_time'), []);
+});
+
+test('equal timestamps keep arrival order', () => {
+  const store = new ObservationStore();
+  const timestamp = '2024-01-01T00:00:00Z';
+  store.append('p1', [{ kpi: 'k', value: 1, timestamp }, { kpi: 'k', value: 2, timestamp }]);
+  store.append('p1', [{ kpi: 'k', value: 3, timestamp }]);
+  assert.deepEqual(store.values('p1', 'k'), [1, 2, 3]);
+});
+
+test('queries use an inclusive start, exclusive end and attribute filters', () => {
+  const store = seeded();
+  assert.deepEqual(store.values('p1', 'cycle_time', { from: '2024-01-02T00:00:00Z' }), [2, 3]);
+  assert.deepEqual(store.values('p1', 'cycle_time', { to: '2024-01-03T00:00:00Z' }), [1, 2]);
+  assert.deepEqual(store.values('p1', 'cycle_time', { source: 'mes' }), [2, 3]);
+  assert.deepEqual(store.values('p1', 'cycle_time', { operator: 'ana', source: 'mes' }), [2]);
+});
+
+test('summaries report count, span and latest value', () => {
+  assert.deepEqual(seeded().summarize('p1'), [
+    {
+      kpi: 'cycle_time',
+      count: 3,
+      first_timestamp: '2024-01-01T00:00:00Z',
+      last_timestamp: '2024-01-03T00:00:00Z',
+      latest_value: 3
+    },
+    {
+      kpi: 'defects',
+      count: 1,
+      first_timestamp: '2024-01-01T12:00:00Z',
+      last_timestamp: '2024-01-01T12:00:00Z',
+      latest_value: 7
+    }
+  ]);
+});
+
+test('an invalid observation rejects the whole batch', () => {
+  const store = seeded();
+  assert.throws(
+    () => store.append('p1', [
+      { kpi: 'cycle_time', value: 4, timestamp: '2024-01-04T00:00:00Z' },
+      { kpi: 'cycle_time', value: Number.NaN, timestamp: '2024-01-05T00:00:00Z' }
+    ]),
+    /non-numeric value/
+  );
+  assert.throws(() => store.append('p1', [{ kpi: 'k', value: 1, timestamp: 'yesterday' }]), /invalid timestamp/);
+  assert.throws(() => store.append('p1', [{ kpi: '', value: 1, timestamp: '2024-01-01' }]), /missing a KPI/);
+  assert.deepEqual(store.values('p1', 'cycle_time'), [1, 2, 3]);
+});
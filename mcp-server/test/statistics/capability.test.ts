@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCapability } from '../../src/statistics/capability.ts';
+import { assertClose } from '../approx.ts';
+
+// Individuals with mean 10.2, s = 0.18257 and an average moving range of 0.3 (sigma within = 0.3 / 1.128)
+const SAMPLES = [10.2, 9.9, 10.4, 10.1, 10.3, 10.0, 10.2, 10.5, 10.1, 10.3];
+const SPEC = { lsl: 9.5, usl: 10.8, target: 10.15 };
+
+test('capability and performance indices of a fixed sample', () => {
+  const indices = calculateCapability(SAMPLES, SPEC);
+  assert.equal(indices.sigma_estimation, 'moving_range');
+  assertClose(indices.mean, 10.2);
+  assertClose(indices.sigma_overall, 0.18257);
+  assertClose(indices.sigma_within, 0.26596);
+  assertClose(indices.cp!, 0.8147);
+  assertClose(indices.cpk, 0.7520);
+  assertClose(indices.pp!, 1.1867);
+  assertClose(indices.ppk, 1.0954);
+  assertClose(indices.cpm!, 1.1446);
+});
+
+test('defects per million and Z.bench follow the overall distribution', () => {
+  const indices = calculateCapability(SAMPLES, SPEC);
+  // normalCdf is accurate to about 1e-7, a tenth of a defect per million
+  assertClose(indices.defects_per_million, 570.5, 0);
+  assertClose(indices.sigma_level_long_term, 3.2532);
+  assertClose(indices.sigma_level_short_term, 3.2532 + 1.5);
+});
+
+test('one-sided specifications have no Cp', () => {
+  const indices = calculateCapability(SAMPLES, { usl: 10.8, target: 10.15 });
+  assert.equal(indices.cp, null);
+  assert.equal(indices.cpm, null);
+  assertClose(indices.cpk, 0.7520);
+});
+
+test('invalid specifications and samples are rejected', () => {
+  assert.throws(() => calculateCapability(SAMPLES, { target: 10 }), /At least one specification limit/);
+  assert.throws(() => calculateCapability(SAMPLES, { lsl: 11, usl: 10, target: 10 }), /must be greater than LSL/);
+  assert.throws(() => calculateCapability([10, 10, 10], SPEC), /no variation/);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import { chiSquareSurvival, fSurvival, normalCdf, normalQuantile, studentTCdf, studentTQuantile } from '../../src/statistics/distributions.ts';
+import { assertClose } from '../approx.ts';
+
+test('normal CDF and quantile', () => {
+  assertClose(normalCdf(1.959964), 0.975);
+  assertClose(normalCdf(-1), 0.1587);
+  assertClose(normalQuantile(0.975), 1.959964, 6);
+  assertClose(normalQuantile(0.00135), -3);
+});
+
+test("Student's t CDF and quantile", () => {
+  assertClose(studentTCdf(2, 10), 0.9633);
+  assertClose(studentTCdf(-2, 10), 0.0367);
+  assertClose(studentTCdf(1, 1), 0.75, 6); // Cauchy
+  assertClose(studentTQuantile(0.975, 10), 2.2281);
+  assertClose(studentTQuantile(0.95, 20), 1.7247);
+});
+
+test('F upper tail', () => {
+  // With df1 = 2 the tail is (1 + 2f / df2)^(-df2 / 2)
+  assertClose(fSurvival(3, 2, 10), 1.6 ** -5, 6);
+  // Critical values from F tables
+  assertClose(fSurvival(3.0984, 3, 20), 0.05);
+  assertClose(fSurvival(5.6363, 5, 10), 0.01);
+  assertClose(fSurvival(0, 3, 20), 1);
+});
+
+test('chi-square upper tail', () => {
+  // With 2 degrees of freedom the tail is exp(-x / 2)
+  assertClose(chiSquareSurvival(4, 2), Math.exp(-2), 6);
+  // Critical values from chi-square tables
+  assertClose(chiSquareSurvival(3.841459, 1), 0.05, 6);
+  assertClose(chiSquareSurvival(18.307, 10), 0.05);
+  assertClose(chiSquareSurvival(15.086, 5), 0.01);
+  assertClose(chiSquareSurvival(0, 5), 1);
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeGageRR } from '../../src/statistics/gage-rr.ts';
+import { assertClose } from '../approx.ts';
+
+// AIAG MSA (4th edition) ANOVA example: 10 parts measured 3 times by each of appraisers A, B and C
+const TRIALS = [
+  [ // A
+    [0.29, -0.56, 1.34, 0.47, -0.80, 0.02, 0.59, -0.31, 2.26, -1.36],
+    [0.41, -0.68, 1.17, 0.50, -0.92, -0.11, 0.75, -0.20, 1.99, -1.25],
+    [0.64, -0.58, 1.27, 0.64, -0.84, -0.21, 0.66, -0.17, 2.01, -1.31]
+  ],
+  [ // B
+    [0.08, -0.47, 1.19, 0.01, -0.56, -0.20, 0.47, -0.63, 1.80, -1.68],
+    [0.25, -1.22, 0.94, 1.03, -1.20, 0.22, 0.55, 0.08, 2.12, -1.62],
+    [0.07, -0.68, 1.34, 0.20, -1.28, 0.06, 0.83, -0.34, 2.19, -1.50]
+  ],
+  [ // C
+    [0.04, -1.38, 0.88, 0.14, -1.46, -0.29, 0.02, -0.46, 1.77, -1.49],
+    [-0.11, -1.13, 1.09, 0.20, -1.07, -0.67, 0.01, -0.56, 1.45, -1.77],
+    [-0.15, -0.96, 0.67, 0.11, -1.45, -0.49, 0.21, -0.49, 1.87, -2.16]
+  ]
+];
+// measurements[part][operator][trial]
+const MEASUREMENTS = TRIALS[0][0].map((_, part) => TRIALS.map(operator => operator.map(trial => trial[part])));
+
+test('sums of squares match the published AIAG ANOVA table', () => {
+  const result = analyzeGageRR({ measurements: MEASUREMENTS });
+  assert.equal(result.parts, 10);
+  assert.equal(result.operators, 3);
+  assert.equal(result.trials, 3);
+  const total = result.anova_table.find(row => row.source === 'Total')!;
+  assertClose(total.ss, 94.6471);
+  assert.equal(total.df, 89);
+  assertClose(result.anova_table.find(row => row.source === 'Part')!.ss, 88.3619);
+  assertClose(result.anova_table.find(row => row.source === 'Operator')!.ss, 3.1673);
+  // The interaction (F = 0.434, SS 0.3590 on 18 df) is pooled with equipment variation (SS 2.7589 on 60 df)
+  assert.equal(result.interaction_pooled, true);
+  const repeatability = result.anova_table.find(row => row.source === 'Repeatability')!;
+  assert.equal(repeatability.df, 78);
+  assertClose(repeatability.ss, 0.3590 + 2.7589);
+});
+
+test('variance components, study variation and distinct categories of the AIAG example', () => {
+  const result = analyzeGageRR({ measurements: MEASUREMENTS, tolerance: 4 });
+  assertClose(result.variance_components.repeatability, 0.039973, 6);
+  assertClose(result.variance_components.operator, 0.051455, 6);
+  assert.equal(result.variance_components.operator_part, 0);
+  assertClose(result.variance_components.part_to_part, 1.086447, 6);
+  assertClose(result.percent_ev, 18.42, 2);
+  assertClose(result.percent_av, 20.90, 2);
+  assertClose(result.percent_grr, 27.86, 2);
+  assertClose(result.percent_pv, 96.04, 2);
+  assertClose(result.percent_tolerance_grr!, 45.36, 2);
+  assert.equal(result.distinct_categories, 4);
+  assert.equal(result.verdict, 'marginal');
+});
+
+test('a significant operator by part interaction stays in the model', () => {
+  // Each operator reads one part high and the other low
+  const result = analyzeGageRR({ measurements: [[[1, 1.01], [2, 2.01]], [[2, 2.01], [1, 1.01]]] });
+  assert.equal(result.interaction_pooled, false);
+  assert.deepEqual(result.anova_table.map(row => row.source), ['Part', 'Operator', 'Part * Operator', 'Repeatability', 'Total']);
+  assert.ok(result.variance_components.operator_part > 0);
+  assert.equal(result.verdict, 'unacceptable');
+});
+
+test('distinct categories are 0 without part variation and null without measurement error', () => {
+  // Both parts average 1.025; every difference is measurement error
+  const identicalParts = analyzeGageRR({ measurements: [[[1, 1.1], [1.05, 0.95]], [[1.1, 1], [0.95, 1.05]]] });
+  assert.equal(identicalParts.variance_components.part_to_part, 0);
+  assert.equal(identicalParts.distinct_categories, 0);
+  assert.match(identicalParts.distinct_categories_note!, /Parts do not vary beyond measurement error/);
+  assert.equal(identicalParts.verdict, 'unacceptable');
+
+  const exactGage = analyzeGageRR({ measurements: [[[1, 1], [1, 1]], [[2, 2], [2, 2]]] });
+  assert.equal(exactGage.percent_grr, 0);
+  assert.equal(exactGage.distinct_categories, null);
+  assert.match(exactGage.distinct_categories_note!, /gage resolution/);
+  assert.equal(exactGage.verdict, 'acceptable');
+  assert.equal(JSON.parse(JSON.stringify(exactGage)).distinct_categories, null);
+});
+
+test('unbalanced and undersized studies are rejected', () => {
+  assert.throws(() => analyzeGageRR({ measurements: [[[1, 2]], [[1, 2]]] }), /at least 2 parts, 2 operators and 2 trials/);
+  assert.throws(() => analyzeGageRR({ measurements: [[[1, 2], [1, 2]], [[1, 2], [1]]] }), /part 2 does not have 2 operators x 2 trials/);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runHypothesisTest, selectTest } from '../../src/statistics/hypothesis-tests.ts';
+import { assertClose } from '../approx.ts';
+
+// Cycle times before and after a process change; the after group is lower and more spread out
+const BEFORE = [12.1, 11.8, 12.4, 12.0, 11.9, 12.2, 12.3, 11.7];
+const AFTER = [11.48, 10.66, 11.67, 11.07, 11.81, 10.8, 11.26, 10.94];
+// Right-skewed weights (Shapiro & Wilk, 1965); Anderson-Darling rejects normality at p = 0.0105
+const SKEWED = [148, 154, 158, 160, 161, 162, 166, 170, 182, 195, 236];
+// Three shifts with five observations each
+const SHIFTS = [[23, 25, 21, 24, 26], [28, 27, 30, 26, 29], [22, 24, 23, 25, 21]];
+
+test("Welch's t-test uses Welch-Satterthwaite degrees of freedom", () => {
+  const result = runHypothesisTest({ test: 'welch_t', groups: [BEFORE, AFTER] });
+  assertClose(result.test_statistic, 4.9161);
+  assertClose(result.degrees_of_freedom as number, 11.3367);
+  assertClose(result.p_value, 0.000421, 6);
+  assert.deepEqual(result.effect_size.measure, 'cohens_d');
+  assertClose(result.effect_size.value, 2.4581);
+  assert.equal(result.result, 'reject_null');
+});
+
+test('pooled, paired and one-sample t-tests', () => {
+  const pooled = runHypothesisTest({ test: 'two_sample_t', groups: [BEFORE, AFTER] });
+  assert.equal(pooled.degrees_of_freedom, 14);
+  assertClose(pooled.p_value, 0.000227, 6);
+
+  const paired = runHypothesisTest({ test: 'paired_t', groups: [BEFORE, AFTER] });
+  assertClose(paired.test_statistic, 6.0367);
+  assert.equal(paired.degrees_of_freedom, 7);
+  assertClose(paired.p_value, 0.000523, 6);
+  assertClose(paired.effect_size.value, 2.1343);
+
+  const oneSample = runHypothesisTest({ test: 'one_sample_t', groups: [BEFORE], hypothesized_mean: 12 });
+  assertClose(oneSample.test_statistic, 0.5774);
+  assertClose(oneSample.p_value, 0.5818);
+  assert.equal(oneSample.result, 'fail_to_reject');
+});
+
+test('chi-square test of independence on a 2x2 table', () => {
+  // Defective and good units from two lines
+  const result = runHypothesisTest({ contingency_table: [[8, 42], [16, 34]] });
+  assert.equal(result.test_name, 'Chi-square test of independence');
+  assertClose(result.test_statistic, 3.5088);
+  assert.equal(result.degrees_of_freedom, 1);
+  assertClose(result.p_value, 0.0610);
+  assertClose(result.effect_size.value, 0.1873);
+  assert.equal(result.result, 'fail_to_reject');
+  assert.equal(runHypothesisTest({ contingency_table: [[8, 42], [16, 34]], significance_level: 0.1 }).result, 'reject_null');
+});
+
+test('one-way ANOVA and its rank-based counterpart', () => {
+  const anova = runHypothesisTest({ test: 'one_way_anova', groups: SHIFTS });
+  assertClose(anova.test_statistic, 12.4368);
+  assert.deepEqual(anova.degrees_of_freedom, [2, 12]);
+  // With 2 numerator degrees of freedom the F tail is (1 + 2F / 12)^-6
+  assertClose(anova.p_value, 0.001188, 6);
+  assertClose(anova.effect_size.value, 0.6746);
+
+  const kruskal = runHypothesisTest({ test: 'kruskal_wallis', groups: SHIFTS });
+  assertClose(kruskal.test_statistic, 9.3686);
+  assertClose(kruskal.p_value, Math.exp(-9.3686 / 2));
+});
+
+test('Mann-Whitney U with tie and continuity corrections', () => {
+  const result = runHypothesisTest({ test: 'mann_whitney', groups: [SHIFTS[0], SHIFTS[1]] });
+  assert.equal(result.test_statistic, 0.5);
+  assertClose(result.p_value, 0.0160);
+  assertClose(result.effect_size.value, -0.96);
+});
+
+test('auto selection picks the parametric test for the shape of the data', () => {
+  assert.equal(selectTest({ groups: [BEFORE] }), 'one_sample_t');
+  assert.equal(selectTest({ groups: [BEFORE, AFTER] }), 'welch_t');
+  assert.equal(selectTest({ groups: [BEFORE, AFTER], paired: true }), 'paired_t');
+  assert.equal(selectTest({ groups: SHIFTS }), 'one_way_anova');
+  assert.equal(selectTest({ contingency_table: [[1, 2], [3, 4]] }), 'chi_square');
+  assert.throws(() => selectTest({}), /requires groups or a contingency_table/);
+  assert.equal(runHypothesisTest({ groups: [BEFORE, AFTER] }).test_name, "Welch's t-test");
+});
+
+test('auto selection falls back to rank tests when a group departs from normality', () => {
+  assert.equal(selectTest({ groups: [BEFORE, SKEWED] }), 'mann_whitney');
+  assert.equal(selectTest({ groups: [...SHIFTS, SKEWED] }), 'kruskal_wallis');
+  assert.equal(runHypothesisTest({ groups: [SKEWED, BEFORE] }).test_name, 'Mann-Whitney U test');
+  // Paired and one-sample data have no rank-based alternative here
+  assert.equal(selectTest({ groups: [SKEWED, SKEWED.map(x => x - 5)], paired: true }), 'paired_t');
+  assert.equal(selectTest({ groups: [SKEWED] }), 'one_sample_t');
+  // Groups under 8 observations, or without spread, cannot be judged and keep the parametric test
+  assert.equal(selectTest({ groups: [SKEWED.slice(0, 7), SKEWED.slice(4)] }), 'welch_t');
+  assert.equal(selectTest({ groups: [BEFORE, Array(10).fill(12)] }), 'welch_t');
+});
+
+test('invalid inputs are rejected', () => {
+  assert.throws(() => runHypothesisTest({ test: 'paired_t', groups: [BEFORE, AFTER.slice(1)] }), /equal length/);
+  assert.throws(() => runHypothesisTest({ test: 'one_sample_t', groups: [BEFORE] }), /requires hypothesized_mean/);
+  assert.throws(() => runHypothesisTest({ test: 'chi_square', contingency_table: [[1, 0], [2, 0]] }), /empty row or column/);
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateNelsonRules, NelsonRule } from '../../src/statistics/nelson-rules.ts';
+
+// Center line 0 and UCL 3 put every point in units of σ
+const LIMITS = { center_line: 0, ucl: 3 };
+
+function signals(points: number[], rule: NelsonRule): number[][] {
+  return evaluateNelsonRules(points, LIMITS, [rule]).map(v => v.points);
+}
+
+const repeat = (pattern: number[], times: number) => Array.from({ length: times }, () => pattern).flat();
+
+test('rule 1: a point beyond 3σ', () => {
+  assert.deepEqual(signals([0, 0.5, 3.5, 0, -3.2], 1), [[2], [4]]);
+  assert.deepEqual(signals([0, 2.9, -2.9], 1), []);
+});
+
+test('rule 2: nine points on the same side', () => {
+  assert.deepEqual(signals([-0.5, ...repeat([0.5], 9)], 2), [[1, 2, 3, 4, 5, 6, 7, 8, 9]]);
+  assert.deepEqual(signals(repeat([0.5], 8), 2), []);
+  // Ten points give two overlapping windows, merged into one signal
+  assert.deepEqual(signals(repeat([-0.5], 10), 2), [[0, 1, 2, 3, 4, 5, 6, 7, 8, 9]]);
+});
+
+test('rule 3: six points steadily increasing or decreasing', () => {
+  assert.deepEqual(signals([0, -0.5, -0.2, 0.1, 0.4, 0.7, 0.9, 0.2], 3), [[1, 2, 3, 4, 5, 6]]);
+  assert.deepEqual(signals([1, 0.8, 0.6, 0.4, 0.2, 0], 3), [[0, 1, 2, 3, 4, 5]]);
+  assert.deepEqual(signals([0, 0.1, 0.2, 0.3, 0.4, 0.4], 3), []);
+});
+
+test('rule 4: fourteen points alternating up and down', () => {
+  assert.deepEqual(signals(repeat([0.5, -0.5], 7), 4), [Array.from({ length: 14 }, (_, i) => i)]);
+  assert.deepEqual(signals(repeat([0.5, -0.5], 6).concat([0.5]), 4), []);
+});
+
+test('rule 5: two of three points beyond 2σ on the same side', () => {
+  assert.deepEqual(signals([0, 2.5, 0, 2.5, 0], 5), [[1, 2, 3]]);
+  assert.deepEqual(signals([2.5, -2.5, 0], 5), []);
+});
+
+test('rule 6: four of five points beyond 1σ on the same side', () => {
+  assert.deepEqual(signals([1.5, 1.5, 0, 1.5, 1.5], 6), [[0, 1, 2, 3, 4]]);
+  assert.deepEqual(signals([1.5, 1.5, 0, 1.5, -1.5], 6), []);
+});
+
+test('rule 7: fifteen points within 1σ', () => {
+  assert.deepEqual(signals(repeat([0.3, -0.3], 8).slice(0, 15), 7), [Array.from({ length: 15 }, (_, i) => i)]);
+  assert.deepEqual(signals(repeat([0.3], 14), 7), []);
+});
+
+test('rule 8: eight points beyond 1σ on either side', () => {
+  assert.deepEqual(signals(repeat([1.5, -1.5], 4), 8), [[0, 1, 2, 3, 4, 5, 6, 7]]);
+  assert.deepEqual(signals([...repeat([1.5, -1.5], 3), 0.5, 1.5], 8), []);
+});
+
+test('all rules on a stable series and on a shifted one', () => {
+  assert.deepEqual(evaluateNelsonRules([0.5, -0.5, 0.2, -0.3, 0.6, -0.1, 0.4, -0.6], LIMITS), []);
+
+  const shifted = evaluateNelsonRules([...repeat([1.5], 8), 3.5], LIMITS);
+  assert.deepEqual(shifted.map(v => v.rule), [1, 2, 6, 8]);
+  assert.equal(shifted[0].description, 'One point beyond 3σ from the center line');
+});
+
+test('per-point limits and invalid input', () => {
+  // σ is 1 for the first point and 2 for the second, where 7 is 3.5σ but 5 only 2.5σ
+  assert.deepEqual(evaluateNelsonRules([5, 7], { center_line: 0, ucl: [3, 6] }, [1]).map(v => v.points), [[0], [1]]);
+  assert.deepEqual(evaluateNelsonRules([5, 5], { center_line: 0, ucl: [3, 6] }, [1]).map(v => v.points), [[0]]);
+  assert.throws(() => evaluateNelsonRules([1], { center_line: 1, ucl: 1 }), /above the center line/);
+  assert.throws(() => evaluateNelsonRules([1], LIMITS, [9 as NelsonRule]), /Unknown Nelson rule/);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { andersonDarling, assessNormality, shapiroWilk } from '../../src/statistics/normality.ts';
+import { applyTransformation, fitBoxCox, fitJohnson } from '../../src/statistics/transformations.ts';
+import { assessCapability } from '../../src/statistics/capability.ts';
+import { standardDeviation } from '../../src/statistics/descriptive.ts';
+import { normalQuantile } from '../../src/statistics/distributions.ts';
+import { assertClose } from '../approx.ts';
+
+// Shapiro & Wilk (1965) weights of 11 men; R's shapiro.test gives W = 0.78881, p = 0.006704
+const WEIGHTS = [148, 154, 158, 160, 161, 162, 166, 170, 182, 195, 236];
+const SAMPLES = [10.2, 9.9, 10.4, 10.1, 10.3, 10.0, 10.2, 10.5, 10.1, 10.3];
+
+// Expected normal scores of 30 plotting positions: an idealized normal sample
+const Z = Array.from({ length: 30 }, (_, i) => normalQuantile((i + 0.5) / 30));
+
+test('Shapiro-Wilk on the Shapiro & Wilk weights example', () => {
+  const result = shapiroWilk(WEIGHTS);
+  assertClose(result.statistic, 0.78881);
+  assertClose(result.p_value, 0.006704);
+});
+
+test('Anderson-Darling on the weights example and a near-normal sample', () => {
+  const skewed = andersonDarling(WEIGHTS);
+  assertClose(skewed.statistic, 0.94677);
+  assertClose(skewed.p_value, 0.010454);
+
+  const normal = andersonDarling(SAMPLES);
+  assertClose(normal.statistic, 0.14859);
+  assertClose(normal.p_value, 0.94455);
+});
+
+test('assessNormality decides on the Anderson-Darling p-value', () => {
+  assert.equal(assessNormality(WEIGHTS).is_normal, false);
+  assert.equal(assessNormality(WEIGHTS, 0.01).is_normal, true);
+  const assessment = assessNormality(SAMPLES);
+  assert.equal(assessment.is_normal, true);
+  assertClose(assessment.shapiro_wilk.statistic, 0.98372);
+});
+
+test('normality tests reject samples they cannot judge', () => {
+  assert.throws(() => andersonDarling([1, 2, 3, 4, 5, 6, 7]), /at least 8/);
+  assert.throws(() => shapiroWilk([1, 2]), /between 3 and 5000/);
+  assert.throws(() => shapiroWilk([4, 4, 4, 4]), /constant sample/);
+});
+
+test('Box-Cox recovers the log and square-root transformations', () => {
+  const logNormal = Z.map(z => Math.exp(0.5 * z));
+  assertClose(fitBoxCox(logNormal).lambda, 0, 2);
+
+  const squared = Z.map(z => (3 + 0.5 * z) ** 2);
+  assert.ok(Math.abs(fitBoxCox(squared).lambda - 0.5) <= 0.05);
+
+  assert.throws(() => fitBoxCox([0, 1, 2]), /strictly positive/);
+  assert.ok(Number.isNaN(applyTransformation({ type: 'box_cox', lambda: 0.5 }, -1)));
+});
+
+test('Johnson fit normalizes shifted log-normal data', () => {
+  const shifted = Z.map(z => Math.exp(z) - 2);
+  const johnson = fitJohnson(shifted);
+  const transformed = shifted.map(x => applyTransformation(johnson, x));
+  assert.ok(transformed.every(Number.isFinite));
+  assert.ok(andersonDarling(transformed).p_value > 0.5);
+});
+
+test('assessCapability escalates normal -> Box-Cox -> Johnson -> percentile', () => {
+  const normal = assessCapability(Z.map(z => 10 + z), { lsl: 6, usl: 14, target: 10 });
+  assert.equal(normal.method, 'normal');
+
+  // ln(x) is exactly the normal scores, so Ppk = ln(20) / (3 s)
+  const logNormal = assessCapability(Z.map(z => Math.exp(z)), { usl: 20, target: 1 });
+  assert.equal(logNormal.method, 'box_cox');
+  assert.match(logNormal.rationale, /Raw data non-normal/);
+  assertClose(logNormal.transformation!.transformed_spec.usl!, Math.log(20));
+  assertClose(logNormal.indices.ppk, Math.log(20) / (3 * standardDeviation(Z)));
+
+  // Non-positive values rule out Box-Cox
+  const shifted = assessCapability(Z.map(z => Math.exp(z) - 2), { usl: 20, target: 0 });
+  assert.equal(shifted.method, 'johnson');
+
+  const lumpy = [...Array.from({ length: 27 }, (_, i) => i % 3), 40, 45, 50];
+  const percentile = assessCapability(lumpy, { usl: 60, target: 1 });
+  assert.equal(percentile.method, 'percentile');
+  assert.match(percentile.rationale, /box_cox not applicable/);
+});
+
+test('an explicitly requested method is honoured', () => {
+  const logNormal = Z.map(z => Math.exp(z));
+  assert.equal(assessCapability(logNormal, { usl: 20, target: 1 }, { method: 'normal' }).method, 'normal');
+  assert.equal(assessCapability(logNormal, { usl: 20, target: 1 }, { method: 'percentile' }).method, 'percentile');
+  assert.throws(() => assessCapability(Z, { usl: 5, target: 0 }, { method: 'box_cox' }), /strictly positive/);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INTERCEPT, fitLinearRegression, varianceInflationFactors } from '../../src/statistics/regression.ts';
+import { correlationMatrix, correlationPValue, pearsonCorrelation, spearmanCorrelation } from '../../src/statistics/correlation.ts';
+import { assertClose } from '../approx.ts';
+
+// Anscombe's quartet, data set I
+const X = [10, 8, 13, 9, 11, 14, 6, 4, 12, 7, 5];
+const Y = [8.04, 6.95, 7.58, 8.81, 8.33, 9.96, 7.24, 4.26, 10.84, 4.82, 5.68];
+
+test("simple regression reproduces the published fit of Anscombe's first data set", () => {
+  const result = fitLinearRegression('y', Y, { x: X });
+  assertClose(result.coefficients[INTERCEPT], 3.0001);
+  assertClose(result.coefficients.x, 0.5001);
+  assertClose(result.standard_errors[INTERCEPT], 1.1247);
+  assertClose(result.standard_errors.x, 0.1179);
+  assertClose(result.t_values.x, 4.241, 3);
+  assertClose(result.p_values.x, 0.00217, 5);
+  assertClose(result.p_values[INTERCEPT], 0.02573, 5);
+  assertClose(result.r_squared, 0.6665);
+  assertClose(result.adjusted_r_squared, 0.6295);
+  assertClose(result.residual_std_error, 1.237, 3);
+  assertClose(result.f_statistic, 17.99, 2);
+  assertClose(result.f_p_value, 0.00217, 5);
+  assert.deepEqual(result.significant_predictors, ['x']);
+  assert.deepEqual(result.vif, { x: 1 });
+});
+
+test('multiple regression recovers exact coefficients when the residuals are orthogonal to the Xs', () => {
+  const x1 = [1, 2, 3, 4, 5, 6];
+  const x2 = [2, 1, 4, 3, 6, 5];
+  const residuals = [0.1, -0.1, 0, 0, -0.1, 0.1];
+  const y = x1.map((v, i) => 1 + 2 * v + 0.5 * x2[i] + residuals[i]);
+  const result = fitLinearRegression('y', y, { x1, x2 });
+  assertClose(result.coefficients[INTERCEPT], 1, 9);
+  assertClose(result.coefficients.x1, 2, 9);
+  assertClose(result.coefficients.x2, 0.5, 9);
+  assertClose(result.residual_std_error, Math.sqrt(0.04 / 3), 9);
+  // r(x1, x2) = 29 / 35, so each VIF is 1 / (1 - r²)
+  assertClose(result.vif.x1, 1 / (1 - (29 / 35) ** 2), 9);
+  assertClose(varianceInflationFactors({ x1, x2 }).x2, 3.190104, 6);
+});
+
+test('degenerate regressions are rejected', () => {
+  assert.throws(() => fitLinearRegression('y', [1, 2, 3], { a: [1, 2, 3], b: [2, 3, 4] }), /needs more than 3 observations/);
+  assert.throws(() => fitLinearRegression('y', [1, 2, 4, 3], { a: [1, 2, 3, 4], b: [2, 4, 6, 8] }), /perfectly collinear/);
+  assert.throws(() => fitLinearRegression('y', [5, 5, 5, 5], { a: [1, 2, 3, 4] }), /y is constant/);
+});
+
+test('Pearson and Spearman correlation with significance', () => {
+  assertClose(pearsonCorrelation(X, Y), 0.8164);
+  assertClose(correlationPValue(pearsonCorrelation(X, Y), X.length), 0.00217, 5);
+  // Monotonic but not linear
+  const squares = [1, 2, 3, 4, 5].map(v => v ** 3);
+  assert.equal(spearmanCorrelation([1, 2, 3, 4, 5], squares), 1);
+  assert.ok(pearsonCorrelation([1, 2, 3, 4, 5], squares) < 1);
+  assert.equal(correlationPValue(-1, 10), 0);
+
+  const matrix = correlationMatrix({ x: X, y: Y, z: X.map(v => -v) });
+  assert.deepEqual(matrix.variables, ['x', 'y', 'z']);
+  assert.equal(matrix.coefficients.x.x, 1);
+  assertClose(matrix.coefficients.x.z, -1, 12);
+  assert.equal(matrix.coefficients.y.x, matrix.coefficients.x.y);
+  assert.throws(() => correlationMatrix({ x: X }), /at least two variables/);
+});
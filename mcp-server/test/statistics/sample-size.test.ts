@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateSampleSize, meanConfidenceInterval } from '../../src/statistics/sample-size.ts';
+import { assertClose } from '../approx.ts';
+
+test('estimation designs use n = (z·σ / E)² and n = z²·p(1-p) / E²', () => {
+  // (1.959964 · 2 / 0.5)² = 61.46
+  const mean = calculateSampleSize({ design: 'mean_estimate', sigma: 2, margin_of_error: 0.5 });
+  assert.equal(mean.sample_size_per_group, 62);
+
+  // The familiar ±3% poll at 95% confidence
+  const proportion = calculateSampleSize({ design: 'proportion_estimate', baseline_proportion: 0.5, margin_of_error: 0.03 });
+  assert.equal(proportion.sample_size_per_group, 1068);
+
+  const margin = calculateSampleSize({ design: 'mean_estimate', calculate: 'mde', sigma: 2, sample_size: 64 });
+  assertClose(margin.margin_of_error!, 1.959964 * 2 / 8);
+});
+
+test('two-sample t-test needs 64 per group for d = 0.5 at 80% power', () => {
+  const result = calculateSampleSize({ design: 'two_means', sigma: 1, effect_size: 0.5, power: 0.8 });
+  assert.equal(result.sample_size_per_group, 64);
+  assert.equal(result.total_sample_size, 128);
+  assertClose(result.power!, 0.80138);
+
+  // One group fewer falls just short
+  const power = calculateSampleSize({ design: 'two_means', calculate: 'power', sigma: 1, effect_size: 0.5, sample_size: 63 });
+  assertClose(power.power!, 0.79508);
+});
+
+test('minimum detectable effect inverts the power calculation', () => {
+  // (t(0.975, 19) + t(0.9, 19)) / √20
+  const result = calculateSampleSize({ design: 'one_mean', calculate: 'mde', sigma: 1, sample_size: 20, power: 0.9 });
+  assertClose(result.effect_size!, 0.76490);
+});
+
+test('proportion designs use the normal approximation to the binomial', () => {
+  // Fleiss without continuity correction: 10% -> 15% needs 686 per group
+  const two = calculateSampleSize({ design: 'two_proportions', baseline_proportion: 0.1, effect_size: 0.05, power: 0.8 });
+  assert.equal(two.sample_size_per_group, 686);
+  assert.equal(two.total_sample_size, 1372);
+  assert.ok(two.power! >= 0.8);
+
+  const one = calculateSampleSize({ design: 'one_proportion', baseline_proportion: 0.5, effect_size: 0.1, power: 0.8 });
+  assert.equal(one.sample_size_per_group, 194);
+
+  const mde = calculateSampleSize({
+    design: 'one_proportion', calculate: 'mde', baseline_proportion: 0.5, sample_size: 194, power: 0.8, alternative: 'less'
+  });
+  assert.ok(mde.effect_size! < 0 && mde.effect_size! > -0.1);
+});
+
+test('t confidence interval for the mean', () => {
+  // mean 10.2, s = 0.182574, t(0.975, 9) = 2.262157
+  const [low, high] = meanConfidenceInterval([10.2, 9.9, 10.4, 10.1, 10.3, 10.0, 10.2, 10.5, 10.1, 10.3]);
+  assertClose(low, 10.2 - 0.130606);
+  assertClose(high, 10.2 + 0.130606);
+  assert.throws(() => meanConfidenceInterval([1]), /At least two/);
+});
+
+test('invalid requests are rejected', () => {
+  assert.throws(() => calculateSampleSize({ design: 'two_means', effect_size: 1 }), /sigma must be a positive number/);
+  assert.throws(() => calculateSampleSize({ design: 'two_means', sigma: 1, effect_size: 0 }), /effect_size/);
+  assert.throws(() => calculateSampleSize({ design: 'mean_estimate', calculate: 'power', sigma: 1 }), /Power is not defined/);
+  assert.throws(() => calculateSampleSize({ design: 'one_proportion', baseline_proportion: 1.2 }), /strictly between 0 and 1/);
+  assert.throws(() => calculateSampleSize({ design: 'one_mean', sigma: 1, effect_size: 1, confidence_level: 1 }), /confidence_level/);
+});
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { controlConstants } from '../../src/statistics/control-constants.ts';
+import { buildControlChart, selectChartType } from '../../src/statistics/spc.ts';
+import { assertClose } from '../approx.ts';
+
+// Published control chart factors (ASTM STP 15D / Montgomery, Appendix VI); the tables round
+// A2 and D4 for n = 2 from 1.8806 and 3.2686
+test('control chart constants match the published tables', () => {
+  const n2 = controlConstants(2);
+  assertClose(n2.c4, 0.7979);
+  assertClose(n2.A2, 1.880, 2);
+  assertClose(n2.A3, 2.659, 3);
+  assert.equal(n2.B3, 0);
+  assertClose(n2.B4, 3.267, 3);
+  assert.equal(n2.D3, 0);
+  assertClose(n2.D4, 3.267, 2);
+
+  const n5 = controlConstants(5);
+  assertClose(n5.d2, 2.326, 3);
+  assertClose(n5.c4, 0.9400);
+  assertClose(n5.A2, 0.577, 3);
+  assertClose(n5.A3, 1.427, 3);
+  assertClose(n5.B4, 2.089, 3);
+  assertClose(n5.D4, 2.114, 3);
+
+  const n10 = controlConstants(10);
+  assertClose(n10.c4, 0.9727);
+  assertClose(n10.A2, 0.308, 3);
+  assertClose(n10.A3, 0.975, 3);
+  assertClose(n10.B3, 0.284, 3);
+  assertClose(n10.B4, 1.716, 3);
+  assertClose(n10.D3, 0.223, 3);
+  assertClose(n10.D4, 1.777, 3);
+
+  const n25 = controlConstants(25);
+  assertClose(n25.c4, 0.9896);
+  assertClose(n25.A2, 0.153, 3);
+  assertClose(n25.B3, 0.565, 3);
+
+  assert.throws(() => controlConstants(1), /subgroup sizes 2-25/);
+  assert.throws(() => controlConstants(26), /subgroup sizes 2-25/);
+});
+
+test('chart selection follows data type, subgroup size and sample sizes', () => {
+  assert.equal(selectChartType({ data_type: 'continuous', values: [1, 2] }), 'I-MR');
+  assert.equal(selectChartType({ data_type: 'continuous', subgroup_size: 5 }), 'Xbar-R');
+  assert.equal(selectChartType({ data_type: 'continuous', subgroup_size: 10 }), 'Xbar-S');
+  assert.equal(selectChartType({ data_type: 'defectives', sample_sizes: [50, 50] }), 'np');
+  assert.equal(selectChartType({ data_type: 'defectives', sample_sizes: [50, 60] }), 'p');
+  assert.equal(selectChartType({ data_type: 'defects' }), 'c');
+  assert.equal(selectChartType({ data_type: 'defects', sample_sizes: [1, 2] }), 'u');
+  assert.equal(selectChartType({ data_type: 'continuous', chart_type: 'EWMA' }), 'EWMA');
+});
+
+test('I-MR limits use the average moving range over d2', () => {
+  // MR = [2, 1, 2, 1], MR-bar = 1.5, sigma = 1.5 / 1.128
+  const chart = buildControlChart({ data_type: 'continuous', values: [1, 3, 2, 4, 3] });
+  const [individuals, movingRange] = chart.series;
+  assertClose(chart.sigma_estimate!, 1.32979);
+  assertClose(individuals.center_line, 2.6);
+  assertClose(individuals.ucl as number, 6.58936);
+  assertClose(individuals.lcl as number, -1.38936);
+  assertClose(movingRange.center_line, 1.5);
+  assertClose(movingRange.ucl as number, 4.90293);
+  assert.equal(movingRange.lcl, 0);
+});
+
+test('Xbar-R limits use A2 and D4', () => {
+  const chart = buildControlChart({ data_type: 'continuous', subgroups: [[1, 2, 3], [2, 3, 4], [3, 4, 5]] });
+  assert.equal(chart.chart_type, 'Xbar-R');
+  const [xbar, range] = chart.series;
+  assert.deepEqual(xbar.points, [2, 3, 4]);
+  assertClose(xbar.ucl as number, 3 + 2 * 3 / (1.693 * Math.sqrt(3)));
+  assertClose(range.ucl as number, 2 * (1 + 3 * 0.888 / 1.693));
+  assert.equal(range.lcl, 0);
+});
+
+test('p chart limits vary with the sample size', () => {
+  // p-bar = 30 / 400
+  const chart = buildControlChart({ data_type: 'defectives', values: [5, 10, 15], sample_sizes: [100, 100, 200] });
+  assert.equal(chart.chart_type, 'p');
+  const [p] = chart.series;
+  assertClose(p.center_line, 0.075);
+  assert.deepEqual(p.lcl, [0, 0, (p.lcl as number[])[2]]);
+  assertClose((p.lcl as number[])[2], 0.019125);
+  assertClose((p.ucl as number[])[0], 0.154018);
+  assertClose((p.ucl as number[])[2], 0.130875);
+});
+
+test('c chart limits are c-bar ± 3√c-bar', () => {
+  const [c] = buildControlChart({ data_type: 'defects', values: [4, 6, 5, 5] }).series;
+  assertClose(c.center_line, 5);
+  assertClose(c.ucl as number, 5 + 3 * Math.sqrt(5));
+  assert.equal(c.lcl, 0);
+  assert.throws(() => buildControlChart({ data_type: 'defects', values: [1, -1] }), /non-negative/);
+});
+
+test('EWMA limits widen to the asymptotic L·σ·√(λ / (2 - λ))', () => {
+  const chart = buildControlChart({ data_type: 'continuous', chart_type: 'EWMA', values: [1, 3, 2, 4, 3] });
+  const [ewma] = chart.series;
+  const sigma = 1.5 / 1.128;
+  assertClose(ewma.points[0], 0.2 * 1 + 0.8 * 2.6);
+  // First point: 3σ·√(0.2 / 1.8 · (1 - 0.8²)) = 0.6σ
+  assertClose((ewma.ucl as number[])[0], 2.6 + 0.6 * sigma);
+  assert.ok((ewma.ucl as number[])[4] < 2.6 + sigma);
+  assert.throws(() => buildControlChart({ data_type: 'continuous', chart_type: 'EWMA', values: [1, 2], ewma_lambda: 0 }), /ewma_lambda/);
+});
+
+test('tabular CUSUM accumulates deviations beyond k·σ', () => {
+  const chart = buildControlChart({ data_type: 'continuous', chart_type: 'CUSUM', values: [10, 12, 11, 13, 12], target: 10 });
+  const [upper, lower] = chart.series;
+  const k = 0.5 * 1.32979;
+  assertClose(upper.points[1], 2 - k);
+  assertClose(upper.points[4], 5.34043);
+  assert.deepEqual(lower.points, [0, 0, 0, 0, 0]);
+  assertClose(upper.ucl as number, 5 * 1.32979);
+  assert.throws(() => buildControlChart({ data_type: 'defects', chart_type: 'CUSUM', values: [1, 2] }), /continuous data/);
+});
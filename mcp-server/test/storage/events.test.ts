@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deriveEvents, describeEvent, replayEvents, type ProjectEvent, type ProjectSnapshot } from '../../src/storage/events.ts';
+import { DMAICPhase, type DefineArtifacts } from '../../src/engine/types.ts';
+import type { ProjectDataset } from '../../src/ingestion/dataset.ts';
+import type { ProjectState } from '../../src/shared/project-state.ts';
+
+const DATASET: ProjectDataset = {
+  id: 'latency-march',
+  name: 'March latency',
+  source: 'inline',
+  mapping: { kpis: { latency: 'api_response_time' } },
+  imported_at: '2026-03-03T10:00:00.000Z',
+  format: 'csv',
+  row_count: 3,
+  kpis: { api_response_time: [120, 95.5, 240] },
+  xs: {},
+  factors: {},
+  units: {}
+};
+
+// Snapshots of one project after each tool call, at the given times
+const HISTORY: { tool: string; at: string; snapshot: ProjectSnapshot }[] = [];
+const record = (tool: string, at: string, change: (snapshot: ProjectSnapshot) => void) => {
+  const snapshot = structuredClone(HISTORY[HISTORY.length - 1]?.snapshot ?? {
+    project: { id: 'checkout-api', name: 'Checkout API', current_phase: DMAICPhase.DEFINE, artifacts: {}, quality_gates: {}, datasets: {} } as ProjectState,
+    observations: []
+  });
+  change(snapshot);
+  HISTORY.push({ tool, at, snapshot });
+};
+record('create_project', '2026-03-01T10:00:00.000Z', () => {});
+record('define_phase', '2026-03-02T10:00:00.000Z', ({ project }) => {
+  project.artifacts.define = { ctq_tree: { performance: {} } } as DefineArtifacts;
+  project.quality_gates.define = { passed: true, criteria_results: {}, missing_items: [], recommendations: [] };
+  project.current_phase = DMAICPhase.MEASURE;
+});
+record('import_dataset', '2026-03-03T10:00:00.000Z', snapshot => {
+  snapshot.project.datasets[DATASET.id] = DATASET;
+  snapshot.observations.push({ kpi: 'api_response_time', value: 120, timestamp: '2026-03-03T09:00:00.000Z' });
+});
+record('update_project', '2026-03-04T10:00:00.000Z', ({ project }) => {
+  project.name = 'Checkout API v2';
+  project.artifacts.define!.ctq_tree.performance = { api_response_time: { target: 200, usl: 500 } };
+});
+
+function events(): ProjectEvent[] {
+  const all: ProjectEvent[] = [];
+  HISTORY.forEach(({ tool, at, snapshot }, i) => all.push(...deriveEvents(HISTORY[i - 1]?.snapshot, snapshot, { tool, at, revision: all.length })));
+  return all;
+}
+
+test('derived events describe each tool call', () => {
+  assert.deepEqual(events().map(e => [e.seq, e.tool, describeEvent(e)]), [
+    [1, 'create_project', 'Project "Checkout API" created'],
+    [2, 'define_phase', 'Define phase artifacts recorded'],
+    [3, 'define_phase', 'define gate passed'],
+    [4, 'define_phase', 'Phase DEFINE → MEASURE'],
+    [5, 'import_dataset', 'Dataset "March latency" imported (3 rows)'],
+    [6, 'import_dataset', '1 observation(s) of api_response_time'],
+    [7, 'update_project', 'define recorded'],
+    [8, 'update_project', 'Updated name']
+  ]);
+});
+
+test('replaying every event rebuilds the latest state', () => {
+  assert.deepEqual(replayEvents(events()), HISTORY[HISTORY.length - 1].snapshot);
+});
+
+test('as_of replays the events up to and including that time', () => {
+  const history = events();
+  assert.equal(replayEvents(history, '2026-03-01T09:59:59.999Z'), undefined);
+  HISTORY.forEach(({ at, snapshot }, i) => {
+    assert.deepEqual(replayEvents(history, at), snapshot);
+    const justBeforeNext = HISTORY[i + 1] ? new Date(Date.parse(HISTORY[i + 1].at) - 1).toISOString() : '2027-01-01T00:00:00.000Z';
+    assert.deepEqual(replayEvents(history, justBeforeNext), snapshot);
+  });
+});
+
+test('replay applies events in seq order and skips those after as_of even when later ones are earlier', () => {
+  const history = events();
+  assert.deepEqual(replayEvents([...history].reverse()), HISTORY[HISTORY.length - 1].snapshot);
+
+  // The phase change was stamped by a server whose clock ran two days ahead
+  const skewed = history.map(e => e.seq === 4 ? { ...e, at: '2026-03-05T10:00:00.000Z' } : e);
+  const state = replayEvents(skewed, '2026-03-03T10:00:00.000Z')!;
+  assert.equal(state.project.current_phase, DMAICPhase.DEFINE);
+  assert.deepEqual(Object.keys(state.project.datasets), [DATASET.id]);
+  assert.equal(state.observations.length, 1);
+});
+
+test('invalid timestamps and histories without ProjectCreated are rejected', () => {
+  const history = events();
+  assert.throws(() => replayEvents(history, 'yesterday'), /Invalid as_of timestamp: yesterday/);
+  assert.throws(() => replayEvents(history.slice(1)), /Event 2 \(DefineCompleted\) precedes ProjectCreated/);
+});
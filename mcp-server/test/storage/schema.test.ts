@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCHEMA_VERSION, migrateDocument, toDocument } from '../../src/storage/schema.ts';
+
+// A bare project state as exported from a project:// resource before stored documents were versioned
+const STATE = {
+  id: 'checkout-api',
+  name: 'Checkout API',
+  business_case: 'Faster checkout',
+  current_phase: 'MEASURE',
+  created_at: '2026-03-01T10:00:00.000Z',
+  artifacts: { define: { voc_analysis: {} } },
+  quality_gates: { define: { passed: true } }
+};
+const OBSERVATION = { kpi: 'api_response_time', value: 182, timestamp: '2026-03-02T09:00:00.000Z', source: 'prometheus' };
+
+test('a version 0 project state becomes a version 2 record with a single ProjectCreated event', () => {
+  const { record, migrated } = migrateDocument(structuredClone(STATE), 'checkout-api.json');
+  assert.equal(migrated, true);
+  assert.deepEqual(record, {
+    id: 'checkout-api',
+    name: 'Checkout API',
+    description: 'Faster checkout',
+    phase: 'MEASURE',
+    revision: 1,
+    updated_at: '2026-03-01T10:00:00.000Z',
+    events: [{
+      seq: 1,
+      at: '2026-03-01T10:00:00.000Z',
+      tool: 'migration',
+      type: 'ProjectCreated',
+      project: { datasets: {}, ...STATE }
+    }]
+  });
+});
+
+test('a version 1 document keeps its observations as a KPIObserved event', () => {
+  const document = {
+    schema_version: 1,
+    id: 'checkout-api',
+    name: 'Checkout API',
+    description: 'Faster checkout',
+    phase: 'MEASURE',
+    revision: 7,
+    updated_at: '2026-03-02T09:30:00.000Z',
+    project: { ...STATE, datasets: {} },
+    observations: [OBSERVATION]
+  };
+  const { record, migrated } = migrateDocument(document, 'checkout-api.json');
+  assert.equal(migrated, true);
+  assert.equal(record.revision, 2);
+  assert.equal(record.updated_at, '2026-03-02T09:30:00.000Z');
+  assert.deepEqual(record.events.map(e => [e.seq, e.type, e.tool]), [[1, 'ProjectCreated', 'migration'], [2, 'KPIObserved', 'migration']]);
+  assert.deepEqual(record.events[1], { seq: 2, at: '2026-03-02T09:30:00.000Z', tool: 'migration', type: 'KPIObserved', observations: [OBSERVATION] });
+});
+
+test('a current document is returned as stored', () => {
+  const { record } = migrateDocument(structuredClone(STATE), 'checkout-api.json');
+  const document = toDocument(record);
+  assert.equal(document.schema_version, SCHEMA_VERSION);
+  assert.deepEqual(migrateDocument(document, 'checkout-api.json'), { record, migrated: false });
+});
+
+test('unknown and newer documents are rejected', () => {
+  assert.throws(() => migrateDocument(null, 'a.json'), /a\.json is not a project document/);
+  assert.throws(() => migrateDocument({ name: 'no id' }, 'b.json'), /neither a versioned project document nor a project state/);
+  assert.throws(() => migrateDocument({ schema_version: SCHEMA_VERSION + 1 }, 'c.json'), /newer than this server supports/);
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TABLE_MAPPINGS, planTable, type BaseEntry, type Row } from '../../src/sync/supabase-mapping.ts';
+
+const mapping = TABLE_MAPPINGS.ctq_items;
+const ctq = (need: string, metric: string, target: number, usl: number): Row =>
+  ({ need, driver: `${need} driver`, ctq: metric, target, usl });
+
+// Four CTQs as they were after the last sync, identical on both sides
+const SYNCED: Record<string, Row> = {
+  r1: ctq('performance', 'p95', 200, 300),
+  r2: ctq('reliability', 'uptime', 99.9, 100),
+  r3: ctq('security', 'vulnerabilities', 0, 5),
+  r4: ctq('usability', 'task_success', 95, 100)
+};
+const BASE: Record<string, BaseEntry> = Object.fromEntries(Object.entries(SYNCED).map(([rowId, row]) =>
+  [rowId, { key: `${row.need}:${row.ctq}`, local: row, remote: row }]));
+
+// Since then the MCP tools lowered the p95 target and the vulnerability limit, dropped task success and added
+// throughput; the dashboard lowered the p95 limit, the uptime target and the vulnerability limit, and added MTTR
+const LOCAL = new Map<string, Row>([
+  ['performance:p95', { ...SYNCED.r1, target: 180 }],
+  ['reliability:uptime', SYNCED.r2],
+  ['security:vulnerabilities', { ...SYNCED.r3, usl: 3 }],
+  ['performance:throughput', ctq('performance', 'throughput', 500, 1000)]
+]);
+const REMOTE = new Map<string, Row>([
+  ['r1', { ...SYNCED.r1, usl: 250 }],
+  ['r2', { ...SYNCED.r2, target: 99.5 }],
+  ['r3', { ...SYNCED.r3, usl: 2 }],
+  ['r4', SYNCED.r4],
+  ['r5', ctq('Reliability', 'mttr', 30, 60)]
+]);
+
+const byKey = <T extends { key: string }>(items: T[]) => [...items].sort((a, b) => a.key.localeCompare(b.key));
+
+test('a two-way merge pushes, pulls and deletes per field and holds conflicts', () => {
+  const plan = planTable(mapping, LOCAL, REMOTE, BASE, { direction: 'both', resolve: 'none' });
+  assert.deepEqual(plan.inserts, [{ key: 'performance:throughput', row: LOCAL.get('performance:throughput') }]);
+  assert.deepEqual(plan.updates, [{ key: 'performance:p95', row_id: 'r1', changes: { target: 180 } }]);
+  assert.deepEqual(plan.deletes, [{ key: 'usability:task_success', row_id: 'r4' }]);
+  assert.deepEqual(byKey(plan.pulls), [
+    { key: 'performance:p95', row_id: 'r1', row: { ...SYNCED.r1, target: 180, usl: 250 } },
+    { key: 'reliability:mttr', row_id: 'r5', row: REMOTE.get('r5') },
+    { key: 'reliability:uptime', row_id: 'r2', row: { ...SYNCED.r2, target: 99.5 } }
+  ]);
+  assert.deepEqual(plan.conflicts.map(c => [c.key, c.reason, c.fields]), [
+    ['security:vulnerabilities', 'changed on both sides since the last sync', ['usl']]
+  ]);
+  // The conflicting field stays at its synced value on both sides until it is resolved
+  assert.deepEqual(plan.settled.find(s => s.key === 'security:vulnerabilities')?.held, { usl: { local: 5, remote: 5 } });
+});
+
+test('conflicts resolve to the chosen side', () => {
+  const local = planTable(mapping, LOCAL, REMOTE, BASE, { direction: 'both', resolve: 'local' });
+  assert.deepEqual(local.conflicts, []);
+  assert.deepEqual(local.updates.find(u => u.key === 'security:vulnerabilities')?.changes, { usl: 3 });
+
+  const remote = planTable(mapping, LOCAL, REMOTE, BASE, { direction: 'both', resolve: 'remote' });
+  assert.deepEqual(remote.conflicts, []);
+  assert.equal(remote.pulls.find(p => p.key === 'security:vulnerabilities')?.row?.usl, 2);
+});
+
+test('a push-only sync leaves Supabase changes for a later pull', () => {
+  const plan = planTable(mapping, LOCAL, REMOTE, BASE, { direction: 'push', resolve: 'none' });
+  assert.deepEqual(plan.pulls, []);
+  assert.deepEqual(byKey(plan.updates).map(u => [u.key, u.changes]), [['performance:p95', { target: 180 }]]);
+  assert.deepEqual(plan.settled.find(s => s.key === 'reliability:uptime')?.held, { target: { local: 99.9, remote: 99.9 } });
+  // Rows new in Supabase are neither pulled nor deleted
+  assert.equal(plan.deletes.some(d => d.row_id === 'r5'), false);
+});
+
+test('entities deleted in Supabase are pulled as deletions unless changed locally', () => {
+  const remote = new Map([...REMOTE].filter(([rowId]) => rowId !== 'r2' && rowId !== 'r1'));
+  const plan = planTable(mapping, LOCAL, remote, BASE, { direction: 'both', resolve: 'none' });
+  assert.deepEqual(plan.pulls.find(p => p.key === 'reliability:uptime'), { key: 'reliability:uptime', row: null });
+  assert.deepEqual(plan.conflicts.find(c => c.key === 'performance:p95')?.reason, 'changed by MCP tools but deleted in Supabase');
+  assert.deepEqual(plan.kept.r1, BASE.r1);
+});
@@ -0,0 +1,120 @@
+// Worker side of the mcp_operations queue: claims operations, runs their phases with heartbeats and settles them
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { PhaseRejectedError, requestedPhase, runPhase, type PhaseOperation } from './phase-runner.ts';
+
+export interface WorkerOptions {
+  worker: string;
+  lease_seconds?: number;  // a running operation without a heartbeat for this long is requeued
+  deadline?: number;       // epoch ms after which no new operation is claimed
+  max_jobs?: number;
+}
+
+export interface WorkerReport {
+  completed: string[];
+  failed: string[];   // retried later, failed, dead-lettered or cancelled
+  lost: string[];     // the lease expired and another worker may have taken over
+}
+
+// The mcp_operations columns the worker reads from a row claim_mcp_operation returns
+interface ClaimedOperation {
+  id: string;
+  project_id: string | null;
+  operation_type: string;
+  phase: string | null;
+  input_data: PhaseOperation['input_data'] | null;
+}
+
+// Raised from the progress hook to stop a run the worker may no longer finish
+class StopRun extends Error {
+  constructor(readonly reason: 'cancelled' | 'lost') {
+    super(reason === 'cancelled' ? 'Cancelled' : 'Lease lost');
+  }
+}
+
+export async function processQueue(supabase: SupabaseClient, options: WorkerOptions): Promise<WorkerReport> {
+  const lease = options.lease_seconds ?? 60;
+  const report: WorkerReport = { completed: [], failed: [], lost: [] };
+
+  while ((options.deadline === undefined || Date.now() < options.deadline)
+    && (options.max_jobs === undefined || report.completed.length + report.failed.length + report.lost.length < options.max_jobs)) {
+    const { data, error } = await supabase.rpc('claim_mcp_operation', { p_worker: options.worker, p_lease_seconds: lease });
+    if (error) throw error;
+    const operation: ClaimedOperation | undefined = (data ?? [])[0];
+    if (!operation) break;
+
+    const outcome = await processOperation(supabase, operation, options.worker, lease);
+    report[outcome].push(operation.id);
+  }
+  return report;
+}
+
+async function processOperation(
+  supabase: SupabaseClient,
+  operation: ClaimedOperation,
+  worker: string,
+  lease: number
+): Promise<keyof WorkerReport> {
+  // Heartbeats keep the lease while an agent runs; their answer is acted on at the next progress update
+  let stop: StopRun | undefined;
+  const heartbeat = async (progress?: number, message?: string) => {
+    const { data, error } = await supabase.rpc('heartbeat_mcp_operation', {
+      p_id: operation.id,
+      p_worker: worker,
+      p_progress: progress ?? null,
+      p_message: message ?? null,
+    });
+    if (error) {
+      console.error('Error sending heartbeat:', error);
+      return;
+    }
+    if (data === null) stop = new StopRun('lost');
+    else if (data === false) stop ??= new StopRun('cancelled');
+  };
+  const timer = setInterval(() => heartbeat(), Math.max(1, lease / 3) * 1000);
+
+  try {
+    if (!operation.project_id) {
+      throw new PhaseRejectedError('Operation has no project');
+    }
+    const result = await runPhase(supabase, {
+      id: operation.id,
+      project_id: operation.project_id,
+      phase: requestedPhase(operation.operation_type, operation.phase ?? undefined),
+      input_data: operation.input_data ?? {},
+    }, async (percent, message) => {
+      await heartbeat(percent, message);
+      if (stop) throw stop;
+    });
+
+    const { data, error } = await supabase.rpc('complete_mcp_operation', { p_id: operation.id, p_worker: worker, p_output: result });
+    if (error) throw error;
+    return data ? 'completed' : 'lost';
+  } catch (error) {
+    if (error instanceof StopRun && error.reason === 'lost') {
+      return 'lost';
+    }
+    if (!(error instanceof StopRun)) {
+      console.error('MCP operation error:', error);
+    }
+    const { data, error: failError } = await supabase.rpc('fail_mcp_operation', {
+      p_id: operation.id,
+      p_worker: worker,
+      p_error: errorMessage(error) || 'MCP operation failed',
+      p_retryable: !(error instanceof PhaseRejectedError),
+    });
+    if (failError) console.error('Error failing operation:', failError);
+    return data ? 'failed' : 'lost';
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+// The message of a thrown error; the Supabase client returns database errors as plain objects, which are thrown as they are
+export function errorMessage(error: unknown): string | undefined {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return undefined;
+}
@@ -0,0 +1,412 @@
+// DMAIC phase runs for the edge functions: the MCP server's engine on a project's stored rows, with the results written back
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.58.0';
+import {
+  DMAICEngine,
+  type AgentExecution,
+  type AnalyzeOptions,
+  type ControlOptions,
+  type DefineOptions,
+  type ImproveOptions,
+  type MeasureOptions,
+  type PhaseHooks,
+  type PhaseRun,
+} from '../../../mcp-server/src/engine/dmaic-engine.ts';
+import {
+  DMAICPhase,
+  type AnalyzeArtifacts,
+  type ControlArtifacts,
+  type DefineArtifacts,
+  type ImproveArtifacts,
+  type MeasureArtifacts,
+  type PhaseProject,
+  type QualityGateResult,
+} from '../../../mcp-server/src/engine/types.ts';
+import { ObservationStore } from '../../../mcp-server/src/shared/observation-store.ts';
+import {
+  SYNC_TABLES,
+  TABLE_MAPPINGS,
+  derivedColumns,
+  planTable,
+  type BaseEntry,
+  type Row,
+  type SyncTable,
+  type TableMapping,
+} from '../../../mcp-server/src/sync/supabase-mapping.ts';
+
+// The operation's input_data: options for its phase, as the MCP tool of that phase takes them
+export type PhaseInput = DefineOptions & MeasureOptions & AnalyzeOptions & ImproveOptions & ControlOptions;
+
+export interface PhaseOperation {
+  id: string;
+  project_id: string;
+  phase: DMAICPhase;
+  input_data: PhaseInput;
+}
+
+type PhaseArtifacts = DefineArtifacts | MeasureArtifacts | AnalyzeArtifacts | ImproveArtifacts | ControlArtifacts;
+
+// The operation's output_data
+export interface PhaseResult {
+  artifacts: PhaseArtifacts;
+  quality_gate: QualityGateResult;
+  next_phase: DMAICPhase | 'COMPLETED';
+}
+
+// Errors from the operation itself, such as an unknown phase or a project in another phase, which fail the same way on every attempt
+export class PhaseRejectedError extends Error {}
+
+// The project as loaded from its rows, with each table's rows and their entities as loaded
+interface StoredProject {
+  project: PhaseProject;
+  tables: Record<SyncTable, { rows: Map<string, Row>; base: Record<string, BaseEntry> }>;
+}
+
+// One table's part of the write-back, as save_phase_results applies it
+interface TableWrites {
+  table: SyncTable | 'mcp_artifacts';
+  deletes: string[];
+  updates: { id: string; changes: Row }[];
+  inserts: Row[];
+}
+
+const MAX_REDIRECTS = 5;
+
+const PHASES = [DMAICPhase.DEFINE, DMAICPhase.MEASURE, DMAICPhase.ANALYZE, DMAICPhase.IMPROVE, DMAICPhase.CONTROL];
+
+const ARTIFACT_NAMES: Record<string, string> = {
+  voc_analysis: 'Voice of Customer Analysis',
+  ctq_tree: 'Critical to Quality Tree',
+  constraints: 'Project Constraints',
+  sipoc_diagram: 'SIPOC Diagram',
+  kpis: 'Key Performance Indicators',
+  baselines: 'KPI Baselines',
+  measurement_system_analysis: 'Measurement System Analysis',
+  data_collection_plan: 'Data Collection Plan',
+  statistical_analysis: 'Statistical Analysis',
+  process_capability: 'Process Capability',
+  root_cause_analysis: 'Root Cause Analysis',
+  fmea: 'Failure Mode and Effects Analysis',
+  proposed_solutions: 'Proposed Solutions',
+  pilot_results: 'Pilot Results',
+  implementation_plan: 'Implementation Plan',
+  monitoring_dashboard: 'Monitoring Dashboard',
+  control_plan: 'Control Plan',
+  signals: 'Control Chart Signals',
+  documentation: 'Documentation',
+  training_materials: 'Training Materials',
+};
+
+// Phase operations are `<phase>_phase`, e.g. define_phase, the same names as the MCP tools
+export function requestedPhase(operationType: string, phase?: string): DMAICPhase {
+  const name = (phase ?? operationType.replace(/_phase$/, '')).toUpperCase();
+  const match = PHASES.find(p => p === name);
+  if (!operationType.endsWith('_phase') || !match) {
+    throw new PhaseRejectedError(`Unsupported operation "${operationType}"${phase ? ` for phase ${phase}` : ''}; expected one of ${PHASES.map(p => `${p.toLowerCase()}_phase`).join(', ')}`);
+  }
+  return match;
+}
+
+// Runs the phase with the DMAIC engine the MCP server uses, on the project's stored rows, and writes the results back.
+// onProgress is also called at 100% before anything is written, so throwing from it leaves the project unchanged.
+export async function runPhase(
+  supabase: SupabaseClient,
+  operation: PhaseOperation,
+  onProgress?: PhaseHooks['on_progress']
+): Promise<PhaseResult> {
+  const { id: operationId, project_id: projectId, phase, input_data: inputData } = operation;
+  const stored = await loadProject(supabase, projectId);
+  const project = stored.project;
+
+  // Without an LLM or recorded observations here, the engine uses its rule-based drafts and the samples in
+  // input_data, as the MCP server does when it has neither
+  const engine = new DMAICEngine(new ObservationStore());
+  const executionIds = new Map<AgentExecution, string>();
+  let stopped: unknown;
+  const hooks: PhaseHooks = {
+    on_agent_update: execution => recordExecution(supabase, executionIds, operationId, projectId, inputData, execution),
+    on_progress: onProgress && (async (percent, message) => {
+      try {
+        await onProgress(percent, message);
+      } catch (error) {
+        stopped = error;
+        throw error;
+      }
+    }),
+    validate_deployment: validateDeployment,
+  };
+
+  let run: PhaseRun<PhaseArtifacts>;
+  try {
+    switch (phase) {
+      case DMAICPhase.DEFINE:
+        run = await engine.runDefinePhase(project, inputData, hooks);
+        break;
+      case DMAICPhase.MEASURE:
+        run = await engine.runMeasurePhase(project, inputData, hooks);
+        break;
+      case DMAICPhase.ANALYZE:
+        run = await engine.runAnalyzePhase(project, inputData, hooks);
+        break;
+      case DMAICPhase.IMPROVE:
+        run = await engine.runImprovePhase(project, inputData, hooks);
+        break;
+      default:
+        run = await engine.runControlPhase(project, inputData, hooks);
+    }
+  } catch (error) {
+    // Errors thrown by onProgress are the caller's and pass through as they are
+    if (error === stopped) throw error;
+    throw new PhaseRejectedError(error instanceof Error ? error.message : String(error));
+  }
+  await onProgress?.(100, 'Saving results');
+
+  const artifacts: Record<string, unknown> = { ...run.artifacts };
+  const produced = run.agents.flatMap(agent => agent.artifacts
+    .filter(type => artifacts[type] !== undefined)
+    .map(type => ({
+      mcp_operation_id: operationId,
+      artifact_type: type,
+      artifact_name: ARTIFACT_NAMES[type] ?? type,
+      artifact_data: artifacts[type],
+      phase,
+      created_by_agent: agent.agent_type,
+    })));
+
+  const { error } = await supabase.rpc('save_phase_results', {
+    p_project_id: projectId,
+    p_writes: [...projectWrites(stored), { table: 'mcp_artifacts', deletes: [], updates: [], inserts: produced }],
+  });
+  if (error) throw error;
+
+  return {
+    artifacts: run.artifacts,
+    quality_gate: run.quality_gate,
+    next_phase: run.next_phase === DMAICPhase.NONE ? 'COMPLETED' : run.next_phase,
+  };
+}
+
+// Builds the engine's project state from the dashboard's tables, through the same mappings the MCP server syncs with
+async function loadProject(supabase: SupabaseClient, projectId: string): Promise<StoredProject> {
+  const { data: requirements, error } = await supabase
+    .from('requirements')
+    .select('requirement')
+    .eq('project_id', projectId)
+    .order('created_at');
+  if (error) throw error;
+
+  const project: PhaseProject = {
+    id: projectId,
+    name: '',
+    business_case: '',
+    requirements: (requirements ?? []).map((row: { requirement: string }) => row.requirement),
+    deployment_target: '',
+    budget_limit: 0,
+    current_phase: DMAICPhase.DEFINE,
+    artifacts: {},
+    quality_gates: {},
+    datasets: {},
+  };
+
+  // The tables keep only some fields of CTQs, KPIs, FMEA items and solutions, so the rest comes from the latest
+  // artifacts this function produced, with the tables' rows applied on top
+  const { data: produced, error: artifactsError } = await supabase
+    .from('mcp_artifacts')
+    .select('phase, artifact_type, artifact_data')
+    .eq('project_id', projectId)
+    .order('created_at');
+  if (artifactsError) throw artifactsError;
+  const artifacts = project.artifacts as Record<string, Record<string, unknown>>;
+  (produced ?? []).forEach((row: { phase: string; artifact_type: string; artifact_data: unknown }) => {
+    (artifacts[row.phase.toLowerCase()] ??= {})[row.artifact_type] = row.artifact_data;
+  });
+
+  const tables = {} as StoredProject['tables'];
+  const keys = {} as Record<SyncTable, Map<string, string>>;
+  for (const table of SYNC_TABLES) {
+    const mapping = TABLE_MAPPINGS[table];
+    const rows = await selectRows(supabase, mapping, projectId);
+    if (table === 'projects' && rows.size === 0) {
+      throw new Error('Project not found');
+    }
+    keys[table] = new Map([...rows].map(([rowId, row]) => [rowId, mapping.apply(project, mapping.keyOf(row, rowId), row)]));
+    tables[table] = { rows, base: {} };
+    // Entities since deleted in the dashboard
+    const applied = new Set(keys[table].values());
+    [...mapping.local(project).keys()].filter(key => !applied.has(key)).forEach(key => mapping.apply(project, key, null));
+  }
+
+  // Entities as loaded, so only what the phase changes is written back
+  for (const table of SYNC_TABLES) {
+    const loaded = TABLE_MAPPINGS[table].local(project);
+    tables[table].rows.forEach((row, rowId) => {
+      const key = keys[table].get(rowId)!;
+      tables[table].base[rowId] = { key, local: loaded.get(key) ?? row, remote: row };
+    });
+  }
+  return { project, tables };
+}
+
+// The phase's changes to the project's rows; save_phase_results applies them in one transaction, so a failed write
+// leaves the project as it was
+function projectWrites(stored: StoredProject): TableWrites[] {
+  return SYNC_TABLES.map(table => {
+    const mapping = TABLE_MAPPINGS[table];
+    const { rows, base } = stored.tables[table];
+    const plan = planTable(mapping, mapping.local(stored.project), rows, base, { direction: 'push', resolve: 'local' });
+
+    if (table === 'projects') {
+      // Risk level and completion follow from the FMEA and the gates, as in the MCP server's sync
+      const changes = { ...plan.updates[0]?.changes, ...derivedColumns(stored.project) };
+      return { table, deletes: [], updates: [{ id: stored.project.id, changes }], inserts: [] };
+    }
+    return {
+      table,
+      deletes: plan.deletes.map(({ row_id }) => row_id),
+      updates: plan.updates.map(({ row_id, changes }) => ({ id: row_id, changes })),
+      inserts: plan.inserts.map(({ row }) => row),
+    };
+  });
+}
+
+async function selectRows(supabase: SupabaseClient, mapping: TableMapping, projectId: string): Promise<Map<string, Row>> {
+  const { data, error } = await supabase
+    .from(mapping.table)
+    .select(['id', ...Object.keys(mapping.columns)].join(', '))
+    .eq(mapping.table === 'projects' ? 'id' : 'project_id', projectId)
+    .order('created_at')
+    .order('id');
+  if (error) throw error;
+  // numeric columns can arrive as strings
+  return new Map((data ?? []).map(({ id, ...row }: Row) => [String(id), Object.fromEntries(Object.entries(row)
+    .map(([column, value]) => [column, mapping.columns[column] === 'number' && value !== null ? Number(value) : value]))]));
+}
+
+// Agents' progress as subagent_executions rows, inserted when an agent starts and updated when it finishes
+async function recordExecution(
+  supabase: SupabaseClient,
+  executionIds: Map<AgentExecution, string>,
+  operationId: string,
+  projectId: string,
+  inputData: PhaseInput,
+  execution: AgentExecution
+): Promise<void> {
+  const id = executionIds.get(execution);
+  if (!id) {
+    const rowId = crypto.randomUUID();
+    executionIds.set(execution, rowId);
+    const { error } = await supabase.from('subagent_executions').insert({
+      id: rowId,
+      mcp_operation_id: operationId,
+      project_id: projectId,
+      agent_type: execution.agent_type,
+      agent_role: execution.agent_role,
+      phase: execution.phase,
+      task_description: execution.task_description,
+      capabilities: execution.capabilities,
+      status: execution.status,
+      input_data: inputData,
+      started_at: execution.started_at,
+    });
+    if (error) console.error('Error recording subagent execution:', error);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('subagent_executions')
+    .update({
+      status: execution.status,
+      output_data: { artifacts: execution.artifacts, ...(execution.error ? { error: execution.error } : {}) },
+      metrics: { duration_ms: execution.duration_ms },
+      findings: execution.findings,
+      recommendations: execution.recommendations,
+      completed_at: execution.completed_at,
+      duration_ms: execution.duration_ms,
+    })
+    .eq('id', id);
+  if (error) console.error('Error updating subagent execution:', error);
+}
+
+// Deployment URLs come from users and are fetched from inside the project's network, so only http(s) URLs whose
+// host resolves to public addresses are requested, and each redirect is checked the same way before it is followed
+async function validateDeployment(url: string): Promise<boolean> {
+  const signal = AbortSignal.timeout(10000);
+  try {
+    let target = new URL(url);
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      if (!await isPublicUrl(target)) return false;
+      const response = await fetch(target, { redirect: 'manual', signal });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) return response.ok;
+      await response.body?.cancel();
+      target = new URL(location, target);
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  // The URL parser has already normalized IPv4 literals and put IPv6 ones in brackets
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (parseIPv4(host) || host.includes(':')) return isPublicAddress(host);
+
+  const resolved = await Promise.all((['A', 'AAAA'] as const).map(type => Deno.resolveDns(host, type).catch(() => [] as string[])));
+  const addresses = resolved.flat();
+  return addresses.length > 0 && addresses.every(isPublicAddress);
+}
+
+function isPublicAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPublicIPv4(v4);
+
+  const groups = parseIPv6(address);
+  if (!groups) return false;
+  // IPv4-mapped (::ffff:a.b.c.d) and the NAT64 prefix (64:ff9b::/96) carry an IPv4 address in the last 32 bits
+  if (groups.slice(0, 5).every(g => g === 0) && groups[5] === 0xffff
+    || groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(g => g === 0)) {
+    return isPublicIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return !(groups.slice(0, 7).every(g => g === 0) && groups[7] <= 1) // unspecified and loopback
+    && (groups[0] & 0xfe00) !== 0xfc00  // unique local, fc00::/7
+    && (groups[0] & 0xffc0) !== 0xfe80  // link local, fe80::/10
+    && (groups[0] & 0xff00) !== 0xff00  // multicast, ff00::/8
+    && !(groups[0] === 0x2001 && groups[1] === 0x0db8); // documentation, 2001:db8::/32
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(a === 0 || a === 10 || a === 127 || a >= 224  // this network, private, loopback, multicast and reserved
+    || a === 100 && b >= 64 && b < 128                   // carrier-grade NAT
+    || a === 169 && b === 254                            // link local, including cloud metadata endpoints
+    || a === 172 && b >= 16 && b < 32
+    || a === 192 && b === 168
+    || a === 192 && b === 0 && c === 0
+    || a === 198 && (b === 18 || b === 19));             // benchmarking
+}
+
+function parseIPv4(address: string): number[] | undefined {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return undefined;
+  return parts.map(Number);
+}
+
+function parseIPv6(address: string): number[] | undefined {
+  let text = address.split('%')[0];
+  // A trailing dotted IPv4 part stands for the last two groups
+  const tail = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (tail) {
+    const v4 = parseIPv4(tail[2]);
+    if (!v4) return undefined;
+    text = `${tail[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+  const [head, rest] = halves.map(half => half === '' ? [] : half.split(':'));
+  const missing = 8 - head.length - (rest?.length ?? 0);
+  if (rest ? missing < 1 : missing !== 0) return undefined;
+  const groups = [...head, ...Array(rest ? missing : 0).fill('0'), ...(rest ?? [])];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return undefined;
+  return groups.map(group => parseInt(group, 16));
+}
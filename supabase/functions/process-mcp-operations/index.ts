@@ -0,0 +1,78 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.58.0';
+import { errorMessage, processQueue } from '../_shared/operation-queue.ts';
+
+// Worker for the mcp_operations queue, meant to be called on a schedule with the service role key.
+// It claims operations until its time budget runs out; an operation still running then keeps its
+// lease through heartbeats, or is requeued by the next worker once the lease expires.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface ProcessRequest {
+  max_jobs?: number;
+  time_budget_seconds?: number;
+  lease_seconds?: number;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const options: ProcessRequest = await req.json().catch(() => ({}));
+
+    const report = await processQueue(supabase, {
+      worker: `process-mcp-operations:${crypto.randomUUID()}`,
+      lease_seconds: options.lease_seconds,
+      deadline: Date.now() + (options.time_budget_seconds ?? 50) * 1000,
+      max_jobs: options.max_jobs,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, ...report }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage(error) || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,49 @@
+/*
+  # MCP Project Sync
+
+  ## Overview
+  This migration links dashboard projects to Six Sigma MCP server projects so the
+  server can sync them in both directions. The server connects with the database
+  connection string (SIX_SIGMA_SUPABASE_DB_URL), as the postgres role, so RLS
+  policies do not apply to it.
+
+  ## Changes
+
+  ### 1. `projects.mcp_project_id`
+  - `mcp_project_id` (text, unique) - MCP server project id (proj_...) the row is synced with
+
+  ### 2. `mcp_sync_state`
+  Last synced state of each linked project, used to detect conflicts
+  - `project_id` (uuid, primary key) - Links to projects
+  - `mcp_project_id` (text) - MCP server project id
+  - `base` (jsonb) - Per table and row id, the entity key and both sides' values at the last sync
+  - `synced_at` (timestamptz) - When the project was last synced
+
+  ## Notes
+  - A field changed on only one side since the last sync is copied to the other side
+  - A field changed differently on both sides is reported as a conflict and left as is
+    until it is resolved in favour of one side
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS mcp_project_id text UNIQUE;
+
+CREATE TABLE IF NOT EXISTS mcp_sync_state (
+  project_id uuid PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  mcp_project_id text NOT NULL UNIQUE,
+  base jsonb NOT NULL DEFAULT '{}',
+  synced_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE mcp_sync_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view mcp_sync_state for their org projects"
+  ON mcp_sync_state FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects p
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE p.id = mcp_sync_state.project_id
+      AND om.user_id = auth.uid()
+    )
+  );
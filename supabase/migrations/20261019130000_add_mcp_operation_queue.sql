@@ -0,0 +1,265 @@
+/*
+  # MCP Operation Queue
+
+  ## Overview
+  This migration turns `mcp_operations` into a job queue. The execute-mcp-operation
+  edge function only enqueues an operation; workers (the process-mcp-operations edge
+  function, and the enqueuing function right after it responds) claim operations,
+  run them and report progress, so a phase no longer has to finish within the HTTP
+  request that started it.
+
+  ## Changes
+
+  ### 1. `mcp_operations`
+  - `status` also allows `cancelled` and `dead_letter` (retries exhausted)
+  - `attempts` (integer) - Times a worker has claimed the operation
+  - `max_attempts` (integer) - Attempts before the operation is dead-lettered
+  - `run_after` (timestamptz) - When a pending operation may be claimed; later after each failed attempt
+  - `locked_by` (text) - Worker running the operation
+  - `heartbeat_at` (timestamptz) - Last heartbeat of that worker
+  - `cancel_requested` (boolean) - The running operation should stop at its next heartbeat
+  - `progress` (numeric) - Percentage of the operation's agents finished
+  - `progress_message` (text) - What the operation is doing now
+
+  ### 2. Queue functions
+  Called by workers with the service role key:
+  - `claim_mcp_operation(worker, lease_seconds)` - Requeues operations whose worker stopped
+    sending heartbeats for longer than the lease, then claims the oldest runnable operation
+  - `heartbeat_mcp_operation(id, worker, progress, message)` - Extends the lease and records
+    progress; returns false when cancellation was requested and null when the lease was lost
+  - `complete_mcp_operation(id, worker, output)`
+  - `fail_mcp_operation(id, worker, error, retryable)` - Schedules a retry with exponential
+    backoff (30 seconds doubling up to an hour), or ends the operation as failed, dead_letter
+    or cancelled
+
+  Called by users, under the mcp_operations RLS policies:
+  - `cancel_mcp_operation(id)` - Cancels a pending operation, or asks a running one to stop
+  - `retry_mcp_operation(id)` - Queues a failed, dead-lettered or cancelled operation again
+
+  ## Notes
+  - Operations are claimed with FOR UPDATE SKIP LOCKED, so any number of workers can poll
+  - A project runs one operation at a time, since each phase builds on the one before it
+  - process-mcp-operations should be scheduled (e.g. every minute with pg_cron and pg_net)
+    so retries and operations left by stopped workers are picked up
+  - Operations and subagent executions are added to the realtime publication so the
+    dashboard can stream progress
+*/
+
+ALTER TABLE mcp_operations DROP CONSTRAINT IF EXISTS mcp_operations_status_check;
+ALTER TABLE mcp_operations ADD CONSTRAINT mcp_operations_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled', 'dead_letter'));
+
+ALTER TABLE mcp_operations
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts >= 1),
+  ADD COLUMN IF NOT EXISTS run_after timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS locked_by text,
+  ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancel_requested boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS progress numeric NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS progress_message text;
+
+-- Operations started before the queue ran inside a request that has long ended
+UPDATE mcp_operations
+SET status = 'failed',
+    completed_at = now(),
+    error_message = 'Interrupted before the operation queue was introduced'
+WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_mcp_operations_queue ON mcp_operations(run_after, created_at) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mcp_operations_running_project ON mcp_operations(project_id) WHERE status = 'running';
+
+-- Delay before the next attempt after `attempts` failed ones
+CREATE OR REPLACE FUNCTION mcp_operation_backoff(attempts integer)
+RETURNS interval AS $$
+  SELECT LEAST(interval '30 seconds' * power(2, GREATEST(attempts, 1) - 1), interval '1 hour');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ends a claimed attempt: back to the queue, or failed, dead_letter or cancelled
+CREATE OR REPLACE FUNCTION release_mcp_operation(p_id uuid, p_error text, p_retryable boolean)
+RETURNS text AS $$
+DECLARE
+  op mcp_operations;
+  next_status text;
+BEGIN
+  SELECT * INTO op FROM mcp_operations WHERE id = p_id;
+
+  next_status := CASE
+    WHEN op.cancel_requested THEN 'cancelled'
+    WHEN NOT p_retryable THEN 'failed'
+    WHEN op.attempts >= op.max_attempts THEN 'dead_letter'
+    ELSE 'pending'
+  END;
+
+  UPDATE mcp_operations
+  SET status = next_status,
+      run_after = CASE WHEN next_status = 'pending' THEN now() + mcp_operation_backoff(op.attempts) ELSE run_after END,
+      completed_at = CASE WHEN next_status = 'pending' THEN NULL ELSE now() END,
+      error_message = CASE WHEN next_status = 'cancelled' THEN 'Cancelled' ELSE p_error END,
+      locked_by = NULL,
+      heartbeat_at = NULL
+  WHERE id = p_id;
+
+  -- Agents the attempt left unfinished
+  UPDATE subagent_executions
+  SET status = CASE WHEN next_status = 'cancelled' THEN 'cancelled' ELSE 'failed' END,
+      completed_at = now()
+  WHERE mcp_operation_id = p_id AND status IN ('queued', 'running');
+
+  RETURN next_status;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION claim_mcp_operation(p_worker text, p_lease_seconds integer DEFAULT 60)
+RETURNS SETOF mcp_operations AS $$
+DECLARE
+  stale_id uuid;
+  next_id uuid;
+BEGIN
+  FOR stale_id IN
+    SELECT id FROM mcp_operations
+    WHERE status = 'running'
+      AND heartbeat_at < now() - make_interval(secs => p_lease_seconds)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM release_mcp_operation(stale_id, 'Worker stopped sending heartbeats', true);
+  END LOOP;
+
+  SELECT id INTO next_id FROM mcp_operations op
+  WHERE op.status = 'pending'
+    AND op.run_after <= now()
+    AND NOT op.cancel_requested
+    AND NOT EXISTS (
+      SELECT 1 FROM mcp_operations running
+      WHERE running.project_id = op.project_id AND running.status = 'running'
+    )
+  ORDER BY op.run_after, op.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF next_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  BEGIN
+    RETURN QUERY
+    UPDATE mcp_operations
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = p_worker,
+        heartbeat_at = now(),
+        started_at = COALESCE(started_at, now()),
+        progress = 0,
+        progress_message = NULL,
+        error_message = NULL
+    WHERE id = next_id
+    RETURNING *;
+  EXCEPTION WHEN unique_violation THEN
+    -- Another worker claimed an operation of the same project at the same time; it stays queued
+    RETURN;
+  END;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION heartbeat_mcp_operation(
+  p_id uuid,
+  p_worker text,
+  p_progress numeric DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS boolean AS $$
+  UPDATE mcp_operations
+  SET heartbeat_at = now(),
+      progress = COALESCE(p_progress, progress),
+      progress_message = COALESCE(p_message, progress_message)
+  WHERE id = p_id AND locked_by = p_worker AND status = 'running'
+  RETURNING NOT cancel_requested;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION complete_mcp_operation(p_id uuid, p_worker text, p_output jsonb)
+RETURNS boolean AS $$
+  UPDATE mcp_operations
+  SET status = 'completed',
+      output_data = p_output,
+      progress = 100,
+      completed_at = now(),
+      error_message = NULL,
+      locked_by = NULL,
+      heartbeat_at = NULL
+  WHERE id = p_id AND locked_by = p_worker AND status = 'running'
+  RETURNING true;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION fail_mcp_operation(p_id uuid, p_worker text, p_error text, p_retryable boolean DEFAULT true)
+RETURNS text AS $$
+BEGIN
+  PERFORM 1 FROM mcp_operations
+  WHERE id = p_id AND locked_by = p_worker AND status = 'running'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  RETURN release_mcp_operation(p_id, p_error, p_retryable);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cancel_mcp_operation(p_id uuid)
+RETURNS text AS $$
+  UPDATE mcp_operations
+  SET status = CASE WHEN status = 'pending' THEN 'cancelled' ELSE status END,
+      completed_at = CASE WHEN status = 'pending' THEN now() ELSE completed_at END,
+      error_message = CASE WHEN status = 'pending' THEN 'Cancelled' ELSE error_message END,
+      cancel_requested = true
+  WHERE id = p_id AND status IN ('pending', 'running')
+  RETURNING status;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION retry_mcp_operation(p_id uuid)
+RETURNS text AS $$
+  UPDATE mcp_operations
+  SET status = 'pending',
+      attempts = 0,
+      run_after = now(),
+      cancel_requested = false,
+      progress = 0,
+      progress_message = NULL,
+      completed_at = NULL,
+      error_message = NULL
+  WHERE id = p_id AND status IN ('failed', 'dead_letter', 'cancelled')
+  RETURNING status;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Only workers, holding the service role key, move operations through the queue
+REVOKE EXECUTE ON FUNCTION release_mcp_operation(uuid, text, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION claim_mcp_operation(text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION heartbeat_mcp_operation(uuid, text, numeric, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION complete_mcp_operation(uuid, text, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION fail_mcp_operation(uuid, text, text, boolean) FROM PUBLIC;
+
+DO $$
+BEGIN
+  -- Supabase grants new functions to its API roles by default
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE EXECUTE ON FUNCTION release_mcp_operation(uuid, text, boolean) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION claim_mcp_operation(text, integer) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION heartbeat_mcp_operation(uuid, text, numeric, text) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION complete_mcp_operation(uuid, text, jsonb) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION fail_mcp_operation(uuid, text, text, boolean) FROM anon, authenticated;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    GRANT EXECUTE ON FUNCTION claim_mcp_operation(text, integer) TO service_role;
+    GRANT EXECUTE ON FUNCTION heartbeat_mcp_operation(uuid, text, numeric, text) TO service_role;
+    GRANT EXECUTE ON FUNCTION complete_mcp_operation(uuid, text, jsonb) TO service_role;
+    GRANT EXECUTE ON FUNCTION fail_mcp_operation(uuid, text, text, boolean) TO service_role;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'mcp_operations') THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE mcp_operations;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'subagent_executions') THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE subagent_executions;
+    END IF;
+  END IF;
+END $$;
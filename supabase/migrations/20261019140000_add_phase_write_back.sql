@@ -0,0 +1,82 @@
+/*
+  # Phase Write-Back
+
+  ## Overview
+  Workers wrote a phase's results to the project's tables one request at a time, so a
+  failed request left some tables written and others not. `save_phase_results` applies
+  all of a phase's writes in one transaction.
+
+  ## Changes
+
+  ### 1. `save_phase_results(project_id, writes)`
+  Applies a list of writes, in order, each with:
+  - `table` - projects, ctq_items, kpis, fmea_items, solutions, phase_artifacts or mcp_artifacts
+  - `deletes` - Ids of rows to delete
+  - `updates` - Row ids with the columns to set
+  - `inserts` - Rows to insert, which get the project's id as their project_id
+
+  ## Notes
+  - Writes only reach the project's own rows (for `projects`, the project row itself)
+  - Columns a write does not name keep their values, or their defaults for inserted rows
+  - Called by workers with the service role key
+*/
+
+CREATE OR REPLACE FUNCTION save_phase_results(p_project_id uuid, p_writes jsonb)
+RETURNS void AS $$
+DECLARE
+  entry jsonb;
+  target text;
+  scope text;
+  item jsonb;
+  column_list text;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_writes)
+  LOOP
+    target := entry->>'table';
+    IF target IS NULL OR target NOT IN ('projects', 'ctq_items', 'kpis', 'fmea_items', 'solutions', 'phase_artifacts', 'mcp_artifacts') THEN
+      RAISE EXCEPTION 'Phase results cannot be written to table %', coalesce(target, 'null');
+    END IF;
+    scope := CASE WHEN target = 'projects' THEN 'id' ELSE 'project_id' END;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(coalesce(entry->'deletes', '[]'))
+    LOOP
+      EXECUTE format('DELETE FROM %I WHERE id = $1 AND %I = $2', target, scope)
+        USING (item #>> '{}')::uuid, p_project_id;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(coalesce(entry->'updates', '[]'))
+    LOOP
+      SELECT string_agg(quote_ident(key), ', ') INTO column_list FROM jsonb_object_keys(item->'changes') AS key;
+      CONTINUE WHEN column_list IS NULL;
+      EXECUTE format(
+        'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2 AND %I = $3',
+        target, column_list, column_list, target, scope
+      ) USING item->'changes', (item->>'id')::uuid, p_project_id;
+    END LOOP;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(coalesce(entry->'inserts', '[]'))
+    LOOP
+      item := item || jsonb_build_object('project_id', p_project_id);
+      SELECT string_agg(quote_ident(key), ', ') INTO column_list FROM jsonb_object_keys(item) AS key;
+      EXECUTE format(
+        'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+        target, column_list, column_list, target
+      ) USING item;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION save_phase_results(uuid, jsonb) FROM PUBLIC;
+
+DO $$
+BEGIN
+  -- Supabase grants new functions to its API roles by default
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE EXECUTE ON FUNCTION save_phase_results(uuid, jsonb) FROM anon, authenticated;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    GRANT EXECUTE ON FUNCTION save_phase_results(uuid, jsonb) TO service_role;
+  END IF;
+END $$;